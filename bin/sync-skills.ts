@@ -1,18 +1,58 @@
 #!/usr/bin/env node
 
 import minimist from 'minimist';
-import { run } from '../src/index.js';
+import { checkSync, listInstalledSkills, run, watchSync } from '../src/index.js';
+import { formatCheckReport } from '../src/check.js';
+import { parseOutputFormat, runWithJsonOutput } from '../src/output.js';
+import type { OutputFormat } from '../src/output.js';
+import { CONFLICT_KINDS, parseStrategy } from '../src/strategy.js';
+import { SKILL_FOLDERS } from '../src/scaffold.js';
+import type { StrategyPolicy } from '../src/types.js';
 import { VERSION } from '../src/version.js';
 
 const argv = minimist(process.argv.slice(2), {
-  boolean: ['fail-on-conflict', 'help', 'home', 'list', 'reconfigure', 'version'],
+  boolean: [
+    'assets',
+    'check',
+    'dry-run',
+    'fail-on-conflict',
+    'force',
+    'full',
+    'help',
+    'home',
+    'json',
+    'list',
+    'reconfigure',
+    'references',
+    'scripts',
+    'version',
+    'watch'
+  ],
+  string: [
+    'description',
+    'format',
+    'jobs',
+    'keep',
+    'out',
+    'strategy',
+    'strategy-out-of-sync',
+    'strategy-platform',
+    'strategy-dependent',
+    'strategy-frontmatter',
+    'strategy-deletion',
+    'template'
+  ],
   alias: {
+    'dry-run': 'n',
     'fail-on-conflict': 'f',
     'help': 'h',
     'home': 'H',
+    'jobs': 'j',
     'list': 'l',
+    'out': 'o',
     'reconfigure': 'r',
-    'version': 'v'
+    'version': 'v',
+    'watch': 'w'
   }
 });
 
@@ -27,20 +67,80 @@ sync-skills - Synchronize agent skills
 
 Usage:
   sync-skills [options]
+  sync-skills plan [--out <file>] [options]
+  sync-skills apply <file>
+  sync-skills history [--keep <n>]
+  sync-skills undo [run-id] [--force]
+  sync-skills doctor [--dry-run]
+  sync-skills rename <old> <new> [--dry-run]
+  sync-skills config migrate [--dry-run]
+  sync-skills relocate-common <path> [--dry-run]
+  sync-skills new <name> [--description <text>] [--template <name>] [--scripts] [--references] [--assets]
+
+Commands:
+  plan                      Save the planned changes as JSON (default: sync-plan.json); never prompts
+  apply <file>              Execute a saved plan; refuses if files changed since planning
+  history                   List recorded runs (backups in .agents-common/.history)
+  undo [run-id]             Restore the files changed by a run (default: most recent)
+  doctor                    Find skill references pointing at nothing and offer to repair them
+  rename <old> <new>        Rename a skill in common and every enabled assistant
+  config migrate            Upgrade .agents-common/config.json to the current schema version
+  relocate-common <path>    Move .agents-common (skills, config and history) and rewrite
+                            every reference to it; a .agents-common file then holds the path
+  new <name>                Create a skill in common and reference it from every enabled assistant
+                            (--template copies .agents-common/templates/<name>; --scripts,
+                            --references and --assets create the optional folders)
 
 Options:
+  --check                   Report anything out of sync without prompting or writing (for CI)
+  --dry-run, -n             Show the changes a sync would make without writing
   --fail-on-conflict, -f    Fail on conflicts instead of interactive mode
+  --force                   Undo even if files changed since the run
+  --full                    Go through every skill, not only those changed since the last sync
+  --format <f>              Output format for sync, --check and --list: text, json or ndjson
+                            (ndjson streams progress events, one per line)
   --home, -H                Use home directory configuration
+  --jobs, -j <n>            Files and folders read at once when scanning and hashing (default: 8)
+  --json                    Same as --format=json
+  --keep <n>                Prune history to the n most recent runs (history command)
   --list, -l                List installed skills
+  --out, -o                 Plan file to write (plan command)
   --reconfigure, -r         Reconfigure settings
+  --strategy <s>            Resolve conflicts without prompting: common, platform, newest or abort
+  --strategy-<kind> <s>     Override --strategy for one conflict kind: out-of-sync, platform,
+                            dependent, frontmatter or deletion (e.g. --strategy-dependent=platform)
   --version, -v             Show version
+  --watch, -w               Keep running and re-sync skills as they change (Ctrl+C to stop)
   --help, -h                Show this help
 
+Check exit codes (added together when several kinds of drift are found):
+  2   missing-reference     Platform skill not linked to .agents-common
+  4   stale-hash            Sync hash missing or not matching common
+  8   out-of-sync           Platform copy edited by hand
+  16  conflict              Platforms hold different versions
+  32  orphaned-dependent    Dependent file left in a platform folder
+  64  unlinked              Common skill missing from an assistant
+  128 excluded              Reference to a skill the assistant is excluded from
+
+Environment:
+  SYNC_SKILLS_COMMON_DIR    Location of the common directory, relative to the project or absolute
+                            (default: .agents-common, or the path held in a .agents-common file)
+
 Examples:
   sync-skills                              # Interactive sync
+  sync-skills --dry-run                    # Preview changes without writing
+  sync-skills --full                       # Re-check every skill, ignoring the sync state
+  sync-skills --watch                      # Re-sync whenever a skill changes
+  sync-skills --check                      # Fail in CI when skills are out of sync
+  sync-skills --json --strategy=common     # Unattended sync with a JSON report
+  sync-skills --list --json                # List installed skills as JSON
+  sync-skills plan --out plan.json         # Save a plan for review
+  sync-skills apply plan.json              # Execute a reviewed plan
+  sync-skills undo                         # Undo the last sync
   sync-skills --list                       # List installed skills
   sync-skills --home --list                # List skills in home dir
   sync-skills --fail-on-conflict           # Fail on conflicts
+  sync-skills --strategy=common            # Unattended: common wins every conflict
   sync-skills --home                       # Use home config
   sync-skills --reconfigure                # Reconfigure settings
   sync-skills --version                    # Show version
@@ -48,12 +148,163 @@ Examples:
   process.exit(0);
 }
 
+const COMMANDS = ['plan', 'apply', 'history', 'undo', 'doctor', 'rename', 'new', 'config', 'relocate-common'];
+const [command, commandArg, commandArg2] = argv._.map(String);
+
+if (command && !COMMANDS.includes(command)) {
+  console.error(`Error: Unknown command "${command}". Run sync-skills --help for usage.`);
+  process.exit(1);
+}
+
+if (command === 'apply' && !commandArg) {
+  console.error('Error: apply requires a plan file, e.g. sync-skills apply sync-plan.json');
+  process.exit(1);
+}
+
+if (command === 'rename' && !commandArg2) {
+  console.error('Error: rename requires the current and new skill names, e.g. sync-skills rename old-name new-name');
+  process.exit(1);
+}
+
+if (command === 'config' && commandArg !== 'migrate') {
+  console.error('Error: Unknown config command. Use sync-skills config migrate');
+  process.exit(1);
+}
+
+if (command === 'relocate-common' && !commandArg) {
+  console.error('Error: relocate-common requires the new location, e.g. sync-skills relocate-common docs/agent-skills');
+  process.exit(1);
+}
+
+if (command === 'new' && !commandArg) {
+  console.error('Error: new requires a skill name, e.g. sync-skills new pdf-processing');
+  process.exit(1);
+}
+
+if (argv.keep !== undefined && !/^\d+$/.test(String(argv.keep))) {
+  console.error('Error: --keep must be a non-negative integer');
+  process.exit(1);
+}
+
+if (argv.jobs !== undefined && !/^[1-9]\d*$/.test(String(argv.jobs))) {
+  console.error('Error: --jobs must be a positive integer');
+  process.exit(1);
+}
+const jobs = argv.jobs !== undefined ? Number(argv.jobs) : undefined;
+
+let strategy: StrategyPolicy | undefined;
+let outputFormat: OutputFormat = 'text';
+try {
+  outputFormat = parseOutputFormat(argv.json, argv.format);
+  if (outputFormat !== 'text' && command) {
+    throw new Error(`--${argv.format ? 'format' : 'json'} is only supported for sync, --check and --list`);
+  }
+  if (argv.strategy !== undefined) {
+    strategy = { default: parseStrategy(argv.strategy) };
+  }
+  for (const kind of CONFLICT_KINDS) {
+    const option = `strategy-${kind}`;
+    if (argv[option] !== undefined) {
+      strategy = { ...strategy, [kind]: parseStrategy(argv[option], option) };
+    }
+  }
+  if (argv.watch && (command || argv.check || argv.list || argv['dry-run'] || outputFormat !== 'text')) {
+    throw new Error('--watch cannot be combined with commands, --check, --list, --dry-run or JSON output');
+  }
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`Error: ${errorMessage}`);
+  process.exit(1);
+}
+
+if (argv.watch) {
+  try {
+    const watcher = await watchSync({
+      failOnConflict: argv['fail-on-conflict'],
+      homeMode: argv.home,
+      strategy,
+      full: argv.full,
+      jobs
+    });
+    process.once('SIGINT', () => {
+      void watcher.close();
+    });
+    await watcher.closed;
+    process.exit(0);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (outputFormat !== 'text') {
+  if (argv.check) {
+    const report = await runWithJsonOutput(outputFormat, 'check', () => checkSync({ homeMode: argv.home, jobs }));
+    process.exit(report ? report.exitCode : 1);
+  }
+  if (argv.list) {
+    const skills = await runWithJsonOutput(outputFormat, 'list', async () => ({
+      skills: await listInstalledSkills({ homeMode: argv.home, jobs })
+    }));
+    process.exit(skills ? 0 : 1);
+  }
+  const report = await runWithJsonOutput(outputFormat, 'sync', async onEvent => {
+    const result = await run({
+      failOnConflict: argv['fail-on-conflict'],
+      homeMode: argv.home,
+      reconfigure: argv.reconfigure,
+      dryRun: argv['dry-run'],
+      strategy,
+      full: argv.full,
+      jobs,
+      onEvent
+    });
+    return result!;
+  });
+  process.exit(report ? 0 : 1);
+}
+
+if (argv.check) {
+  try {
+    const report = await checkSync({ homeMode: argv.home, jobs });
+    console.log(formatCheckReport(report));
+    process.exit(report.exitCode);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
 try {
   await run({
     failOnConflict: argv['fail-on-conflict'],
     homeMode: argv.home,
     reconfigure: argv.reconfigure,
-    listMode: argv.list
+    listMode: argv.list,
+    dryRun: argv['dry-run'],
+    planOutput: command === 'plan' ? (argv.out || 'sync-plan.json') : undefined,
+    applyPlan: command === 'apply' ? commandArg : undefined,
+    history: command === 'history',
+    historyKeep: argv.keep !== undefined ? Number(argv.keep) : undefined,
+    undo: command === 'undo' ? (commandArg ?? true) : undefined,
+    force: argv.force,
+    doctor: command === 'doctor',
+    configMigrate: command === 'config',
+    relocateCommon: command === 'relocate-common' ? commandArg : undefined,
+    rename: command === 'rename' ? { from: commandArg, to: commandArg2 } : undefined,
+    newSkill: command === 'new'
+      ? {
+        name: commandArg,
+        description: argv.description,
+        template: argv.template,
+        folders: SKILL_FOLDERS.filter(folder => argv[folder])
+      }
+      : undefined,
+    strategy,
+    full: argv.full,
+    jobs
   });
 } catch (error) {
   const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1,9 +1,10 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
+import { logger, prompter } from './ui.js';
 import { join, dirname } from 'path';
-import inquirer from 'inquirer';
 import matter from 'gray-matter';
 import { pickCoreFrontmatter } from './frontmatter.js';
 import { buildCommonSkillReference } from './references.js';
+import { mapConcurrent, runJob } from './concurrency.js';
 import type {
   AssistantConfig,
   AssistantState,
@@ -11,6 +12,14 @@ import type {
   SyncPair
 } from './types.js';
 import { getAssistantConfigs } from './types.js';
+import { commonSkillsDir } from './common.js';
+import { ALL_TARGETS } from './targets.js';
+import type { TargetFilter } from './targets.js';
+
+/**
+ * Called when a platform skill is written as an @ reference
+ */
+type ReferenceCallback = (skillName: string, platform: string, path: string) => void;
 
 /**
  * Discover the state of configured assistants
@@ -21,14 +30,7 @@ export async function discoverAssistants(
   baseDir: string,
   configs: AssistantConfig[] = getAssistantConfigs()
 ): Promise<AssistantState[]> {
-  const states: AssistantState[] = [];
-
-  for (const config of configs) {
-    const state = await discoverAssistant(baseDir, config);
-    states.push(state);
-  }
-
-  return states;
+  return Promise.all(configs.map(config => discoverAssistant(baseDir, config)));
 }
 
 /**
@@ -44,27 +46,30 @@ async function discoverAssistant(baseDir: string, config: AssistantConfig): Prom
 
   try {
     // Check if assistant directory exists
-    await fs.access(assistantDir);
+    await runJob(() => fs.access(assistantDir));
     hasDir = true;
 
     // Check if skills directory exists and has content
     try {
-      const entries = await fs.readdir(skillsDir, { withFileTypes: true });
+      const entries = await runJob(() => fs.readdir(skillsDir, { withFileTypes: true }));
 
-      for (const entry of entries) {
-        if (entry.isDirectory()) {
-          const skillFile = join(skillsDir, entry.name, 'SKILL.md');
-          try {
-            await fs.access(skillFile);
-            skills.push({
-              path: skillFile,
-              skillName: entry.name
-            });
-          } catch {
-            // SKILL.md doesn't exist, skip this directory
-          }
+      const found = await mapConcurrent(entries, async (entry): Promise<SkillFile | null> => {
+        if (!entry.isDirectory()) {
+          return null;
         }
-      }
+        const skillFile = join(skillsDir, entry.name, 'SKILL.md');
+        try {
+          await fs.access(skillFile);
+          return {
+            path: skillFile,
+            skillName: entry.name
+          };
+        } catch {
+          // SKILL.md doesn't exist, skip this directory
+          return null;
+        }
+      });
+      skills.push(...found.filter((skill): skill is SkillFile => skill !== null));
 
       hasSkills = skills.length > 0;
     } catch {
@@ -116,7 +121,7 @@ function needsPrompt(pair: SyncPair): boolean {
  * Prompt user for sync permission
  */
 async function promptForSync(targetName: string): Promise<boolean> {
-  const answer = await inquirer.prompt([
+  const answer = await prompter.prompt([
     {
       type: 'confirm',
       name: 'create',
@@ -133,7 +138,8 @@ async function promptForSync(targetName: string): Promise<boolean> {
 async function cloneAssistantSkills(
   baseDir: string,
   sourceSkills: SkillFile[],
-  targetConfig: AssistantConfig
+  targetConfig: AssistantConfig,
+  onReference: ReferenceCallback
 ): Promise<void> {
   for (const skill of sourceSkills) {
     const content = await fs.readFile(skill.path, 'utf-8');
@@ -143,7 +149,7 @@ async function cloneAssistantSkills(
     const coreFrontmatter = pickCoreFrontmatter(parsed.data as Record<string, unknown>);
 
     const targetPath = join(baseDir, targetConfig.skillsDir, skill.skillName, 'SKILL.md');
-    const commonPath = join(baseDir, '.agents-common/skills', skill.skillName, 'SKILL.md');
+    const commonPath = join(baseDir, commonSkillsDir(), skill.skillName, 'SKILL.md');
     const atReference = buildCommonSkillReference(targetPath, commonPath);
 
     // Ensure directory exists
@@ -152,15 +158,20 @@ async function cloneAssistantSkills(
     // Write the target skill file with @ reference and core frontmatter
     const targetContent = matter.stringify(atReference + '\n', coreFrontmatter);
     await fs.writeFile(targetPath, targetContent);
+    onReference(skill.skillName, targetConfig.name, targetPath);
   }
 }
 
 /**
  * Process all sync pairs with appropriate prompts
+ * @param onReference - Called for each @ reference written
+ * @param isTargeted - Whether an assistant gets a skill; the others are never cloned to it
  */
 export async function processSyncPairs(
   baseDir: string,
-  pairs: SyncPair[]
+  pairs: SyncPair[],
+  onReference: ReferenceCallback = () => {},
+  isTargeted: TargetFilter = ALL_TARGETS
 ): Promise<Set<string>> {
   const blockedAssistants = new Set<string>();
   const approvedAssistants = new Set<string>();
@@ -170,10 +181,14 @@ export async function processSyncPairs(
     if (blockedAssistants.has(targetName)) {
       continue;
     }
+    const skills = pair.source.skills.filter(skill => isTargeted(skill.skillName, targetName));
+    if (skills.length === 0) {
+      continue;
+    }
 
     // Skip if already approved in a previous iteration
     if (approvedAssistants.has(targetName)) {
-      await cloneAssistantSkills(baseDir, pair.source.skills, pair.target.config);
+      await cloneAssistantSkills(baseDir, skills, pair.target.config, onReference);
       continue;
     }
 
@@ -190,7 +205,7 @@ export async function processSyncPairs(
 
     if (shouldSync) {
       approvedAssistants.add(targetName);
-      await cloneAssistantSkills(baseDir, pair.source.skills, pair.target.config);
+      await cloneAssistantSkills(baseDir, skills, pair.target.config, onReference);
     } else {
       blockedAssistants.add(targetName);
     }
@@ -202,12 +217,16 @@ export async function processSyncPairs(
 /**
  * Sync skills that exist only in .agents-common to enabled platforms
  * Creates @ references in platform folders for common-only skills
+ * @param onReference - Called for each @ reference written
+ * @param isTargeted - Whether an assistant gets a skill; the others get no reference
  */
 export async function syncCommonOnlySkills(
   baseDir: string,
   commonSkills: SkillFile[],
   enabledConfigs: AssistantConfig[],
-  blockedAssistants: Set<string> = new Set()
+  blockedAssistants: Set<string> = new Set(),
+  onReference: ReferenceCallback = () => {},
+  isTargeted: TargetFilter = ALL_TARGETS
 ): Promise<void> {
   const approvedAssistants = new Set<string>();
   const assistantDirExists = new Map<string, boolean>();
@@ -215,7 +234,7 @@ export async function syncCommonOnlySkills(
   for (const commonSkill of commonSkills) {
     for (const config of enabledConfigs) {
       const targetName = config.name;
-      if (blockedAssistants.has(targetName)) {
+      if (blockedAssistants.has(targetName) || !isTargeted(commonSkill.skillName, targetName)) {
         continue;
       }
 
@@ -282,11 +301,12 @@ export async function syncCommonOnlySkills(
       // Ensure directory exists
       await fs.mkdir(dirname(platformSkillPath), { recursive: true });
 
-      // Build platform frontmatter with sync metadata
+      // Build platform frontmatter with sync metadata (tracked files only matter in common)
       const platformMetadata: Record<string, unknown> = { ...(commonMetadata || {}) };
       if (commonSync || commonHash) {
+        const { files: _files, ...platformSync } = commonSync || {};
         platformMetadata.sync = {
-          ...(commonSync || {}),
+          ...platformSync,
           ...(commonHash ? { hash: commonHash } : {})
         };
       }
@@ -300,7 +320,8 @@ export async function syncCommonOnlySkills(
       const targetContent = matter.stringify(atReference + '\n', platformFrontmatter);
       await fs.writeFile(platformSkillPath, targetContent);
 
-      console.log(`Created @ reference for ${commonSkill.skillName} in ${config.name}`);
+      logger.log(`Created @ reference for ${commonSkill.skillName} in ${config.name}`);
+      onReference(commonSkill.skillName, config.name, platformSkillPath);
     }
   }
 }
@@ -0,0 +1,252 @@
+import { fs } from './io.js';
+import { dirname, join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import matter from 'gray-matter';
+import { scanSkills } from './scanner.js';
+import { detectConflicts, detectOutOfSyncSkills } from './detector.js';
+import { computeFileHash, detectDependentFiles, hashMatches } from './dependents.js';
+import { detectAvailableAssistants, getEnabledAssistants, readConfig } from './config.js';
+import { getAssistantConfigs } from './types.js';
+import { commonSkillsDir } from './common.js';
+import { verifySkillHash } from './syncer.js';
+import { normalizeBodyContent } from './frontmatter.js';
+import { parseSkillFile } from './parser.js';
+import { loadTargetFilter } from './targets.js';
+import type { AssistantConfig, CheckReport, Drift, DriftCategory, UnverifiedHash } from './types.js';
+
+/**
+ * Exit code bit for each drift category; a check exits with the bits of every category found
+ */
+export const CHECK_EXIT_CODES: Record<DriftCategory, number> = {
+  'missing-reference': 2,
+  'stale-hash': 4,
+  'out-of-sync': 8,
+  'conflict': 16,
+  'orphaned-dependent': 32,
+  'unlinked': 64,
+  'excluded': 128
+};
+
+const CATEGORY_LABELS: Record<DriftCategory, string> = {
+  'missing-reference': 'Platform skills not linked to .agents-common',
+  'stale-hash': 'Stale sync hashes',
+  'out-of-sync': 'Platform copies edited by hand',
+  'conflict': 'Platforms with different versions',
+  'orphaned-dependent': 'Dependent files left in platform folders',
+  'unlinked': 'Common skills missing from an assistant',
+  'excluded': 'References to skills an assistant is excluded from'
+};
+
+function getSyncMetadata(data: Record<string, unknown>): Record<string, unknown> | undefined {
+  const metadata =
+    data?.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? data.metadata as Record<string, unknown>
+      : undefined;
+  return metadata?.sync && typeof metadata.sync === 'object' && !Array.isArray(metadata.sync)
+    ? metadata.sync as Record<string, unknown>
+    : undefined;
+}
+
+function getSyncHash(data: Record<string, unknown>): string | undefined {
+  const hash = getSyncMetadata(data)?.hash;
+  return typeof hash === 'string' ? hash : undefined;
+}
+
+/**
+ * Assistants to check: the configured ones, or those with a folder when there's no config yet
+ */
+async function getCheckedAssistants(baseDir: string, homeMode: boolean): Promise<AssistantConfig[]> {
+  const config = await readConfig(baseDir);
+  if (config) {
+    return getEnabledAssistants(config, homeMode);
+  }
+  return getAssistantConfigs(await detectAvailableAssistants(baseDir), homeMode);
+}
+
+/**
+ * Compare every assistant's skills with .agents-common without prompting or writing
+ * @param baseDir - Base directory to check
+ * @param homeMode - Use home directory assistant paths
+ * @returns Every drift found and the exit code to report it with
+ */
+export async function checkSkills(baseDir: string, homeMode: boolean = false): Promise<CheckReport> {
+  const configs = await getCheckedAssistants(baseDir, homeMode);
+  const { platforms, common } = await scanSkills(baseDir, configs);
+  const drifts: Drift[] = [];
+  const add = (drift: Drift) => drifts.push({ ...drift, path: relative(resolve(baseDir), drift.path) });
+  const unverified: UnverifiedHash[] = [];
+
+  // Skills an assistant is excluded from are only checked for leftover references
+  const isTargeted = await loadTargetFilter(
+    (await readConfig(baseDir))?.targets,
+    [...common, ...Object.values(platforms).flat()]
+  );
+  for (const config of configs) {
+    const platformSkills = platforms[config.name] || [];
+    for (const skill of platformSkills.filter(skill => !isTargeted(skill.skillName, config.name))) {
+      if (parseSkillFile(await fs.readFile(skill.path, 'utf8'))?.hasAtReference) {
+        add({
+          category: 'excluded',
+          skillName: skill.skillName,
+          platform: config.name,
+          path: skill.path,
+          detail: `${config.name} is excluded from this skill`
+        });
+      }
+    }
+    platforms[config.name] = platformSkills.filter(skill => isTargeted(skill.skillName, config.name));
+  }
+
+  const commonHashes = new Map<string, string | undefined>();
+  for (const skill of common) {
+    const parsed = matter(await fs.readFile(skill.path, 'utf8'));
+    const hash = getSyncHash(parsed.data);
+    commonHashes.set(skill.skillName, hash);
+    if (!hash) {
+      add({ category: 'stale-hash', skillName: skill.skillName, path: skill.path, detail: 'common skill has no sync hash' });
+      continue;
+    }
+
+    const matches = await verifySkillHash(parsed.data, normalizeBodyContent(parsed.content), dirname(skill.path));
+    if (matches === false) {
+      add({
+        category: 'stale-hash',
+        skillName: skill.skillName,
+        path: skill.path,
+        detail: 'common skill changed since its hash was computed'
+      });
+    } else if (matches === null) {
+      const version = getSyncMetadata(parsed.data)?.version;
+      unverified.push({
+        skillName: skill.skillName,
+        path: relative(resolve(baseDir), skill.path),
+        detail: version === undefined
+          ? 'no sync metadata version to recompute the hash with'
+          : `version ${version} hash includes sync metadata a later sync replaced`
+      });
+    }
+  }
+
+  for (const config of configs) {
+    const platformSkills = platforms[config.name] || [];
+    const outOfSync = await detectOutOfSyncSkills(platformSkills, common, config.name);
+    for (const skill of outOfSync) {
+      add({
+        category: 'out-of-sync',
+        skillName: skill.skillName,
+        platform: config.name,
+        path: skill.platformPath,
+        detail: skill.mismatchType === 'both' ? 'body and frontmatter differ from common' : `${skill.mismatchType} differs from common`
+      });
+    }
+
+    for (const skill of platformSkills) {
+      if (!commonHashes.has(skill.skillName)) {
+        add({
+          category: 'missing-reference',
+          skillName: skill.skillName,
+          platform: config.name,
+          path: skill.path,
+          detail: 'no common skill yet'
+        });
+        continue;
+      }
+
+      const commonHash = commonHashes.get(skill.skillName);
+      const platformHash = getSyncHash(matter(await fs.readFile(skill.path, 'utf8')).data);
+      const reported = outOfSync.some(other => other.platformPath === skill.path);
+      if (!reported && commonHash && platformHash !== commonHash) {
+        add({
+          category: 'stale-hash',
+          skillName: skill.skillName,
+          platform: config.name,
+          path: skill.path,
+          detail: platformHash ? `synced from ${platformHash}, common is ${commonHash}` : 'no sync hash'
+        });
+      }
+
+      const commonDir = join(baseDir, commonSkillsDir(), skill.skillName);
+      for (const dependent of await detectDependentFiles(dirname(skill.path))) {
+        let detail = 'not in common';
+        try {
+          const commonFileHash = await computeFileHash(join(commonDir, dependent.relativePath));
+          detail = hashMatches(commonFileHash, dependent.hash) ? 'copy of the common file' : 'differs from common';
+        } catch {
+          // Missing from common
+        }
+        add({
+          category: 'orphaned-dependent',
+          skillName: skill.skillName,
+          platform: config.name,
+          path: dependent.absolutePath,
+          detail
+        });
+      }
+    }
+  }
+
+  for (const conflict of await detectConflicts(platforms)) {
+    const holders = conflict.variants?.map(variant => variant.platforms.join(', ')) ?? [conflict.platformA, conflict.platformB];
+    add({
+      category: 'conflict',
+      skillName: conflict.skillName,
+      path: dirname(conflict.pathA),
+      detail: `${holders.length} versions: ${holders.join(' / ')}`
+    });
+  }
+
+  // Common-only skills are linked into assistants whose folder exists
+  for (const config of configs) {
+    try {
+      await fs.access(join(baseDir, config.dir));
+    } catch {
+      continue;
+    }
+    const linked = new Set((platforms[config.name] || []).map(skill => skill.skillName));
+    for (const skill of common) {
+      if (!linked.has(skill.skillName) && isTargeted(skill.skillName, config.name)) {
+        add({
+          category: 'unlinked',
+          skillName: skill.skillName,
+          platform: config.name,
+          path: join(baseDir, config.skillsDir, skill.skillName, 'SKILL.md'),
+          detail: `not linked in ${config.skillsDir}`
+        });
+      }
+    }
+  }
+
+  const exitCode = drifts.reduce((code, drift) => code | CHECK_EXIT_CODES[drift.category], 0);
+  return { drifts, unverified, exitCode };
+}
+
+/**
+ * Human-readable check report, grouped by category
+ */
+export function formatCheckReport(report: CheckReport): string {
+  const lines: string[] = [];
+  if (report.unverified.length > 0) {
+    lines.push(chalk.bold('\nSync hashes that could not be verified (not counted as problems)'));
+    for (const skill of report.unverified) {
+      lines.push(`  ${chalk.yellow(skill.skillName)}  ${skill.path}: ${skill.detail}`);
+    }
+  }
+  if (report.drifts.length === 0) {
+    lines.push(chalk.green(lines.length > 0 ? '\nNo other problems found' : 'All skills in sync'));
+    return lines.join('\n');
+  }
+
+  for (const category of Object.keys(CHECK_EXIT_CODES) as DriftCategory[]) {
+    const drifts = report.drifts.filter(drift => drift.category === category);
+    if (drifts.length === 0) {
+      continue;
+    }
+    lines.push(chalk.bold(`\n${CATEGORY_LABELS[category]} (${category}, exit code ${CHECK_EXIT_CODES[category]})`));
+    for (const drift of drifts) {
+      const where = drift.platform ? `${drift.skillName} (${drift.platform})` : drift.skillName;
+      lines.push(`  ${chalk.yellow(where)}  ${drift.path}: ${drift.detail}`);
+    }
+  }
+  lines.push(chalk.red(`\n${report.drifts.length} problem(s) found; run sync-skills to fix them`));
+  return lines.join('\n');
+}
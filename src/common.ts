@@ -0,0 +1,108 @@
+import { createSetting } from './context.js';
+import { fs } from './io.js';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+
+/** Default location of the common directory, relative to base directory */
+export const DEFAULT_COMMON_DIR = '.agents-common';
+
+/** Environment variable locating the common directory, relative to base directory or absolute */
+export const COMMON_DIR_ENV = 'SYNC_SKILLS_COMMON_DIR';
+
+const commonDir = createSetting(DEFAULT_COMMON_DIR);
+
+/**
+ * Replace the common directory
+ * @param dir - Common directory, relative to base directory (may start with `..`)
+ * @returns Function restoring the previous common directory
+ */
+export function useCommonDir(dir: string): () => void {
+  return commonDir.use(dir);
+}
+
+/**
+ * Common directory in effect, relative to base directory
+ */
+export function getCommonDir(): string {
+  return commonDir.get();
+}
+
+/**
+ * Skills folder of the common directory in effect, relative to base directory
+ */
+export function commonSkillsDir(): string {
+  return `${commonDir.get()}/skills`;
+}
+
+/**
+ * Locate a path of the common directory
+ * @param path - Path relative to base directory, with the common directory at its default location (e.g. HISTORY_PATH)
+ * @returns The same path in the common directory in effect
+ */
+export function inCommonDir(path: string): string {
+  if (path !== DEFAULT_COMMON_DIR && !path.startsWith(`${DEFAULT_COMMON_DIR}/`)) {
+    return path;
+  }
+  return commonDir.get() + path.slice(DEFAULT_COMMON_DIR.length);
+}
+
+/**
+ * Whether a path relative to base directory is in the common directory in effect
+ */
+export function isCommonPath(relativePath: string): boolean {
+  const dir = commonDir.get();
+  return relativePath === dir || relativePath.startsWith(`${dir}/`);
+}
+
+/**
+ * Express a common directory location relative to a base directory
+ * @param baseDir - Base directory of the sync
+ * @param location - Location relative to base directory or absolute
+ * @throws Error if the location is the base directory itself
+ */
+export function toCommonDir(baseDir: string, location: string): string {
+  const dir = relative(resolve(baseDir), resolve(baseDir, location)).split(sep).join('/');
+  if (dir === '') {
+    throw new Error('The common directory cannot be the base directory');
+  }
+  return dir;
+}
+
+/**
+ * Read the pointer file: a `.agents-common` file, instead of the folder, holding the location
+ * @returns The location as written, or null if there's no pointer
+ */
+export async function readCommonPointer(baseDir: string): Promise<string | null> {
+  try {
+    const location = (await fs.readFile(join(baseDir, DEFAULT_COMMON_DIR), 'utf-8')).trim();
+    return location || null;
+  } catch {
+    // Missing, or the common directory itself
+    return null;
+  }
+}
+
+/**
+ * Point the base directory at a common directory
+ *
+ * The default location needs no pointer, so none is written for it.
+ * @param baseDir - Base directory of the sync
+ * @param location - Location relative to base directory or absolute, kept as given
+ */
+export async function writeCommonPointer(baseDir: string, location: string): Promise<void> {
+  if (toCommonDir(baseDir, location) === DEFAULT_COMMON_DIR) {
+    return;
+  }
+  await fs.writeFile(join(baseDir, DEFAULT_COMMON_DIR), `${isAbsolute(location) ? location : toCommonDir(baseDir, location)}\n`);
+}
+
+/**
+ * Find the common directory of a base directory
+ *
+ * `SYNC_SKILLS_COMMON_DIR` wins over the pointer file, which wins over the default location.
+ * @param baseDir - Base directory of the sync
+ * @returns The common directory, relative to base directory
+ */
+export async function resolveCommonDir(baseDir: string): Promise<string> {
+  const location = process.env[COMMON_DIR_ENV] || await readCommonPointer(baseDir);
+  return location ? toCommonDir(baseDir, location) : DEFAULT_COMMON_DIR;
+}
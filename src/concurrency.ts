@@ -0,0 +1,74 @@
+import { createSetting } from './context.js';
+
+/** Filesystem operations run at once by default when scanning and hashing */
+export const DEFAULT_JOBS = 8;
+
+/** Slots shared by the operations of a run */
+interface JobPool {
+  limit: number;
+  running: number;
+  /** Operations waiting for a slot, oldest first */
+  waiting: Array<() => void>;
+}
+
+function createPool(limit: number): JobPool {
+  return { limit, running: 0, waiting: [] };
+}
+
+const activePool = createSetting(createPool(DEFAULT_JOBS));
+
+/**
+ * Replace the concurrency limit, with slots of its own
+ * @param jobs - Operations run at once across the whole run (at least 1)
+ * @returns Function restoring the previous limit
+ */
+export function useJobs(jobs: number): () => void {
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new Error(`Invalid jobs "${jobs}". Use a positive integer`);
+  }
+  return activePool.use(createPool(jobs));
+}
+
+/**
+ * Run an operation once a job slot is free
+ *
+ * Every filesystem or hash operation of a run shares the same slots, however
+ * deeply the steps starting them are nested. The operation must not wait on
+ * other jobs itself, or a low limit could leave it waiting on its own slot.
+ * @param fn - Operation to run
+ * @returns Result of the operation
+ */
+export async function runJob<T>(fn: () => Promise<T>): Promise<T> {
+  const pool = activePool.get();
+  if (pool.running < pool.limit) {
+    pool.running++;
+  } else {
+    // The finishing job hands its slot over, so no new job can take it in between
+    await new Promise<void>(resolve => pool.waiting.push(resolve));
+  }
+  try {
+    return await fn();
+  } finally {
+    const next = pool.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      pool.running--;
+    }
+  }
+}
+
+/**
+ * Map items through an async function, running each call as a job
+ *
+ * Results keep the order of the items whatever order the calls finish in, so
+ * anything printed from them stays deterministic. Like any job, the calls must
+ * not wait on other jobs: steps that recurse start their own operations with
+ * runJob instead.
+ * @param items - Items to map
+ * @param fn - Async function called once per item
+ * @returns Results in item order
+ */
+export async function mapConcurrent<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  return Promise.all(items.map((item, index) => runJob(() => fn(item, index))));
+}
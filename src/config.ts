@@ -1,7 +1,16 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
 import { join, dirname } from 'path';
-import inquirer from 'inquirer';
-import { ASSISTANT_MAP, getAssistantConfigs } from './types.js';
+import { inCommonDir } from './common.js';
+import {
+  ASSISTANT_MAP,
+  getAssistantConfigs,
+  getAssistantMap,
+  getDetectionFolder,
+  useCustomAssistants,
+  usePathOverrides
+} from './types.js';
+import type { AssistantPathOverride, CustomAssistant, SkillTargets } from './types.js';
+import { logger, prompter } from './ui.js';
 
 /**
  * Configuration file structure
@@ -11,63 +20,315 @@ export interface Config {
   version: number;
   /** Enabled assistant names */
   assistants: string[];
+  /** Merge tool command using $BASE, $LOCAL, $REMOTE and $MERGED (default: git's merge.tool) */
+  mergeTool?: string;
+  /** Assistants not built into sync-skills (version 2 and later) */
+  customAssistants?: CustomAssistant[];
+  /** Skills paths replacing those of built-in or custom assistants, by name (version 3 and later) */
+  paths?: Record<string, AssistantPathOverride>;
+  /** Assistants getting the skills whose name matches each glob (version 4 and later) */
+  targets?: Record<string, SkillTargets>;
 }
 
-/** Path to config file relative to base directory */
+/**
+ * Sections of a config that change the assistants themselves
+ */
+export type AssistantSettings = Required<Pick<Config, 'customAssistants' | 'paths'>>;
+
+/** Config file */
 export const CONFIG_PATH = '.agents-common/config.json';
 
+/** Schema version written by this release */
+export const CONFIG_VERSION = 4;
+
 /**
- * Read configuration file
- * @param baseDir - Base directory to read from
- * @returns Config object or null if file doesn't exist
+ * Migration of a config from each schema version to the next
  */
-export async function readConfig(baseDir: string): Promise<Config | null> {
-  const configPath = join(baseDir, CONFIG_PATH);
+const MIGRATIONS: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 added customAssistants; version 1 configs are valid as they are
+  1: config => ({ ...config, version: 2 }),
+  // Version 3 added paths
+  2: config => ({ ...config, version: 3 }),
+  // Version 4 added targets
+  3: config => ({ ...config, version: 4 })
+};
 
-  try {
-    const content = await fs.readFile(configPath, 'utf-8');
-    const config = JSON.parse(content) as Config;
+/**
+ * Bring a parsed config up to the current schema version
+ * @param raw - Parsed config.json
+ * @returns The migrated config, still to be validated
+ * @throws Error if the config has no version or was written by a newer release
+ */
+export function migrateConfig(raw: Record<string, unknown>): Record<string, unknown> {
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error('Invalid config at "version": must be a positive integer');
+  }
+  if (raw.version > CONFIG_VERSION) {
+    throw new Error(
+      `${inCommonDir(CONFIG_PATH)} is version ${raw.version}, newer than this sync-skills supports (${CONFIG_VERSION}). ` +
+      'Upgrade sync-skills; the file was left unchanged'
+    );
+  }
 
-    // Validate structure
-    if (typeof config.version !== 'number') {
-      console.warn('Invalid config: version must be a number');
-      return null;
-    }
+  let config = raw;
+  while ((config.version as number) < CONFIG_VERSION) {
+    config = MIGRATIONS[config.version as number](config);
+  }
+  return config;
+}
 
-    if (config.version !== 1) {
-      console.warn(`Invalid config: unsupported version ${config.version} (expected 1)`);
-      return null;
+/**
+ * Check a config against the schema of its version
+ * @returns Why it's invalid, starting with the offending key, or null if it's valid
+ */
+function validateConfig(config: Config): string | null {
+  if (typeof config.version !== 'number' || config.version < 1 || config.version > CONFIG_VERSION) {
+    return `"version": unsupported version ${config.version} (expected 1 to ${CONFIG_VERSION})`;
+  }
+
+  if (!Array.isArray(config.assistants)) {
+    return '"assistants": must be an array';
+  }
+  if (config.assistants.length === 0) {
+    return '"assistants": cannot be empty';
+  }
+  for (const [index, assistant] of config.assistants.entries()) {
+    if (typeof assistant !== 'string' || assistant.trim() === '') {
+      return `"assistants[${index}]": assistant name must be a non-empty string`;
     }
+  }
 
-    if (!Array.isArray(config.assistants)) {
-      console.warn('Invalid config: assistants must be an array');
-      return null;
+  if (config.mergeTool !== undefined && typeof config.mergeTool !== 'string') {
+    return '"mergeTool": must be a string';
+  }
+
+  return validateCustomAssistants(config) ?? validatePathOverrides(config) ?? validateTargets(config);
+}
+
+/**
+ * Check a skills path of a config
+ */
+function isRelativeProjectPath(path: unknown): boolean {
+  return typeof path === 'string' && path.trim() !== '' && !path.startsWith('/') && !path.split('/').includes('..');
+}
+
+/**
+ * Check the customAssistants section of a config
+ * @returns Why it's invalid, starting with the offending key, or null if it's valid
+ */
+function validateCustomAssistants(config: Config): string | null {
+  const { customAssistants } = config;
+  if (customAssistants === undefined) {
+    return null;
+  }
+  if (config.version < 2) {
+    return '"customAssistants": requires version 2';
+  }
+  if (!Array.isArray(customAssistants)) {
+    return '"customAssistants": must be an array';
+  }
+
+  const names = new Set<string>();
+  for (const [index, assistant] of customAssistants.entries()) {
+    const key = `customAssistants[${index}]`;
+    if (!assistant || typeof assistant !== 'object') {
+      return `"${key}": must be an object`;
+    }
+    if (typeof assistant.name !== 'string' || !/^[\w-]+$/.test(assistant.name)) {
+      return `"${key}.name": must be letters, numbers, hyphens or underscores`;
+    }
+    if (assistant.name in ASSISTANT_MAP) {
+      return `"${key}.name": "${assistant.name}" is already built in`;
+    }
+    if (names.has(assistant.name)) {
+      return `"${key}.name": "${assistant.name}" is declared twice`;
     }
+    names.add(assistant.name);
+    for (const field of ['project', 'home', 'detect'] as const) {
+      const path = assistant[field];
+      if (path === undefined && field !== 'project') {
+        continue;
+      }
+      if (!isRelativeProjectPath(path)) {
+        return `"${key}.${field}": must be a relative path inside the project`;
+      }
+    }
+  }
+  return null;
+}
 
-    if (config.assistants.length === 0) {
-      console.warn('Invalid config: assistants array cannot be empty');
-      return null;
+/**
+ * Check the paths section of a config
+ * @returns Why it's invalid, starting with the offending key, or null if it's valid
+ */
+function validatePathOverrides(config: Config): string | null {
+  const { paths } = config;
+  if (paths === undefined) {
+    return null;
+  }
+  if (config.version < 3) {
+    return '"paths": requires version 3';
+  }
+  if (!paths || typeof paths !== 'object' || Array.isArray(paths)) {
+    return '"paths": must be an object';
+  }
+
+  const customNames = (config.customAssistants ?? []).map(assistant => assistant.name);
+  for (const [name, override] of Object.entries(paths)) {
+    const key = `paths.${name}`;
+    if (!(name in ASSISTANT_MAP) && !customNames.includes(name)) {
+      return `"${key}": unknown assistant "${name}"`;
+    }
+    if (!override || typeof override !== 'object' || Array.isArray(override)) {
+      return `"${key}": must be an object`;
+    }
+    const fields = Object.keys(override);
+    const unknown = fields.find(field => field !== 'project' && field !== 'home');
+    if (unknown) {
+      return `"${key}.${unknown}": only project and home can be overridden`;
+    }
+    for (const field of fields as Array<keyof AssistantPathOverride>) {
+      if (!isRelativeProjectPath(override[field])) {
+        return `"${key}.${field}": must be a relative path inside the project`;
+      }
     }
+  }
+  return null;
+}
+
+/**
+ * Check the targets section of a config
+ * @returns Why it's invalid, starting with the offending key, or null if it's valid
+ */
+function validateTargets(config: Config): string | null {
+  const { targets } = config;
+  if (targets === undefined) {
+    return null;
+  }
+  if (config.version < 4) {
+    return '"targets": requires version 4';
+  }
+  if (!targets || typeof targets !== 'object' || Array.isArray(targets)) {
+    return '"targets": must be an object';
+  }
 
-    for (const assistant of config.assistants) {
-      if (typeof assistant !== 'string' || assistant.trim() === '') {
-        console.warn(`Invalid config: assistant name must be a non-empty string`);
-        return null;
+  const customNames = (config.customAssistants ?? []).map(assistant => assistant.name);
+  for (const [glob, rule] of Object.entries(targets)) {
+    const key = `targets.${glob}`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      return `"${key}": must be an object`;
+    }
+    const fields = Object.keys(rule);
+    const unknown = fields.find(field => field !== 'assistants' && field !== 'exclude');
+    if (unknown) {
+      return `"${key}.${unknown}": only assistants and exclude can be set`;
+    }
+    for (const field of fields as Array<keyof SkillTargets>) {
+      const names = rule[field];
+      if (!Array.isArray(names)) {
+        return `"${key}.${field}": must be an array`;
+      }
+      for (const [index, name] of names.entries()) {
+        if (typeof name !== 'string' || (!(name in ASSISTANT_MAP) && !customNames.includes(name))) {
+          return `"${key}.${field}[${index}]": unknown assistant "${name}"`;
+        }
       }
     }
+  }
+  return null;
+}
 
-    return config;
+/**
+ * Read the config file as it is on disk
+ * @returns The parsed file, or null if it doesn't exist
+ * @throws Error if the file isn't a JSON object
+ */
+async function loadRawConfig(baseDir: string): Promise<Record<string, unknown> | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(join(baseDir, inCommonDir(CONFIG_PATH)), 'utf-8');
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      // File doesn't exist
       return null;
     }
+    throw error;
+  }
 
-    // JSON parse error or other
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`Config file is corrupted: ${errorMessage}, will recreate`);
-    return null;
+    throw new Error(`${inCommonDir(CONFIG_PATH)} is not valid JSON: ${errorMessage}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${inCommonDir(CONFIG_PATH)} must contain a JSON object`);
   }
+  return raw as Record<string, unknown>;
+}
+
+/**
+ * Migrate a parsed config file and validate the result
+ * @throws Error if it's invalid or from a newer release
+ */
+function parseConfig(raw: Record<string, unknown>): Config {
+  const config = migrateConfig(raw) as unknown as Config;
+  const error = validateConfig(config);
+  if (error) {
+    throw new Error(`Invalid config at ${error}`);
+  }
+  return config;
+}
+
+/**
+ * Custom assistants and path overrides in the config, without reporting problems (readConfig does)
+ * @param baseDir - Base directory to read from
+ * @returns The settings, or none if the config is missing or invalid
+ */
+export async function readAssistantSettings(baseDir: string): Promise<AssistantSettings> {
+  let config: Config | null = null;
+  try {
+    config = await readConfig(baseDir);
+  } catch {
+    // Reported by readConfig when the run needs the config
+  }
+  return { customAssistants: config?.customAssistants ?? [], paths: config?.paths ?? {} };
+}
+
+/**
+ * Custom assistants declared in the config, without reporting problems (readConfig does)
+ * @param baseDir - Base directory to read from
+ * @returns The assistants, or none if the config is missing or invalid
+ */
+export async function readCustomAssistants(baseDir: string): Promise<CustomAssistant[]> {
+  return (await readAssistantSettings(baseDir)).customAssistants;
+}
+
+/**
+ * Put the custom assistants and path overrides of a config in effect
+ * @returns Function restoring the previous ones
+ */
+export function useAssistantSettings(settings: Partial<AssistantSettings>): () => void {
+  const restoreAssistants = useCustomAssistants(settings.customAssistants ?? []);
+  const restorePaths = usePathOverrides(settings.paths ?? {});
+  return () => {
+    restorePaths();
+    restoreAssistants();
+  };
+}
+
+/**
+ * Read configuration file, migrated to the current schema version
+ *
+ * Only a missing file counts as no configuration: an invalid one, or one written
+ * by a newer release, is reported instead of being prompted for and overwritten.
+ * @param baseDir - Base directory to read from
+ * @returns Config object or null if file doesn't exist
+ * @throws Error if the file is invalid or from a newer release
+ */
+export async function readConfig(baseDir: string): Promise<Config | null> {
+  const raw = await loadRawConfig(baseDir);
+  return raw ? parseConfig(raw) : null;
 }
 
 /**
@@ -77,32 +338,21 @@ export async function readConfig(baseDir: string): Promise<Config | null> {
  * @throws Error if validation fails
  */
 export async function writeConfig(baseDir: string, config: Config): Promise<void> {
-  // Validate version
-  if (config.version !== 1) {
-    throw new Error(`Invalid config: unsupported version ${config.version} (expected 1)`);
-  }
-
-  // Validate assistants array
-  if (!Array.isArray(config.assistants)) {
-    throw new Error('Invalid config: assistants must be an array');
+  const error = validateConfig(config);
+  if (error) {
+    throw new Error(`Invalid config at ${error}`);
   }
 
-  if (config.assistants.length === 0) {
-    throw new Error('Invalid config: assistants array cannot be empty');
-  }
-
-  // Validate each assistant name exists in ASSISTANT_MAP
-  for (const assistant of config.assistants) {
-    if (typeof assistant !== 'string' || assistant.trim() === '') {
-      throw new Error('Invalid config: assistant name must be a non-empty string');
-    }
-    if (!(assistant in ASSISTANT_MAP)) {
-      throw new Error(`Invalid config: unknown assistant "${assistant}"`);
+  // Validate each assistant name exists in ASSISTANT_MAP or customAssistants
+  const customNames = (config.customAssistants ?? []).map(assistant => assistant.name);
+  for (const [index, assistant] of config.assistants.entries()) {
+    if (!(assistant in ASSISTANT_MAP) && !customNames.includes(assistant)) {
+      throw new Error(`Invalid config at "assistants[${index}]": unknown assistant "${assistant}"`);
     }
   }
 
-  const configPath = join(baseDir, CONFIG_PATH);
-  const configDir = join(baseDir, dirname(CONFIG_PATH));
+  const configPath = join(baseDir, inCommonDir(CONFIG_PATH));
+  const configDir = join(baseDir, dirname(inCommonDir(CONFIG_PATH)));
 
   // Ensure .agents-common directory exists
   await fs.mkdir(configDir, { recursive: true });
@@ -111,6 +361,24 @@ export async function writeConfig(baseDir: string, config: Config): Promise<void
   await fs.writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8');
 }
 
+/**
+ * Migrate the config file to the current schema version
+ * @param baseDir - Base directory of the config
+ * @returns Version the file was at, or null if there is no config
+ * @throws Error if the file is invalid or from a newer release
+ */
+export async function migrateConfigFile(baseDir: string): Promise<number | null> {
+  const raw = await loadRawConfig(baseDir);
+  if (!raw) {
+    return null;
+  }
+  const config = parseConfig(raw);
+  if (raw.version !== CONFIG_VERSION) {
+    await writeConfig(baseDir, config);
+  }
+  return raw.version as number;
+}
+
 /**
  * Detect which assistant folders exist in the directory
  * @param baseDir - Base directory to scan
@@ -119,18 +387,12 @@ export async function writeConfig(baseDir: string, config: Config): Promise<void
 export async function detectAvailableAssistants(baseDir: string): Promise<string[]> {
   const available: string[] = [];
 
-  for (const [name, config] of Object.entries(ASSISTANT_MAP)) {
-    // Handle both string and AssistantPathConfig types
-    let skillsPath: string;
-    if (typeof config === 'string') {
-      skillsPath = config;
-    } else {
-      // For assistants with dual paths, check the project path
-      skillsPath = config.project;
+  for (const name of Object.keys(getAssistantMap())) {
+    // The first segment of the project path, unless a custom assistant or path override names its own folder
+    const folder = getDetectionFolder(name);
+    if (!folder) {
+      continue;
     }
-
-    // Extract the folder name (first path segment before /)
-    const folder = skillsPath.split('/')[0];
     const dir = join(baseDir, folder);
     try {
       await fs.access(dir);
@@ -155,7 +417,7 @@ export async function reconfigure(baseDir: string): Promise<void> {
   const detected = await detectAvailableAssistants(baseDir);
 
   // Build choices for all available assistants
-  const choices = Object.keys(ASSISTANT_MAP).map(name => ({
+  const choices = Object.keys(getAssistantMap()).map(name => ({
     name: name,
     checked: detected.includes(name)
   }));
@@ -164,7 +426,7 @@ export async function reconfigure(baseDir: string): Promise<void> {
 
   try {
     // Interactive checkbox prompt
-    const answer = await inquirer.prompt([{
+    const answer = await prompter.prompt([{
       type: 'checkbox',
       name: 'assistants',
       message: 'Select assistants to sync:',
@@ -181,18 +443,19 @@ export async function reconfigure(baseDir: string): Promise<void> {
   }
 
   try {
-    // Write new config
+    // Write new config, keeping other settings
+    const existing = await readConfig(baseDir);
     await writeConfig(baseDir, {
-      version: 1,
+      ...existing,
+      version: CONFIG_VERSION,
       assistants: selected
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`Failed to write configuration: ${errorMessage}`);
-    process.exit(1);
+    throw new Error(`Failed to write configuration: ${errorMessage}`);
   }
 
-  console.log(`Configured assistants: ${selected.join(', ')}`);
+  logger.log(`Configured assistants: ${selected.join(', ')}`);
 }
 
 /**
@@ -212,18 +475,18 @@ export async function ensureConfig(baseDir: string): Promise<Config> {
 
   if (detected.length === 0) {
     // No folders exist - prompt user to select
-    console.log('No assistant folders found.');
+    logger.log('No assistant folders found.');
   }
 
   let selected: string[];
 
-  const choices = Object.keys(ASSISTANT_MAP).map(name => ({
+  const choices = Object.keys(getAssistantMap()).map(name => ({
     name: name,
     checked: detected.includes(name)
   }));
 
   try {
-    const answer = await inquirer.prompt([{
+    const answer = await prompter.prompt([{
       type: 'checkbox',
       name: 'assistants',
       message: 'Select assistants to set up:',
@@ -240,14 +503,13 @@ export async function ensureConfig(baseDir: string): Promise<Config> {
   }
 
   // Create and save config
-  const config: Config = { version: 1, assistants: selected };
+  const config: Config = { version: CONFIG_VERSION, assistants: selected };
 
   try {
     await writeConfig(baseDir, config);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error(`Failed to write configuration: ${errorMessage}`);
-    process.exit(1);
+    throw new Error(`Failed to write configuration: ${errorMessage}`);
   }
 
   return config;
@@ -260,5 +522,10 @@ export async function ensureConfig(baseDir: string): Promise<Config> {
  * @returns Array of AssistantConfig for enabled assistants
  */
 export function getEnabledAssistants(config: Config, homeMode: boolean = false): ReturnType<typeof getAssistantConfigs> {
-  return getAssistantConfigs(config.assistants, homeMode);
+  const restore = useAssistantSettings(config);
+  try {
+    return getAssistantConfigs(config.assistants, homeMode);
+  } finally {
+    restore();
+  }
 }
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Value replaced for the whole process, or only within the current call scope
+ */
+export interface Setting<T> {
+  /** Value in effect for the current call scope */
+  get(): T;
+  /**
+   * Replace the value for the current call scope (the whole process outside one)
+   * @returns Function restoring the previous value
+   */
+  use(value: T): () => void;
+}
+
+const scopes = new AsyncLocalStorage<Map<Setting<unknown>, unknown>>();
+
+/**
+ * Create a setting that calls can replace without affecting each other
+ * @param initial - Value in effect until replaced
+ */
+export function createSetting<T>(initial: T): Setting<T> {
+  let processValue = initial;
+  const setting: Setting<T> = {
+    get() {
+      const scope = scopes.getStore();
+      return scope?.has(setting) ? scope.get(setting) as T : processValue;
+    },
+    use(value) {
+      const scope = scopes.getStore();
+      if (!scope) {
+        const previous = processValue;
+        processValue = value;
+        return () => {
+          processValue = previous;
+        };
+      }
+      const replaced = scope.has(setting);
+      const previous = scope.get(setting);
+      scope.set(setting, value);
+      return () => {
+        if (replaced) {
+          scope.set(setting, previous);
+        } else {
+          scope.delete(setting);
+        }
+      };
+    }
+  };
+  return setting;
+}
+
+/**
+ * Run an operation in its own call scope
+ *
+ * The operation starts with the settings in effect for the caller. Settings
+ * it replaces stay within the operation and everything it awaits, so calls
+ * running meanwhile keep their own prompt, logger, file system and paths.
+ * @param operation - Operation to run
+ * @returns Result of the operation
+ */
+export function withScope<T>(operation: () => Promise<T>): Promise<T> {
+  return scopes.run(new Map(scopes.getStore()), operation);
+}
@@ -0,0 +1,281 @@
+import { fs } from './io.js';
+import { dirname, join } from 'path';
+import matter from 'gray-matter';
+import { scanSkills } from './scanner.js';
+import { parseSkillFile } from './parser.js';
+import { loadSyncBase } from './merge.js';
+import { SYNC_METADATA_VERSION } from './syncer.js';
+import { logStrategyResolution, strategyAbortError } from './strategy.js';
+import { commonSkillsDir } from './common.js';
+import type { SyncState } from './state.js';
+import type {
+  AssistantConfig,
+  Deletion,
+  DeletionResolution,
+  DependentFile,
+  ResolutionStrategy,
+  SyncBase
+} from './types.js';
+
+function getSyncMetadata(data: Record<string, unknown>): Record<string, unknown> | undefined {
+  const metadata =
+    data?.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? data.metadata as Record<string, unknown>
+      : undefined;
+  return metadata?.sync && typeof metadata.sync === 'object' && !Array.isArray(metadata.sync)
+    ? metadata.sync as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Dependent files included in a common skill's hash by the last sync
+ * @param commonPath - Common SKILL.md
+ * @returns Paths relative to the skill folder (`metadata.sync.files`), or null if the skill is
+ *   missing or doesn't track its files yet
+ */
+export async function readTrackedFiles(commonPath: string): Promise<string[] | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(commonPath, 'utf8');
+  } catch {
+    return null;
+  }
+  const files = getSyncMetadata(matter(content).data)?.files;
+  return Array.isArray(files) ? files.filter((file): file is string => typeof file === 'string') : null;
+}
+
+/**
+ * Find skills deleted from common or from a platform since the last sync
+ *
+ * A skill was deleted from common when platform copies still reference a common
+ * skill that no longer exists. It was deleted from a platform when the last sync
+ * recorded it there but it's gone while common still has it; assistants whose
+ * skills folder is missing altogether are left out.
+ * @param baseDir - Base directory of the sync
+ * @param configs - Enabled assistants
+ * @param state - State recorded by the last sync, if any
+ * @param skillNames - Only look at these skills (default: every skill)
+ * @returns Deleted skills, sorted by name
+ */
+export async function detectDeletedSkills(
+  baseDir: string,
+  configs: AssistantConfig[],
+  state: SyncState | null,
+  skillNames?: Set<string>
+): Promise<Deletion[]> {
+  const { platforms, common } = await scanSkills(baseDir, configs);
+  const included = (skillName: string) => !skillNames || skillNames.has(skillName);
+  const commonNames = new Set(common.map(skill => skill.skillName));
+  const deletions = new Map<string, Deletion>();
+
+  // Deleted from common: platform references point at nothing
+  for (const config of configs) {
+    for (const skill of platforms[config.name] || []) {
+      if (commonNames.has(skill.skillName) || !included(skill.skillName)) {
+        continue;
+      }
+      const parsed = parseSkillFile(await fs.readFile(skill.path, 'utf8'));
+      if (!parsed?.hasAtReference) {
+        // Inline skills are moved to common by the sync
+        continue;
+      }
+      const deletion = deletions.get(skill.skillName) ?? {
+        skillName: skill.skillName,
+        path: join(baseDir, commonSkillsDir(), skill.skillName),
+        deletedFrom: ['common'],
+        remaining: [],
+        restorable: false
+      };
+      deletion.remaining.push({ platform: config.name, path: dirname(skill.path) });
+      deletions.set(skill.skillName, deletion);
+    }
+  }
+  for (const deletion of deletions.values()) {
+    deletion.restorable = (await findSyncBase(baseDir, deletion)) !== null;
+  }
+
+  // Deleted from a platform: recorded by the last sync, gone now
+  if (state) {
+    const presentDirs = new Set<string>();
+    for (const config of configs) {
+      try {
+        await fs.access(join(baseDir, config.skillsDir));
+        presentDirs.add(config.skillsDir);
+      } catch {
+        // Assistant folder removed, not a deletion of its skills
+      }
+    }
+
+    for (const skill of common) {
+      const recorded = state.skills[skill.skillName];
+      if (!recorded || !included(skill.skillName)) {
+        continue;
+      }
+      const holders = configs.filter(config =>
+        (platforms[config.name] || []).some(platformSkill => platformSkill.skillName === skill.skillName)
+      );
+      const deletedFrom = configs.filter(config =>
+        presentDirs.has(config.skillsDir) &&
+        recorded[`${config.skillsDir}/${skill.skillName}/SKILL.md`] &&
+        !holders.includes(config)
+      );
+      if (deletedFrom.length === 0) {
+        continue;
+      }
+      deletions.set(skill.skillName, {
+        skillName: skill.skillName,
+        path: join(baseDir, deletedFrom[0].skillsDir, skill.skillName),
+        deletedFrom: deletedFrom.map(config => config.name),
+        remaining: [
+          { platform: 'common', path: dirname(skill.path) },
+          ...holders.map(config => ({ platform: config.name, path: join(baseDir, config.skillsDir, skill.skillName) }))
+        ],
+        restorable: true
+      });
+    }
+  }
+
+  return [...deletions.values()].sort((a, b) => a.skillName.localeCompare(b.skillName));
+}
+
+/**
+ * Find dependent files deleted from common since the last sync that platform folders still hold
+ *
+ * Without this, the leftover platform copies would be consolidated back into common.
+ * @param skillName - Name of the skill
+ * @param commonSkillPath - Common skill folder
+ * @param trackedFiles - Files included in the common skill's hash by the last sync
+ * @param platformFiles - Dependent files in each platform folder
+ */
+export async function detectDeletedDependents(
+  skillName: string,
+  commonSkillPath: string,
+  trackedFiles: string[],
+  platformFiles: Map<string, DependentFile[]>
+): Promise<Deletion[]> {
+  const deletions: Deletion[] = [];
+  for (const relativePath of trackedFiles) {
+    const remaining = [...platformFiles.entries()].flatMap(([platform, files]) =>
+      files.filter(file => file.relativePath === relativePath).map(file => ({ platform, path: file.absolutePath }))
+    );
+    if (remaining.length === 0) {
+      continue;
+    }
+    const commonFilePath = join(commonSkillPath, relativePath);
+    try {
+      await fs.access(commonFilePath);
+      continue;
+    } catch {
+      // Deleted from common
+    }
+    deletions.push({ skillName, relativePath, path: commonFilePath, deletedFrom: ['common'], remaining, restorable: true });
+  }
+  return deletions;
+}
+
+/**
+ * Resolve a deletion from a strategy
+ *
+ * 'common' keeps the common side and 'platform' the platform side: the side the
+ * skill or file is still on is deleted or restored to match. 'newest' propagates
+ * the deletion, the latest change since the last sync.
+ * @param deletion - Deleted skill or dependent file
+ * @param strategy - Strategy to apply
+ * @returns Resolution action
+ * @throws Error for the abort strategy
+ */
+export function resolveDeletionByStrategy(deletion: Deletion, strategy: ResolutionStrategy): DeletionResolution {
+  const subject = deletion.relativePath ? `${deletion.skillName}/${deletion.relativePath}` : deletion.skillName;
+
+  if (strategy === 'abort') {
+    throw strategyAbortError('deletion', subject);
+  }
+
+  const deletedFromCommon = deletion.deletedFrom.includes('common');
+  if (strategy === 'newest' || (strategy === 'common') === deletedFromCommon) {
+    logStrategyResolution('deletion', subject, strategy, `deleted from ${formatSites(deletion.remaining)}`);
+    return { action: 'delete' };
+  }
+  if (!deletion.restorable) {
+    logStrategyResolution('deletion', subject, strategy, 'nothing to restore, left unchanged');
+    return { action: 'keep' };
+  }
+  logStrategyResolution('deletion', subject, strategy, `restored in ${deletion.deletedFrom.join(', ')}`);
+  return { action: 'restore' };
+}
+
+/**
+ * Apply the resolution of a deleted skill
+ *
+ * 'delete' removes every remaining copy of the skill. 'restore' rewrites a common
+ * skill from its last synced version; a skill deleted from a platform needs nothing
+ * here, since the sync links common skills into every platform missing them.
+ * @param baseDir - Base directory of the sync
+ * @param deletion - Deleted skill
+ * @param resolution - Resolution chosen for it
+ */
+export async function applySkillDeletion(
+  baseDir: string,
+  deletion: Deletion,
+  resolution: DeletionResolution
+): Promise<void> {
+  if (resolution.action === 'delete') {
+    for (const copy of deletion.remaining) {
+      await removeDirectory(copy.path);
+    }
+  } else if (resolution.action === 'restore' && deletion.deletedFrom.includes('common')) {
+    const base = await findSyncBase(baseDir, deletion);
+    if (!base) {
+      return;
+    }
+    const frontmatter = {
+      ...base.frontmatter,
+      metadata: {
+        ...(base.frontmatter.metadata as Record<string, unknown> || {}),
+        sync: { version: SYNC_METADATA_VERSION, hash: base.hash, ...base.targets }
+      }
+    };
+    await fs.mkdir(deletion.path, { recursive: true });
+    await fs.writeFile(join(deletion.path, 'SKILL.md'), matter.stringify(base.body, frontmatter));
+  }
+}
+
+/**
+ * Names of the sites holding copies, for messages
+ */
+export function formatSites(copies: Deletion['remaining']): string {
+  return [...new Set(copies.map(copy => copy.platform))].join(', ');
+}
+
+/**
+ * Last synced version of a skill deleted from common, found from the hash its platform copies were synced from
+ */
+async function findSyncBase(baseDir: string, deletion: Deletion): Promise<SyncBase | null> {
+  for (const copy of deletion.remaining) {
+    try {
+      const hash = getSyncMetadata(matter(await fs.readFile(join(copy.path, 'SKILL.md'), 'utf8')).data)?.hash;
+      const base = typeof hash === 'string' ? await loadSyncBase(baseDir, deletion.skillName, hash) : null;
+      if (base) {
+        return base;
+      }
+    } catch {
+      // Unreadable copy, try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove a folder and everything in it
+ */
+export async function removeDirectory(dirPath: string): Promise<void> {
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      await removeDirectory(entryPath);
+    } else {
+      await fs.unlink(entryPath);
+    }
+  }
+  await fs.rmdir(dirPath);
+}
@@ -1,10 +1,14 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
+import { logger } from './ui.js';
 import { join } from 'path';
 import { createHash } from 'crypto';
+import { findNewest, logStrategyResolution, strategyAbortError } from './strategy.js';
+import { runJob } from './concurrency.js';
 import type {
   DependentFile,
   DependentConflict,
-  DependentConflictResolution
+  DependentConflictResolution,
+  ResolutionStrategy
 } from './types.js';
 
 // Directories to ignore when scanning for dependent files
@@ -20,22 +24,68 @@ const IGNORED_DIRECTORIES = new Set([
   '.DS_Store'
 ]);
 
+/** Bytes inspected when deciding whether a file is binary (as git does) */
+const BINARY_SNIFF_LENGTH = 8000;
+
 /**
- * Compute sha256 hash of a file's content
+ * Compute sha256 hash of a file's raw bytes, streaming it so large files aren't held in memory
  * @param filePath - Absolute path to the file
  * @returns Hash in format "sha256-{hex}"
  */
 export async function computeFileHash(filePath: string): Promise<string> {
   try {
-    const content = await fs.readFile(filePath, 'utf8');
-    const hash = createHash('sha256').update(content).digest('hex');
-    return `sha256-${hash}`;
+    const hash = createHash('sha256');
+    for await (const chunk of fs.readStream(filePath)) {
+      hash.update(chunk);
+    }
+    return `sha256-${hash.digest('hex')}`;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     throw new Error(`Failed to compute hash for ${filePath}: ${errorMessage}`);
   }
 }
 
+/**
+ * Compute sha256 hash of file content already in memory
+ * @param content - File content (strings are hashed as utf8)
+ * @returns Hash in format "sha256-{hex}", identical to computeFileHash for the same file
+ */
+export function computeContentHash(content: string | Buffer): string {
+  const hash = createHash('sha256').update(content).digest('hex');
+  return `sha256-${hash}`;
+}
+
+/**
+ * Compute a hash the way versions before sync metadata version 3 did, from the content decoded as utf8
+ *
+ * Identical to computeContentHash for text; binary content decodes lossily, so its legacy hash differs.
+ * @param content - Raw file content
+ */
+export function computeLegacyContentHash(content: Buffer): string {
+  return computeContentHash(content.toString('utf8'));
+}
+
+/**
+ * Check a file against a stored hash, accepting hashes stored before binary-safe hashing
+ * @param filePath - Absolute path to the file
+ * @param storedHash - Hash recorded earlier (e.g. in a plan or run history)
+ * @throws If the file can't be read
+ */
+export async function fileMatchesHash(filePath: string, storedHash: string): Promise<boolean> {
+  if (hashMatches(await computeFileHash(filePath), storedHash)) {
+    return true;
+  }
+  return hashMatches(computeLegacyContentHash(await fs.readFile(filePath)), storedHash);
+}
+
+/**
+ * Check whether content is binary: a NUL byte within the first 8000 bytes, as git decides
+ * @param content - Raw file content
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
 /**
  * Check if two hashes match
  * @param a - First hash
@@ -65,51 +115,58 @@ export function hashChanged(currentHash: string, storedHash: string | undefined)
  * @returns Array of dependent files with metadata
  */
 export async function detectDependentFiles(skillPath: string): Promise<DependentFile[]> {
-  const dependents: DependentFile[] = [];
+  // Files are hashed concurrently, sharing the jobs limit; warnings are collected and logged in directory order
+  type ScanResult = { dependent: DependentFile } | { warning: string };
 
-  async function scanDir(dirPath: string, relativeBase: string): Promise<void> {
+  async function scanDir(dirPath: string, relativeBase: string): Promise<ScanResult[]> {
+    let entries;
     try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      entries = await runJob(() => fs.readdir(dirPath, { withFileTypes: true }));
+    } catch (error) {
+      // Directory doesn't exist or isn't accessible - silently skip
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return [{ warning: `Warning: Could not scan directory ${dirPath}: ${errorMessage}` }];
+    }
 
-      for (const entry of entries) {
-        // Skip SKILL.md
-        if (entry.name === 'SKILL.md') {
-          continue;
-        }
+    const results = await Promise.all(entries.map(async (entry): Promise<ScanResult[]> => {
+      // Skip SKILL.md
+      if (entry.name === 'SKILL.md') {
+        return [];
+      }
 
-        // Skip ignored directories
-        if (entry.isDirectory() && IGNORED_DIRECTORIES.has(entry.name)) {
-          continue;
-        }
+      // Skip ignored directories
+      if (entry.isDirectory() && IGNORED_DIRECTORIES.has(entry.name)) {
+        return [];
+      }
 
-        const fullPath = join(dirPath, entry.name);
-        const relativePath = join(relativeBase, entry.name);
-
-        if (entry.isDirectory()) {
-          await scanDir(fullPath, relativePath);
-        } else if (entry.isFile()) {
-          try {
-            const hash = await computeFileHash(fullPath);
-            dependents.push({
-              relativePath,
-              absolutePath: fullPath,
-              hash
-            });
-          } catch {
-            // Skip files that can't be read or hashed
-            // Log warning but continue processing other files
-            console.warn(`Warning: Skipping file ${relativePath} - could not read or hash`);
-          }
+      const fullPath = join(dirPath, entry.name);
+      const relativePath = join(relativeBase, entry.name);
+
+      if (entry.isDirectory()) {
+        return scanDir(fullPath, relativePath);
+      } else if (entry.isFile()) {
+        try {
+          const hash = await runJob(() => computeFileHash(fullPath));
+          return [{ dependent: { relativePath, absolutePath: fullPath, hash } }];
+        } catch {
+          // Skip files that can't be read or hashed
+          // Log warning but continue processing other files
+          return [{ warning: `Warning: Skipping file ${relativePath} - could not read or hash` }];
         }
       }
-    } catch (error) {
-      // Directory doesn't exist or isn't accessible - silently skip
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Could not scan directory ${dirPath}: ${errorMessage}`);
-    }
+      return [];
+    }));
+    return results.flat();
   }
 
-  await scanDir(skillPath, '');
+  const dependents: DependentFile[] = [];
+  for (const result of await scanDir(skillPath, '')) {
+    if ('warning' in result) {
+      logger.warn(result.warning);
+    } else {
+      dependents.push(result.dependent);
+    }
+  }
   return dependents;
 }
 
@@ -338,7 +395,12 @@ async function selectFileVersion(
       platformPath: versions[0].file.absolutePath,
       platformHash: versions[0].file.hash,
       commonPath: commonExists ? commonFilePath : undefined,
-      commonHash
+      commonHash,
+      otherVersions: versions.slice(1).map(version => ({
+        platform: version.platform,
+        path: version.file.absolutePath,
+        hash: version.file.hash
+      }))
     }
   };
 }
@@ -369,7 +431,7 @@ export async function cleanupPlatformDependentFiles(
     } catch (error) {
       // File doesn't exist or can't be deleted - log warning and continue
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Could not delete ${filePath}: ${errorMessage}`);
+      logger.warn(`Warning: Could not delete ${filePath}: ${errorMessage}`);
     } finally {
       seenPaths.add(filePath);
     }
@@ -379,6 +441,56 @@ export async function cleanupPlatformDependentFiles(
   await removeEmptyDirectories(skillPath);
 }
 
+/**
+ * Resolve a dependent file conflict from a strategy
+ *
+ * 'platform' keeps the first enabled assistant's version and 'newest' the most
+ * recently modified one, common included. 'common' leaves the files unchanged when
+ * there is no common version to keep.
+ * @param conflict - The dependent file conflict to resolve
+ * @param strategy - Strategy to apply
+ * @returns Resolution action
+ * @throws Error for the abort strategy
+ */
+export async function resolveDependentConflictByStrategy(
+  conflict: DependentConflict,
+  strategy: ResolutionStrategy
+): Promise<DependentConflictResolution> {
+  const subject = `${conflict.skillName}/${conflict.relativePath}`;
+
+  if (strategy === 'abort') {
+    throw strategyAbortError('dependent', subject);
+  }
+
+  if (strategy === 'common') {
+    if (!conflict.commonPath) {
+      logStrategyResolution('dependent', subject, strategy, 'no common version, left unchanged');
+      return { action: 'skip' };
+    }
+    logStrategyResolution('dependent', subject, strategy, 'kept common version');
+    return { action: 'use-common' };
+  }
+
+  const candidates = [
+    { platform: conflict.platform, path: conflict.platformPath },
+    ...(conflict.otherVersions ?? [])
+  ];
+
+  if (strategy === 'newest') {
+    const paths = candidates.map(candidate => candidate.path);
+    const newest = await findNewest(conflict.commonPath ? [...paths, conflict.commonPath] : paths);
+    if (newest === candidates.length) {
+      logStrategyResolution('dependent', subject, strategy, 'kept common version');
+      return { action: 'use-common' };
+    }
+    logStrategyResolution('dependent', subject, strategy, `kept ${candidates[newest].platform} version`);
+    return { action: 'use-platform', sourcePath: candidates[newest].path };
+  }
+
+  logStrategyResolution('dependent', subject, strategy, `kept ${conflict.platform} version`);
+  return { action: 'use-platform', sourcePath: conflict.platformPath };
+}
+
 /**
  * Apply conflict resolutions for dependent files
  * @param conflicts - Array of conflicts to resolve
@@ -417,7 +529,7 @@ export async function applyConflictResolutions(
     } else if (resolution.action === 'use-platform') {
       // Copy platform version to common
       await fs.mkdir(join(commonFilePath, '..'), { recursive: true });
-      await fs.copyFile(conflict.platformPath, commonFilePath);
+      await fs.copyFile(resolution.sourcePath ?? conflict.platformPath, commonFilePath);
 
       resolvedFiles.push(conflict.relativePath);
     }
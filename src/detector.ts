@@ -1,19 +1,26 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
+import { logger } from './ui.js';
 import { createHash } from 'crypto';
+import { dirname, resolve } from 'path';
 import matter from 'gray-matter';
 import { diffLines } from 'diff';
 import chalk from 'chalk';
 import { pickCoreFrontmatter } from './frontmatter.js';
 import { getRelativeCommonSkillPath } from './references.js';
-import type { Conflict, SkillFile, OutOfSyncSkill, SyncMismatchType } from './types.js';
+import type { Conflict, ConflictVariant, SkillFile, OutOfSyncSkill, SyncMismatchType } from './types.js';
 
 /**
  * Normalize frontmatter by keeping only CORE_FIELDS for conflict detection
  * This ensures platform-specific fields like `model` don't cause false conflicts
+ * @param filePath - Path of the file, to compare @ references by the file they point at
  */
-function normalizeFrontmatter(content: string): string {
+function normalizeFrontmatter(content: string, filePath: string): string {
   const parsed = matter(content);
-  const normalizedContent = parsed.content.trim();
+  const reference = extractReference(parsed.content);
+  // Skills folders at different depths reach the same common skill through different relative paths
+  const normalizedContent = reference === null
+    ? parsed.content.trim()
+    : `@${resolveReference(filePath, reference)}`;
 
   // Keep only core frontmatter fields for conflict comparison
   const coreData = pickCoreFrontmatter(parsed.data as Record<string, unknown>);
@@ -84,32 +91,19 @@ function sortObjectKeys(obj: unknown): unknown {
  */
 async function hashNormalized(filePath: string): Promise<string> {
   const content = await fs.readFile(filePath, 'utf8');
-  const normalized = normalizeFrontmatter(content);
+  const normalized = normalizeFrontmatter(content, filePath);
   return createHash('sha256').update(normalized).digest('hex');
 }
 
-function getConflictType(contentA: string, contentB: string): 'content' | 'frontmatter' {
-  const parsedA = matter(contentA);
-  const parsedB = matter(contentB);
-
-  // If both have @ references, check if they point to the same file
-  const refA = extractReference(parsedA.content);
-  const refB = extractReference(parsedB.content);
-
-  if (refA && refB) {
-    // Both are references - conflict is in frontmatter
-    return refA === refB ? 'frontmatter' : 'content';
-  }
-
-  // At least one has actual content
-  return 'content';
-}
-
 function extractReference(content: string): string | null {
   const match = content.trim().match(/^@(.+)$/);
   return match ? match[1] : null;
 }
 
+function resolveReference(filePath: string, reference: string): string {
+  return resolve(dirname(filePath), reference);
+}
+
 function formatDiff(contentA: string, contentB: string): string {
   const diff = diffLines(contentA, contentB);
   const output: string[] = [];
@@ -130,42 +124,95 @@ function formatDiff(contentA: string, contentB: string): string {
   return output.join('\n');
 }
 
+/**
+ * Detect skills whose versions differ between platforms
+ *
+ * Every platform holding a skill is compared, identical versions (ignoring field
+ * order and sync metadata) are clustered into variants, and one conflict is
+ * reported per skill with more than one variant.
+ * @param skillsByPlatform - Skill files of each enabled platform, keyed by platform name
+ * @returns Conflicts in skill order of the first platform holding each skill
+ */
+export async function detectConflicts(skillsByPlatform: Record<string, SkillFile[]>): Promise<Conflict[]>;
+/**
+ * Detect skills whose versions differ between two platforms
+ * @deprecated Pass every platform's skills keyed by platform name instead
+ */
 export async function detectConflicts(
   skillsA: SkillFile[],
   skillsB: SkillFile[],
+  platformA?: string,
+  platformB?: string
+): Promise<Conflict[]>;
+export async function detectConflicts(
+  skillsOrPlatforms: SkillFile[] | Record<string, SkillFile[]>,
+  skillsB: SkillFile[] = [],
   platformA: string = 'claude',
   platformB: string = 'codex'
 ): Promise<Conflict[]> {
+  const skillsByPlatform = Array.isArray(skillsOrPlatforms)
+    ? { [platformA]: skillsOrPlatforms, [platformB]: skillsB }
+    : skillsOrPlatforms;
+
+  // Group every platform's copy by skill name, keeping platform order
+  const holdersBySkill = new Map<string, Array<{ platform: string; path: string }>>();
+  for (const [platform, skills] of Object.entries(skillsByPlatform)) {
+    for (const skill of skills) {
+      const holders = holdersBySkill.get(skill.skillName) ?? [];
+      holders.push({ platform, path: skill.path });
+      holdersBySkill.set(skill.skillName, holders);
+    }
+  }
+
   const conflicts: Conflict[] = [];
 
-  for (const skillA of skillsA) {
-    const skillB = skillsB.find(s => s.skillName === skillA.skillName);
-
-    if (skillB) {
-      const contentA = await fs.readFile(skillA.path, 'utf8');
-      const contentB = await fs.readFile(skillB.path, 'utf8');
-
-      // Use normalized hashes to ignore field order differences
-      const hashA = await hashNormalized(skillA.path);
-      const hashB = await hashNormalized(skillB.path);
-
-      if (hashA !== hashB) {
-        const conflictType = getConflictType(contentA, contentB);
-
-        conflicts.push({
-          skillName: skillA.skillName,
-          platformA,
-          platformB,
-          pathA: skillA.path,
-          pathB: skillB.path,
-          hashA,
-          hashB,
-          contentA,
-          contentB,
-          conflictType
+  for (const [skillName, holders] of holdersBySkill) {
+    if (holders.length < 2) {
+      continue;
+    }
+
+    // Cluster identical versions using normalized hashes to ignore field order differences
+    const variants: ConflictVariant[] = [];
+    for (const holder of holders) {
+      const hash = await hashNormalized(holder.path);
+      const variant = variants.find(v => v.hash === hash);
+      if (variant) {
+        variant.platforms.push(holder.platform);
+        variant.paths.push(holder.path);
+      } else {
+        variants.push({
+          platforms: [holder.platform],
+          paths: [holder.path],
+          hash,
+          content: await fs.readFile(holder.path, 'utf8')
         });
       }
     }
+
+    if (variants.length < 2) {
+      continue;
+    }
+
+    const [variantA, variantB] = variants;
+    const references = variants.map(variant => {
+      const reference = extractReference(matter(variant.content).content);
+      return reference === null ? null : resolveReference(variant.paths[0], reference);
+    });
+    const sameReference = references.every(ref => ref !== null && ref === references[0]);
+
+    conflicts.push({
+      skillName,
+      platformA: variantA.platforms[0],
+      platformB: variantB.platforms[0],
+      pathA: variantA.paths[0],
+      pathB: variantB.paths[0],
+      hashA: variantA.hash,
+      hashB: variantB.hash,
+      contentA: variantA.content,
+      contentB: variantB.content,
+      conflictType: sameReference ? 'frontmatter' : 'content',
+      variants
+    });
   }
 
   return conflicts;
@@ -240,7 +287,7 @@ export async function detectOutOfSyncSkills(
     } catch (error) {
       // Skip files that can't be read or parsed
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Could not check sync for ${platformSkill.path}: ${errorMessage}`);
+      logger.warn(`Warning: Could not check sync for ${platformSkill.path}: ${errorMessage}`);
     }
   }
 
@@ -0,0 +1,114 @@
+import { fs } from './io.js';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { scanSkills } from './scanner.js';
+import { parseSkillFile } from './parser.js';
+import { refactorSkill, writePlatformReference } from './syncer.js';
+import { removeDirectory } from './deletions.js';
+import { commonSkillsDir } from './common.js';
+import type { AssistantConfig, DanglingReference, DanglingReferenceResolution } from './types.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find platform skills whose @ reference points at a file that doesn't exist
+ *
+ * References are resolved from the folder of the SKILL.md holding them, so skills
+ * renamed in common, moved repositories and changed skill folders all show up.
+ * Each dangling reference comes with its possible repairs: a common skill named
+ * after the reference target or the platform folder, and inline copies of the
+ * skill in other platforms.
+ * @param baseDir - Base directory to inspect
+ * @param configs - Assistants whose skills are inspected
+ * @returns Dangling references in assistant order
+ */
+export async function findDanglingReferences(
+  baseDir: string,
+  configs: AssistantConfig[]
+): Promise<DanglingReference[]> {
+  const { platforms } = await scanSkills(baseDir, configs);
+  const inline: Array<{ platform: string; path: string; skillName: string }> = [];
+  const references: Array<Omit<DanglingReference, 'commonPath' | 'inlineCopies'>> = [];
+
+  for (const config of configs) {
+    for (const skill of platforms[config.name] || []) {
+      const parsed = parseSkillFile(await fs.readFile(skill.path, 'utf8'));
+      if (!parsed) {
+        continue;
+      }
+      if (!parsed.hasAtReference) {
+        inline.push({ platform: config.name, path: skill.path, skillName: skill.skillName });
+        continue;
+      }
+      const reference = parsed.content.split('\n')[0].trim();
+      const target = resolve(dirname(skill.path), reference.slice(1));
+      if (!(await exists(target))) {
+        references.push({ skillName: skill.skillName, platform: config.name, path: skill.path, reference, target });
+      }
+    }
+  }
+
+  const dangling: DanglingReference[] = [];
+  for (const reference of references) {
+    // The target's skill name first: the platform folder may have been renamed on its own
+    const names = [...new Set([
+      ...(basename(reference.target) === 'SKILL.md' ? [basename(dirname(reference.target))] : []),
+      reference.skillName
+    ])];
+    let commonPath: string | undefined;
+    for (const name of names) {
+      const candidate = join(baseDir, commonSkillsDir(), name, 'SKILL.md');
+      if (await exists(candidate)) {
+        commonPath = candidate;
+        break;
+      }
+    }
+    dangling.push({
+      ...reference,
+      ...(commonPath ? { commonPath } : {}),
+      inlineCopies: inline
+        .filter(copy => names.includes(copy.skillName))
+        .map(({ platform, path }) => ({ platform, path }))
+    });
+  }
+  return dangling;
+}
+
+/**
+ * Human-readable list of dangling references
+ */
+export function formatDanglingReferences(references: DanglingReference[], baseDir: string): string {
+  const lines = [`Found ${references.length} dangling reference(s):`];
+  for (const reference of references) {
+    lines.push(`  ${reference.skillName} (${reference.platform})  ${relative(resolve(baseDir), reference.path)} → ${reference.reference}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Apply the repair chosen for a dangling reference
+ * @param reference - Dangling reference
+ * @param resolution - Repair to apply
+ */
+export async function repairDanglingReference(
+  reference: DanglingReference,
+  resolution: DanglingReferenceResolution
+): Promise<void> {
+  if (resolution.action === 'repoint' && reference.commonPath) {
+    await writePlatformReference(reference.path, reference.commonPath);
+  } else if (resolution.action === 'recreate' && resolution.sourcePath) {
+    // The inline copy moves to common and becomes a reference, like in a sync
+    const commonPath = await refactorSkill(resolution.sourcePath);
+    if (commonPath) {
+      await writePlatformReference(reference.path, commonPath);
+    }
+  } else if (resolution.action === 'delete') {
+    await removeDirectory(dirname(reference.path));
+  }
+}
@@ -0,0 +1,187 @@
+import { fs } from './io.js';
+import { logger } from './ui.js';
+import { join, dirname, isAbsolute, posix } from 'path';
+import { fileMatchesHash } from './dependents.js';
+import { isCommonPath } from './common.js';
+import type { SyncOperation, SyncOperationType, SyncPlan } from './types.js';
+
+const OPERATION_TYPES: SyncOperationType[] = [
+  'WriteCommon',
+  'WriteReference',
+  'PropagateFrontmatter',
+  'CopyDependent',
+  'DeleteDependent',
+  'RemoveDirectory',
+  'WriteFile',
+  'DeleteFile'
+];
+
+const WRITE_OPERATIONS: SyncOperationType[] = [
+  'WriteCommon',
+  'WriteReference',
+  'PropagateFrontmatter',
+  'CopyDependent',
+  'WriteFile'
+];
+
+/**
+ * Save a sync plan as JSON
+ * @param planPath - Destination file
+ * @param plan - Plan to save
+ */
+export async function writePlan(planPath: string, plan: SyncPlan): Promise<void> {
+  await fs.mkdir(dirname(planPath), { recursive: true });
+  await fs.writeFile(planPath, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Whether a path leaving the base directory stays in a common directory outside of it
+ */
+function isInSharedCommonDir(path: string): boolean {
+  return isCommonPath(path) && posix.normalize(path) === path;
+}
+
+/**
+ * Load and validate a sync plan saved by writePlan
+ * @param planPath - Plan file
+ * @returns Validated plan
+ * @throws Error if the file is not a valid plan
+ */
+export async function readPlan(planPath: string): Promise<SyncPlan> {
+  let plan: SyncPlan;
+  try {
+    plan = JSON.parse(await fs.readFile(planPath, 'utf-8')) as SyncPlan;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read plan ${planPath}: ${errorMessage}`);
+  }
+
+  if (plan?.version !== 1) {
+    throw new Error(`Invalid plan: unsupported version ${plan?.version} (expected 1)`);
+  }
+
+  if (!Array.isArray(plan.operations)) {
+    throw new Error('Invalid plan: operations must be an array');
+  }
+
+  plan.operations.forEach((operation: SyncOperation, index: number) => {
+    if (!OPERATION_TYPES.includes(operation.type)) {
+      throw new Error(`Invalid plan: operations[${index}].type "${operation.type}" is not supported`);
+    }
+    if (
+      typeof operation.path !== 'string' ||
+      operation.path === '' ||
+      isAbsolute(operation.path) ||
+      (operation.path.split(/[\\/]/).includes('..') && !isInSharedCommonDir(operation.path))
+    ) {
+      throw new Error(`Invalid plan: operations[${index}].path must be a relative path inside the base directory`);
+    }
+    if (WRITE_OPERATIONS.includes(operation.type) && typeof operation.content !== 'string') {
+      throw new Error(`Invalid plan: operations[${index}].content is required for ${operation.type}`);
+    }
+    if (
+      operation.expectedEntries !== undefined &&
+      operation.expectedEntries !== null &&
+      !(Array.isArray(operation.expectedEntries) && operation.expectedEntries.every(entry => typeof entry === 'string'))
+    ) {
+      throw new Error(`Invalid plan: operations[${index}].expectedEntries must be a list of names or null`);
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Find operations whose target changed since the plan was made
+ * @param plan - Plan to check
+ * @param baseDir - Directory the plan paths are relative to
+ * @returns Relative paths that no longer match the planned state
+ */
+export async function findStaleOperations(plan: SyncPlan, baseDir: string): Promise<string[]> {
+  const stale: string[] = [];
+
+  for (const operation of plan.operations) {
+    const path = join(baseDir, operation.path);
+    if (operation.type === 'RemoveDirectory') {
+      // Plans made before directory listings were recorded have none to compare
+      if (operation.expectedEntries !== undefined && !(await listingMatches(path, operation.expectedEntries))) {
+        stale.push(operation.path);
+      }
+      continue;
+    }
+
+    let matches: boolean;
+    try {
+      await fs.access(path);
+      matches = operation.expectedHash !== null && await fileMatchesHash(path, operation.expectedHash);
+    } catch {
+      // File doesn't exist
+      matches = operation.expectedHash === null;
+    }
+
+    if (!matches) {
+      stale.push(operation.path);
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * Whether a directory holds the entries it held when the plan was made
+ * @param path - Directory to list
+ * @param expected - Sorted entry names, or null if the directory did not exist
+ */
+async function listingMatches(path: string, expected: string[] | null): Promise<boolean> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(path);
+  } catch {
+    // Directory doesn't exist
+    return expected === null;
+  }
+  return expected !== null && entries.sort().join('\n') === expected.join('\n');
+}
+
+/**
+ * Execute a saved sync plan
+ * @param plan - Plan produced by planSync
+ * @param baseDir - Directory the plan paths are relative to
+ * @throws Error if any planned file changed since planning (nothing is written)
+ */
+export async function applyPlan(plan: SyncPlan, baseDir: string): Promise<void> {
+  const stale = await findStaleOperations(plan, baseDir);
+  if (stale.length > 0) {
+    throw new Error(
+      `Plan is out of date, files changed since planning: ${stale.join(', ')}. Run "sync-skills plan" again.`
+    );
+  }
+
+  for (const operation of plan.operations) {
+    const targetPath = join(baseDir, operation.path);
+
+    switch (operation.type) {
+      case 'DeleteDependent':
+      case 'DeleteFile':
+        await fs.unlink(targetPath);
+        break;
+      case 'RemoveDirectory':
+        try {
+          await fs.rmdir(targetPath);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn(`Warning: Could not remove directory ${operation.path}: ${errorMessage}`);
+        }
+        break;
+      default: {
+        const content = operation.encoding === 'base64'
+          ? Buffer.from(operation.content!, 'base64')
+          : operation.content!;
+        await fs.mkdir(dirname(targetPath), { recursive: true });
+        await fs.writeFile(targetPath, content);
+      }
+    }
+
+    logger.log(`${operation.type.padEnd(20)} ${operation.path}`);
+  }
+}
@@ -0,0 +1,269 @@
+import { fs } from './io.js';
+import { join, dirname, relative, resolve, isAbsolute, sep } from 'path';
+import { computeContentHash, fileMatchesHash } from './dependents.js';
+import { inCommonDir } from './common.js';
+import type { JournalEntry } from './journal.js';
+
+/** Run history, one folder per run */
+export const HISTORY_PATH = '.agents-common/.history';
+
+/** Number of runs kept when pruning automatically */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * A change recorded for a run, relative to the base directory
+ */
+export interface HistoryEntry {
+  /** What the run did to the path */
+  action: 'modified' | 'created' | 'deleted' | 'mkdir' | 'rmdir';
+  /** Path relative to the base directory */
+  path: string;
+  /** Backup of the original content, relative to the run folder (modified/deleted only) */
+  backup?: string;
+  /** Hash of the file right after the run (modified/created only) */
+  hashAfter?: string;
+}
+
+/**
+ * Manifest stored in `.agents-common/.history/<run-id>/manifest.json`
+ */
+export interface RunManifest {
+  /** Manifest format version */
+  version: 1;
+  /** Run identifier (also the folder name) */
+  id: string;
+  /** ISO timestamp of the run */
+  createdAt: string;
+  /** Command that produced the run (e.g. 'sync', 'apply') */
+  command: string;
+  /** Changes in execution order */
+  entries: HistoryEntry[];
+}
+
+function createRunId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+async function readManifest(baseDir: string, runId: string): Promise<RunManifest | null> {
+  try {
+    const content = await fs.readFile(join(baseDir, inCommonDir(HISTORY_PATH), runId, 'manifest.json'), 'utf-8');
+    return JSON.parse(content) as RunManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snapshot a finished run into `.agents-common/.history/<run-id>/`
+ * @param baseDir - Base directory of the sync
+ * @param journal - Journal entries of the run (original state of every touched path)
+ * @param command - Command that produced the run
+ * @returns The saved manifest, or null if the run changed nothing
+ */
+export async function recordRun(
+  baseDir: string,
+  journal: readonly JournalEntry[],
+  command: string
+): Promise<RunManifest | null> {
+  const absBaseDir = resolve(baseDir);
+  const entries: HistoryEntry[] = [];
+  const backups = new Map<string, Buffer>();
+
+  for (const entry of [...journal]) {
+    // Paths outside the base directory are kept when reachable from it (e.g. a shared common directory)
+    const relativePath = relative(absBaseDir, entry.path);
+    if (isAbsolute(relativePath)) {
+      continue;
+    }
+
+    if (entry.kind !== 'file') {
+      entries.push({ action: entry.kind, path: relativePath });
+      continue;
+    }
+
+    let current: Buffer | null = null;
+    try {
+      current = await fs.readFile(entry.path);
+    } catch {
+      // File was deleted by the run
+    }
+
+    // Rewritten with identical content, or created and deleted again: nothing to undo
+    if (entry.original && current && entry.original.equals(current)) {
+      continue;
+    }
+    if (!entry.original && !current) {
+      continue;
+    }
+
+    const historyEntry: HistoryEntry = {
+      action: !entry.original ? 'created' : current ? 'modified' : 'deleted',
+      path: relativePath
+    };
+    if (entry.original) {
+      historyEntry.backup = join('files', ...relativePath.split(sep).map(part => part === '..' ? '%2E%2E' : part));
+      backups.set(historyEntry.backup, entry.original);
+    }
+    if (current) {
+      historyEntry.hashAfter = computeContentHash(current);
+    }
+    entries.push(historyEntry);
+  }
+
+  if (!entries.some(entry => entry.action !== 'mkdir' && entry.action !== 'rmdir')) {
+    return null;
+  }
+
+  const createdAt = new Date();
+  const id = createRunId(createdAt);
+  const runDir = join(baseDir, inCommonDir(HISTORY_PATH), id);
+  const manifest: RunManifest = { version: 1, id, createdAt: createdAt.toISOString(), command, entries };
+
+  for (const [backup, content] of backups) {
+    await fs.mkdir(dirname(join(runDir, backup)), { recursive: true });
+    await fs.writeFile(join(runDir, backup), content);
+  }
+
+  await fs.mkdir(runDir, { recursive: true });
+  await fs.writeFile(join(runDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+  return manifest;
+}
+
+/**
+ * List recorded runs, most recent first
+ * @param baseDir - Base directory of the sync
+ */
+export async function listRuns(baseDir: string): Promise<RunManifest[]> {
+  let runIds: string[];
+  try {
+    runIds = await fs.readdir(join(baseDir, inCommonDir(HISTORY_PATH)));
+  } catch {
+    return [];
+  }
+
+  const runs: RunManifest[] = [];
+  for (const runId of runIds.sort().reverse()) {
+    const manifest = await readManifest(baseDir, runId);
+    if (manifest) {
+      runs.push(manifest);
+    }
+  }
+  return runs;
+}
+
+async function removeTree(path: string): Promise<void> {
+  let entries;
+  try {
+    entries = await fs.readdir(path, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const entryPath = join(path, entry.name);
+    if (entry.isDirectory()) {
+      await removeTree(entryPath);
+    } else {
+      await fs.unlink(entryPath);
+    }
+  }
+  await fs.rmdir(path);
+}
+
+/**
+ * Delete all but the most recent runs
+ * @param baseDir - Base directory of the sync
+ * @param keep - Number of runs to keep
+ * @returns Ids of the removed runs
+ */
+export async function pruneHistory(baseDir: string, keep: number = DEFAULT_HISTORY_LIMIT): Promise<string[]> {
+  const runs = await listRuns(baseDir);
+  const removed: string[] = [];
+  for (const run of runs.slice(Math.max(keep, 0))) {
+    await removeTree(join(baseDir, inCommonDir(HISTORY_PATH), run.id));
+    removed.push(run.id);
+  }
+  return removed;
+}
+
+/**
+ * Restore every file touched by a run to its state before the run
+ * @param baseDir - Base directory of the sync
+ * @param runId - Run to undo (default: most recent)
+ * @param options - Set `force` to overwrite files edited after the run
+ * @returns Manifest of the undone run
+ * @throws Error if the run doesn't exist or files changed since the run (without force)
+ */
+export async function undoRun(
+  baseDir: string,
+  runId?: string,
+  options: { force?: boolean } = {}
+): Promise<RunManifest> {
+  if (runId !== undefined && !/^[\w.-]+$/.test(runId)) {
+    throw new Error(`Invalid run id: ${runId}`);
+  }
+
+  const manifest = runId ? await readManifest(baseDir, runId) : (await listRuns(baseDir))[0];
+  if (!manifest) {
+    throw new Error(runId ? `No run found with id ${runId}` : 'No runs recorded in history');
+  }
+
+  const runDir = join(baseDir, inCommonDir(HISTORY_PATH), manifest.id);
+
+  if (!options.force) {
+    const changed: string[] = [];
+    for (const entry of manifest.entries) {
+      if (entry.action === 'mkdir' || entry.action === 'rmdir') {
+        continue;
+      }
+      const path = join(baseDir, entry.path);
+      let unchanged: boolean;
+      try {
+        await fs.access(path);
+        unchanged = entry.hashAfter !== undefined && await fileMatchesHash(path, entry.hashAfter);
+      } catch {
+        // File doesn't exist
+        unchanged = !entry.hashAfter;
+      }
+      if (!unchanged) {
+        changed.push(entry.path);
+      }
+    }
+    if (changed.length > 0) {
+      throw new Error(
+        `Files changed since run ${manifest.id}: ${changed.join(', ')}. Use --force to overwrite them.`
+      );
+    }
+  }
+
+  for (const entry of [...manifest.entries].reverse()) {
+    const targetPath = join(baseDir, entry.path);
+    switch (entry.action) {
+      case 'modified':
+      case 'deleted':
+        await fs.mkdir(dirname(targetPath), { recursive: true });
+        await fs.writeFile(targetPath, await fs.readFile(join(runDir, entry.backup!)));
+        break;
+      case 'created':
+        try {
+          await fs.unlink(targetPath);
+        } catch {
+          // Already gone
+        }
+        break;
+      case 'mkdir':
+        try {
+          await fs.rmdir(targetPath);
+        } catch {
+          // Directory not empty or already removed - leave it
+        }
+        break;
+      case 'rmdir':
+        await fs.mkdir(targetPath, { recursive: true });
+        break;
+    }
+  }
+
+  await removeTree(runDir);
+  return manifest;
+}
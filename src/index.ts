@@ -1,42 +1,149 @@
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import { fs, useFileSystem } from './io.js';
+import { logger, useLogger, usePrompt } from './ui.js';
+import { EventEmitter } from 'events';
+import { basename, dirname, join, relative, resolve } from 'path';
 import matter from 'gray-matter';
 import { scanSkills } from './scanner.js';
 import type { WalkDirResult } from './scanner.js';
 import { parseSkillFile } from './parser.js';
 import { detectConflicts, detectOutOfSyncSkills } from './detector.js';
-import { resolveConflict, resolveDependentConflicts, resolveOutOfSyncSkill, resolveOutOfSyncSkills } from './resolver.js';
-import { refactorSkill, copySkill, computeSkillHash, updateMainHash, writePlatformReference } from './syncer.js';
-import { propagateFrontmatter } from './propagator.js';
+import {
+  askSkillDescription,
+  resolveConflict,
+  resolveDanglingReference,
+  resolveDeletions,
+  resolveDependentConflicts,
+  resolveMergeConflict,
+  resolveOutOfSyncSkill,
+  resolveOutOfSyncSkills
+} from './resolver.js';
+import {
+  refactorSkill,
+  copySkill,
+  computeSkillHash,
+  updateMainHash,
+  writePlatformReference,
+  verifySkillHash
+} from './syncer.js';
+import { propagateFrontmatter, loadFrontmatterDecisions, saveFrontmatterDecisions } from './propagator.js';
 import { discoverAssistants, findSyncPairs, processSyncPairs, syncCommonOnlySkills } from './assistants.js';
-import { ensureConfig, reconfigure as runReconfigure, getEnabledAssistants } from './config.js';
+import {
+  CONFIG_PATH,
+  CONFIG_VERSION,
+  ensureConfig,
+  getEnabledAssistants,
+  migrateConfigFile,
+  readConfig,
+  readAssistantSettings,
+  useAssistantSettings,
+  reconfigure as runReconfigure
+} from './config.js';
 import { normalizeBodyContent, pickCoreFrontmatter } from './frontmatter.js';
 import { buildCommonSkillReference } from './references.js';
 import {
   collectDependentFilesFromPlatforms,
   consolidateDependentsToCommon,
   cleanupPlatformDependentFiles,
-  applyConflictResolutions
+  applyConflictResolutions,
+  detectDependentFiles
 } from './dependents.js';
+import {
+  applySkillDeletion,
+  detectDeletedDependents,
+  detectDeletedSkills,
+  readTrackedFiles,
+  removeDirectory
+} from './deletions.js';
+import { findDanglingReferences, formatDanglingReferences, repairDanglingReference } from './doctor.js';
+import { renameSkill } from './rename.js';
+import { relocateCommon } from './relocate.js';
+import { createSkill } from './scaffold.js';
+import { OverlayFileSystem, formatPlan, buildSyncPlan, skillNameFromPath } from './plan.js';
+import type { PlannedChange } from './plan.js';
+import { applyPlan, readPlan, writePlan } from './executor.js';
+import { withTransaction } from './journal.js';
+import { mergeSkill, hasMergeConflicts, applySkillMerge, saveSyncBases, writeMergedSkill } from './merge.js';
+import { findMergeToolCommand, prepareConflictMerge, prepareOutOfSyncMerge } from './mergetool.js';
+import { recordRun, listRuns, pruneHistory, undoRun } from './history.js';
+import { getStrategy } from './strategy.js';
+import { checkSkills } from './check.js';
+import { useJobs } from './concurrency.js';
+import { withScope } from './context.js';
+import { commonSkillsDir, getCommonDir, inCommonDir, resolveCommonDir, useCommonDir } from './common.js';
+import { findChangedSkills, readSyncState, updateSyncState } from './state.js';
+import { loadTargetFilter, readSkillTargets } from './targets.js';
+import { DEFAULT_WATCH_DEBOUNCE_MS, SkillWatcher } from './watch.js';
 import { getAssistantConfigs } from './types.js';
-import type { RunOptions, AssistantConfig, SkillFile, OutOfSyncSkill } from './types.js';
+import type {
+  RunOptions,
+  AssistantConfig,
+  CheckReport,
+  Conflict,
+  ConflictRecord,
+  Deletion,
+  DeletionResolution,
+  DependentConflict,
+  DetectedConflict,
+  FrontmatterConflict,
+  ListedSkill,
+  NewSkillOptions,
+  SkillFile,
+  SkillTargets,
+  OutOfSyncSkill,
+  SkillMerge,
+  StrategyPolicy,
+  SyncAction,
+  SyncEvent,
+  SyncPlan,
+  SyncReport,
+  SyncSkillsEvents,
+  SyncSkillsOptions
+} from './types.js';
+
+export { scanSkills } from './scanner.js';
+export { detectConflicts } from './detector.js';
+export { computeSkillHash } from './syncer.js';
+export { SkillWatcher } from './watch.js';
+export type * from './types.js';
+export type { Logger, Prompt } from './ui.js';
 
-export async function run(options: RunOptions = {}): Promise<void> {
+/**
+ * Sync skills, or run the command selected by the options
+ * @param options - Run options
+ * @returns What the sync did (undefined for list, history, undo and apply)
+ */
+export async function run(options: RunOptions = {}): Promise<SyncReport | undefined> {
+  return withRunContext(options, () => runCommand(options));
+}
+
+async function runCommand(options: RunOptions): Promise<SyncReport | undefined> {
   let {
     baseDir = process.cwd(),
     failOnConflict = false,
     homeMode = false,
     reconfigure = false,
-    listMode = false
+    listMode = false,
+    dryRun = false,
+    planOutput,
+    applyPlan: applyPlanPath,
+    history = false,
+    historyKeep,
+    undo,
+    force = false,
+    doctor = false,
+    rename,
+    newSkill,
+    configMigrate = false,
+    relocateCommon: relocateTo,
+    strategy,
+    full = false,
+    onEvent
   } = options;
 
   // Handle --home flag
   if (homeMode) {
-    if (!process.env.HOME) {
-      throw new Error('HOME environment variable not set');
-    }
-    baseDir = process.env.HOME;
-    console.log(`Using home directory: ${baseDir}`);
+    baseDir = resolveBaseDir(baseDir, homeMode);
+    logger.log(`Using home directory: ${baseDir}`);
   }
 
   // Handle --list mode
@@ -45,6 +152,539 @@ export async function run(options: RunOptions = {}): Promise<void> {
     return;
   }
 
+  // Handle history: list (and optionally prune) recorded runs
+  if (history) {
+    await showHistory(baseDir, historyKeep);
+    return;
+  }
+
+  // Handle undo: restore the files touched by a recorded run
+  if (undo) {
+    const manifest = await withTransaction(() => undoRun(baseDir, undo === true ? undefined : undo, { force }));
+    const restored = manifest.entries.filter(entry => entry.action !== 'mkdir' && entry.action !== 'rmdir');
+    logger.log(`Undid run ${manifest.id} (${restored.length} file(s) restored)`);
+    return;
+  }
+
+  // Handle doctor: find and repair dangling @ references
+  if (doctor) {
+    await runDoctor(baseDir, homeMode, dryRun);
+    return;
+  }
+
+  // Handle rename: move a skill to a new name everywhere
+  if (rename) {
+    await runRename(baseDir, homeMode, rename.from, rename.to, dryRun);
+    return;
+  }
+
+  // Handle new: scaffold a skill in common and reference it everywhere
+  if (newSkill) {
+    await runNew(baseDir, homeMode, newSkill, dryRun);
+    return;
+  }
+
+  // Handle config migrate: upgrade the config file to the current schema
+  if (configMigrate) {
+    await runConfigMigrate(baseDir, dryRun);
+    return;
+  }
+
+  // Handle relocate-common: move the common directory and rewrite references to it
+  if (relocateTo !== undefined) {
+    await runRelocateCommon(baseDir, homeMode, relocateTo, dryRun);
+    return;
+  }
+
+  // Handle apply: execute a plan saved by `sync-skills plan`
+  if (applyPlanPath) {
+    const plan = await readPlan(applyPlanPath);
+    // Plan paths are relative to the directory it was made in: the project or the home directory
+    if (Boolean(plan.homeMode) !== homeMode) {
+      throw new Error(
+        plan.homeMode
+          ? 'The plan was made with --home: apply it with --home'
+          : 'The plan was made without --home: apply it without --home'
+      );
+    }
+    await withTransaction(async journal => {
+      await applyPlan(plan, baseDir);
+      await recordRun(baseDir, journal.journal, 'apply');
+    });
+    await pruneHistory(baseDir);
+    logger.log(`Applied ${plan.operations.length} planned operation(s)`);
+    return;
+  }
+
+  return syncSkills(baseDir, { reconfigure, failOnConflict, homeMode, strategy, full, onEvent }, { dryRun, planOutput });
+}
+
+/**
+ * Sync, or plan a sync when dryRun or planOutput is set, and report what it did
+ */
+async function syncSkills(
+  baseDir: string,
+  options: PhaseOptions,
+  output: { dryRun: boolean; planOutput?: string }
+): Promise<SyncReport> {
+  const { dryRun, planOutput } = output;
+
+  // Only go through the skills changed since the last sync, unless told which skills to sync
+  let skills = options.skills;
+  let skipped: string[] = [];
+  if (!skills && !options.full && !options.reconfigure) {
+    const assistants = await enabledAssistants(baseDir, options.homeMode);
+    const state = assistants ? await readSyncState(baseDir) : null;
+    const changed = state && assistants
+      ? await findChangedSkills(
+        baseDir,
+        state,
+        assistants.map(assistant => assistant.skillsDir),
+        await configTargets(baseDir),
+        assistants.map(assistant => assistant.dir)
+      )
+      : null;
+    if (state && changed) {
+      skills = changed;
+      skipped = Object.keys(state.skills).filter(skillName => !changed.includes(skillName));
+    }
+  }
+
+  // Collect resolved conflicts for the report while passing every event on
+  const conflicts: ConflictRecord[] = [];
+  const conflicted = new Set<string>();
+  const phaseOptions: PhaseOptions = {
+    ...options,
+    skills,
+    onEvent: event => {
+      if (event.type === 'conflict-detected') {
+        conflicted.add(event.skillName);
+      }
+      if (event.type === 'conflict') {
+        const { type: _type, ...conflict } = event;
+        conflicts.push(conflict);
+      }
+      options.onEvent?.(event);
+    }
+  };
+
+  if (dryRun || planOutput) {
+    let skillNames: string[] | null = null;
+    const onSkills = (names: string[] | null) => {
+      skillNames = names;
+    };
+    const changes = planOutput
+      ? await recordPlanChanges(baseDir, phaseOptions, onSkills)
+      : await recordChanges(baseDir, phaseOptions, onSkills);
+    logger.log(formatPlan(changes, baseDir));
+    if (planOutput) {
+      await writePlan(planOutput, buildSyncPlan(changes, baseDir, options.homeMode));
+      logger.log(`Plan written to ${planOutput}`);
+    }
+    const actions = changes.flatMap((change): SyncAction[] =>
+      change.kind === 'rmdir' ? [] : [{
+        action: change.kind === 'create' ? 'created' : change.kind === 'delete' ? 'deleted' : 'modified',
+        path: relative(resolve(baseDir), change.path)
+      }]
+    );
+    const reported = skillNames ? [...skillNames as string[], ...skipped] : [];
+    return buildSyncReport(skillNames ? 'planned' : 'no-skills', reported, actions, conflicts);
+  }
+
+  if (skills?.length === 0 && !options.skills) {
+    logger.log('Skills are up to date');
+    return buildSyncReport('synced', skipped, [], []);
+  }
+
+  // Journal every write so an abort or failure leaves the tree untouched,
+  // and keep a backup of the run so it can be undone later
+  const { skillNames, manifest } = await withTransaction(async journal => {
+    const skillNames = await runPhases(baseDir, phaseOptions);
+    const manifest = await recordRun(baseDir, journal.journal, 'sync');
+    return { skillNames, manifest };
+  });
+  await pruneHistory(baseDir);
+  if (skillNames) {
+    const assistants = (await enabledAssistants(baseDir, options.homeMode)) ?? [];
+    await updateSyncState(
+      baseDir,
+      assistants.map(assistant => assistant.skillsDir),
+      skills ?? null,
+      [...conflicted],
+      await configTargets(baseDir),
+      assistants.map(assistant => assistant.dir)
+    );
+    logger.log('Sync complete');
+  }
+
+  const actions = (manifest?.entries ?? []).flatMap((entry): SyncAction[] =>
+    entry.action === 'mkdir' || entry.action === 'rmdir' ? [] : [{ action: entry.action, path: entry.path }]
+  );
+  return buildSyncReport(skillNames ? 'synced' : 'no-skills', skillNames ? [...skillNames, ...skipped] : [], actions, conflicts);
+}
+
+/**
+ * Configs of the enabled assistants, or null before the first configuration
+ */
+async function enabledAssistants(baseDir: string, homeMode: boolean): Promise<AssistantConfig[] | null> {
+  const config = await readConfig(baseDir);
+  return config ? getEnabledAssistants(config, homeMode) : null;
+}
+
+/**
+ * Targeting rules of the config, by skill name glob
+ */
+async function configTargets(baseDir: string): Promise<Record<string, SkillTargets>> {
+  return (await readConfig(baseDir))?.targets ?? {};
+}
+
+/**
+ * Group the net change to each path by skill
+ * @param status - Report status
+ * @param skillNames - Skills found by the sync
+ * @param changes - Changes in execution order, relative to the base directory
+ * @param conflicts - Conflicts resolved by the sync
+ */
+function buildSyncReport(
+  status: SyncReport['status'],
+  skillNames: string[],
+  changes: SyncAction[],
+  conflicts: ConflictRecord[]
+): SyncReport {
+  // A path touched several times reports only its net change
+  const net = new Map<string, SyncAction['action']>();
+  for (const { action, path } of changes) {
+    const previous = net.get(path);
+    if (previous === 'created' && action === 'deleted') {
+      net.delete(path);
+    } else if (previous === 'created') {
+      continue;
+    } else if (previous === 'deleted' && action === 'created') {
+      net.set(path, 'modified');
+    } else {
+      net.set(path, action);
+    }
+  }
+
+  const skills = new Map(skillNames.map(skillName => [skillName, [] as SyncAction[]]));
+  const actions: SyncAction[] = [];
+  for (const [path, action] of net) {
+    const skillName = skillNameFromPath(path);
+    if (skillName === null) {
+      actions.push({ action, path });
+      continue;
+    }
+    const skillActions = skills.get(skillName) ?? [];
+    skillActions.push({ action, path });
+    skills.set(skillName, skillActions);
+  }
+
+  return {
+    status,
+    skills: [...skills.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([skillName, skillActions]) => ({
+        skillName,
+        status: skillActions.length > 0 ? 'updated' : 'unchanged',
+        actions: skillActions
+      })),
+    actions,
+    conflicts
+  };
+}
+
+/**
+ * Plan a sync without touching disk or prompting
+ *
+ * Conflicts must be resolved by the strategy in the options: planning fails on
+ * any conflict left over, and on any other question a sync would ask.
+ * @param options - Run options (listMode, dryRun and failOnConflict are ignored)
+ * @returns Serializable plan that can be executed later with applyPlan
+ */
+export async function planSync(options: RunOptions = {}): Promise<SyncPlan> {
+  const {
+    baseDir = process.cwd(),
+    homeMode = false,
+    reconfigure = false,
+    strategy,
+    onEvent
+  } = options;
+  const root = resolveBaseDir(baseDir, homeMode);
+  const changes = await withRunContext(options, () =>
+    recordPlanChanges(root, { reconfigure, homeMode, strategy, onEvent })
+  );
+  return buildSyncPlan(changes, root, homeMode);
+}
+
+/**
+ * Check whether anything is out of sync, without prompting or writing
+ * @param options - Run options (only baseDir and homeMode are used)
+ * @returns Drifts found and the exit code to report them with
+ */
+export async function checkSync(options: RunOptions = {}): Promise<CheckReport> {
+  const { baseDir = process.cwd(), homeMode = false } = options;
+  return withRunContext(options, () => checkSkills(resolveBaseDir(baseDir, homeMode), homeMode));
+}
+
+/**
+ * Sync once, then keep syncing the affected skills whenever common or platform skills change
+ * @param options - Run options (listMode, dryRun and the history options are ignored)
+ * @param debounceMs - Quiet time after the last change before syncing
+ * @returns The running watcher; close it to stop watching
+ */
+export async function watchSync(
+  options: RunOptions = {},
+  debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS
+): Promise<SkillWatcher> {
+  const {
+    baseDir = process.cwd(),
+    failOnConflict = false,
+    homeMode = false,
+    strategy,
+    full = false,
+    onEvent
+  } = options;
+  const root = resolveBaseDir(baseDir, homeMode);
+  const commonDir = await withRunContext(options, async () => getCommonDir());
+
+  const watcher = new SkillWatcher(root, {
+    sync: skills => withRunContext(options, () => syncSkills(
+      root,
+      { reconfigure: false, failOnConflict, homeMode, strategy, full, onEvent, skills: skills ?? undefined },
+      { dryRun: false }
+    )),
+    watchedDirs: () => withRunContext(options, async () => [
+      commonSkillsDir(),
+      ...((await enabledAssistants(root, homeMode)) ?? []).map(assistant => assistant.skillsDir)
+    ]),
+    commonDir,
+    debounceMs
+  });
+  await watcher.start();
+  return watcher;
+}
+
+/**
+ * Embeddable sync-skills: prompts and logs through the given implementations
+ * and emits typed events while syncing.
+ *
+ * Each call runs in its own scope with the prompt, logger and options of its
+ * instance, so calls of several instances can overlap.
+ */
+export class SyncSkills extends EventEmitter<SyncSkillsEvents> {
+  private readonly options: SyncSkillsOptions;
+
+  constructor(options: SyncSkillsOptions = {}) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Sync skills, emitting events as it goes and `sync:complete` with the report
+   * @param options - Set dryRun to only plan the changes
+   */
+  async sync(options: { dryRun?: boolean } = {}): Promise<SyncReport> {
+    const { baseDir = process.cwd(), failOnConflict = false, homeMode = false, reconfigure = false, strategy, full } = this.options;
+    const report = await this.withUi(() => syncSkills(
+      resolveBaseDir(baseDir, homeMode),
+      { reconfigure, failOnConflict, homeMode, strategy, full, onEvent: event => this.forward(event) },
+      { dryRun: options.dryRun ?? false }
+    ));
+    this.emit('sync:complete', report);
+    return report;
+  }
+
+  /**
+   * Plan a sync without touching disk or prompting; fails on conflicts the strategy leaves unresolved
+   */
+  async plan(): Promise<SyncPlan> {
+    return this.withUi(() => planSync({ ...this.options, onEvent: event => this.forward(event) }));
+  }
+
+  /**
+   * Check whether anything is out of sync, without prompting or writing
+   */
+  async check(): Promise<CheckReport> {
+    return this.withUi(() => checkSync(this.options));
+  }
+
+  /**
+   * List installed skills across platforms and common
+   */
+  async list(): Promise<ListedSkill[]> {
+    return this.withUi(() => listInstalledSkills(this.options));
+  }
+
+  private withUi<T>(operation: () => Promise<T>): Promise<T> {
+    return withScope(() => {
+      if (this.options.prompt) {
+        usePrompt(this.options.prompt);
+      }
+      if (this.options.logger) {
+        useLogger(this.options.logger);
+      }
+      return withRunContext(this.options, operation);
+    });
+  }
+
+  private forward(event: SyncEvent): void {
+    switch (event.type) {
+      case 'phase':
+        this.emit('phase:started', withoutType(event));
+        break;
+      case 'skill-refactored':
+        this.emit('skill:refactored', withoutType(event));
+        break;
+      case 'reference-created':
+        this.emit('reference:created', withoutType(event));
+        break;
+      case 'reference-removed':
+        this.emit('reference:removed', withoutType(event));
+        break;
+      case 'conflict-detected':
+        this.emit('conflict:detected', withoutType(event));
+        break;
+      case 'conflict':
+        this.emit('conflict:resolved', withoutType(event));
+        break;
+      case 'dependent-consolidated':
+        this.emit('dependent:consolidated', withoutType(event));
+        break;
+    }
+  }
+}
+
+/**
+ * Fields of a progress event, as emitted by SyncSkills
+ */
+function withoutType<E extends SyncEvent>({ type: _type, ...payload }: E): Omit<E, 'type'> {
+  return payload;
+}
+
+/**
+ * Run in a scope of its own with the common directory and custom assistants of
+ * the project, and the concurrency limit from the options, if one is set
+ */
+async function withRunContext<T>(options: RunOptions, operation: () => Promise<T>): Promise<T> {
+  const { baseDir = process.cwd(), homeMode = false, jobs } = options;
+  const root = resolveBaseDir(baseDir, homeMode);
+  return withScope(async () => {
+    // The config lives in the common directory, so it's located first
+    useCommonDir(await resolveCommonDir(root));
+    useAssistantSettings(await readAssistantSettings(root));
+    if (jobs !== undefined) {
+      useJobs(jobs);
+    }
+    return operation();
+  });
+}
+
+/**
+ * Base directory to sync: the home directory in home mode
+ */
+function resolveBaseDir(baseDir: string, homeMode: boolean): string {
+  if (!homeMode) {
+    return baseDir;
+  }
+  if (!process.env.HOME) {
+    throw new Error('HOME environment variable not set');
+  }
+  return process.env.HOME;
+}
+
+/**
+ * Run options used by the sync phases
+ */
+interface PhaseOptions {
+  reconfigure: boolean;
+  failOnConflict: boolean;
+  homeMode: boolean;
+  strategy?: StrategyPolicy;
+  onEvent?: (event: SyncEvent) => void;
+  /** Only sync these skills (default: the skills changed since the last sync) */
+  skills?: string[];
+  /** Sync every skill, ignoring the sync state */
+  full?: boolean;
+}
+
+/**
+ * Run every sync phase against an in-memory overlay and return the recorded changes
+ * @param onSkills - Called with the skills found, or null if there were none
+ */
+async function recordChanges(
+  baseDir: string,
+  options: PhaseOptions,
+  onSkills: (skillNames: string[] | null) => void = () => {}
+): Promise<PlannedChange[]> {
+  const overlay = new OverlayFileSystem();
+  const restore = useFileSystem(overlay);
+  try {
+    onSkills(await runPhases(baseDir, options, phase => overlay.beginPhase(phase)));
+  } finally {
+    restore();
+  }
+  return overlay.changes;
+}
+
+/**
+ * Record the changes of a sync for a plan to apply later, without asking anything
+ *
+ * Nobody may be there to answer while a plan is made (e.g. in CI), so conflicts
+ * that no strategy resolves fail the planning like with failOnConflict, and so
+ * does any other question, such as which assistant folders to create.
+ */
+async function recordPlanChanges(
+  baseDir: string,
+  options: Omit<PhaseOptions, 'failOnConflict'>,
+  onSkills?: (skillNames: string[] | null) => void
+): Promise<PlannedChange[]> {
+  return withScope(() => {
+    usePrompt(async questions => {
+      const [question] = Array.isArray(questions) ? questions : [questions];
+      throw new Error(`Cannot ask "${question?.name}" while planning: run sync-skills to answer it, then plan again`);
+    });
+    return recordChanges(baseDir, { ...options, failOnConflict: true }, onSkills);
+  });
+}
+
+/**
+ * Run every sync phase against the active file system
+ * @param baseDir - Base directory to sync
+ * @param options - Resolved run options
+ * @param onPhase - Called with the phase name before each phase starts
+ * @returns Names of the synced skills, or null if there were no skills to sync
+ */
+async function runPhases(
+  baseDir: string,
+  options: PhaseOptions,
+  onPhase: (phase: string) => void = () => {}
+): Promise<string[] | null> {
+  const { reconfigure, failOnConflict, homeMode, strategy, onEvent } = options;
+  const beginPhase = (phase: string) => {
+    onPhase(phase);
+    onEvent?.({ type: 'phase', phase });
+  };
+  // Restrict scans to the requested skills for incremental syncs
+  const only = options.skills ? new Set(options.skills) : null;
+  const pick = <T extends { skillName: string }>(skills: T[]): T[] =>
+    only ? skills.filter(skill => only.has(skill.skillName)) : skills;
+  const scan = async (configs: AssistantConfig[]) => {
+    const result = await scanSkills(baseDir, configs);
+    return {
+      platforms: Object.fromEntries(Object.entries(result.platforms).map(([name, skills]) => [name, pick(skills)])),
+      common: pick(result.common)
+    };
+  };
+  const reportDetected = (conflict: DetectedConflict) => onEvent?.({ type: 'conflict-detected', ...conflict });
+  const reportConflict = (conflict: ConflictRecord) => onEvent?.({ type: 'conflict', ...conflict });
+  const reportReference = (skillName: string, platform: string, path: string) =>
+    onEvent?.({ type: 'reference-created', skillName, platform, path: relative(resolve(baseDir), path) });
+  const outOfSyncStrategy = getStrategy(strategy, 'out-of-sync');
+  const platformStrategy = getStrategy(strategy, 'platform');
+  const dependentStrategy = getStrategy(strategy, 'dependent');
+  const frontmatterStrategy = getStrategy(strategy, 'frontmatter');
+  const deletionStrategy = getStrategy(strategy, 'deletion');
+
   // Handle --reconfigure flag
   if (reconfigure) {
     await runReconfigure(baseDir);
@@ -54,37 +694,114 @@ export async function run(options: RunOptions = {}): Promise<void> {
   const anyInitialSkills = Object.values(preConfigScan.platforms).some(skills => skills.length > 0);
   const hasInitialCommonSkills = preConfigScan.common.length > 0;
   if (!anyInitialSkills && !hasInitialCommonSkills) {
-    console.log('No skills found. Exiting.');
-    return;
+    logger.log('No skills found. Exiting.');
+    return null;
   }
 
   // Ensure config exists
   const config = await ensureConfig(baseDir);
+  const decisions = await loadFrontmatterDecisions(baseDir);
+  // Merge tool for merging by hand, looked up when first needed
+  let mergeTool: Promise<string | null> | undefined;
+  const getMergeTool = () => (mergeTool ??= findMergeToolCommand(baseDir, config.mergeTool));
 
   // Phase 1: Get enabled assistants and find sync pairs
   const enabledConfigs = getEnabledAssistants(config, homeMode);
-  const states = await discoverAssistants(baseDir, enabledConfigs);
+  // Assistants each skill goes to, from the config and the skill's own frontmatter (common first)
+  const isTargeted = await loadTargetFilter(config.targets, [
+    ...preConfigScan.common,
+    ...Object.values(preConfigScan.platforms).flat()
+  ]);
+
+  const deletionConflict = (deletion: Deletion): DetectedConflict => ({
+    kind: 'deletion',
+    skillName: deletion.skillName,
+    platforms: [...new Set([...deletion.deletedFrom, ...deletion.remaining.map(copy => copy.platform)])]
+      .filter(platform => platform !== 'common'),
+    path: relative(resolve(baseDir), deletion.path)
+  });
+  const resolveDeletionsOf = async (deletions: Deletion[]): Promise<DeletionResolution[]> => {
+    if (deletions.length === 0) {
+      return [];
+    }
+    for (const deletion of deletions) {
+      reportDetected(deletionConflict(deletion));
+    }
+    if (failOnConflict && !deletionStrategy) {
+      throw new Error(`Deletions detected in: ${[...new Set(deletions.map(deletion => deletion.skillName))].join(', ')}`);
+    }
+
+    const resolutions = await resolveDeletions(deletions, undefined, deletionStrategy);
+    if (resolutions.some(resolution => resolution.action === 'abort')) {
+      throw new Error('Sync aborted');
+    }
+    resolutions.forEach((resolution, index) =>
+      reportConflict({ ...deletionConflict(deletions[index]), resolution: resolution.action })
+    );
+    return resolutions;
+  };
+
+  // Phase 1.5: Propagate skills deleted from common or from a platform since the last sync,
+  // before they are linked or copied back
+  beginPhase('deletions');
+  const deletedSkills = await detectDeletedSkills(baseDir, enabledConfigs, await readSyncState(baseDir), only ?? undefined);
+  const skillDeletions = await resolveDeletionsOf(deletedSkills);
+  for (const [index, deletion] of deletedSkills.entries()) {
+    await applySkillDeletion(baseDir, deletion, skillDeletions[index]);
+  }
+
+  const states = (await discoverAssistants(baseDir, enabledConfigs))
+    .map(state => ({ ...state, skills: pick(state.skills) }));
   const syncPairs = findSyncPairs(states);
 
   // Phase 2: Process sync pairs (bidirectional)
-  const blockedAssistants = await processSyncPairs(baseDir, syncPairs);
+  beginPhase('assistants');
+  const blockedAssistants = await processSyncPairs(baseDir, syncPairs, reportReference, isTargeted);
   const activeConfigs = enabledConfigs.filter(config => !blockedAssistants.has(config.name));
   const activeStates = states.filter(state => activeConfigs.some(config => config.name === state.config.name));
+  const targetedConfigs = (skillName: string) => activeConfigs.filter(config => isTargeted(skillName, config.name));
+  const platformOf = (path: string) =>
+    activeConfigs.find(config => !relative(join(baseDir, config.skillsDir), path).startsWith('..'))?.name;
+  const writeReference = async (platformPath: string, commonPath: string) => {
+    await writePlatformReference(platformPath, commonPath);
+    reportReference(basename(dirname(platformPath)), platformOf(platformPath) ?? '', platformPath);
+  };
+  const frontmatterConflict = (conflict: FrontmatterConflict, targetPath: string): DetectedConflict => ({
+    kind: 'frontmatter',
+    skillName: basename(dirname(targetPath)),
+    platforms: [platformOf(targetPath)].filter((name): name is string => Boolean(name)),
+    path: relative(resolve(baseDir), targetPath),
+    field: conflict.field
+  });
+  const frontmatterOptions = {
+    failOnConflict,
+    strategy: frontmatterStrategy,
+    decisions,
+    onConflict: (conflict: FrontmatterConflict, targetPath: string) =>
+      reportDetected(frontmatterConflict(conflict, targetPath)),
+    onResolved: (conflict: FrontmatterConflict, targetPath: string, action: string) =>
+      reportConflict({ ...frontmatterConflict(conflict, targetPath), resolution: action })
+  };
 
   // Re-scan after sync to get updated state (including common skills)
-  let { platforms, common } = await scanSkills(baseDir, activeConfigs);
+  let { platforms, common } = await scan(activeConfigs);
 
   // Phase 2.5: Sync skills that exist only in .agents-common to enabled platforms
+  beginPhase('common-only');
   await syncCommonOnlySkills(
     baseDir,
     common.map(c => ({ path: c.path, skillName: c.skillName })),
     activeConfigs,
-    blockedAssistants
+    blockedAssistants,
+    reportReference,
+    isTargeted
   );
 
   // Phase 3: Refactor platform skills that don't have @ references
+  beginPhase('refactor');
   for (const config of activeConfigs) {
-    const platformSkills = platforms[config.name] || [];
+    // Copies of their own in assistants excluded from a skill are left alone
+    const platformSkills = (platforms[config.name] || []).filter(skill => isTargeted(skill.skillName, config.name));
     for (const skill of platformSkills) {
       const content = await fs.readFile(skill.path, 'utf8');
       const parsed = parseSkillFile(content);
@@ -108,16 +825,45 @@ export async function run(options: RunOptions = {}): Promise<void> {
 
         const commonPath = await refactorSkill(skill.path);
         if (commonPath) {
-          await propagateFrontmatter(commonPath, [skill.path], { failOnConflict });
+          onEvent?.({
+            type: 'skill-refactored',
+            skillName: skill.skillName,
+            platform: config.name,
+            path: relative(resolve(baseDir), skill.path),
+            commonPath: relative(resolve(baseDir), commonPath)
+          });
+          reportReference(skill.skillName, config.name, skill.path);
+          await propagateFrontmatter(commonPath, [skill.path], frontmatterOptions);
         }
       }
     }
   }
 
   // Re-scan after refactor to capture new common skills and updated platform state
-  ({ platforms, common } = await scanSkills(baseDir, activeConfigs));
+  ({ platforms, common } = await scan(activeConfigs));
+
+  // Phase 3.5: Remove the references of assistants excluded from a skill, and leave their own copies
+  // out of the following phases
+  beginPhase('targets');
+  for (const config of activeConfigs) {
+    const platformSkills = platforms[config.name] || [];
+    for (const skill of platformSkills.filter(skill => !isTargeted(skill.skillName, config.name))) {
+      if (!parseSkillFile(await fs.readFile(skill.path, 'utf8'))?.hasAtReference) {
+        continue;
+      }
+      await removeDirectory(dirname(skill.path));
+      onEvent?.({
+        type: 'reference-removed',
+        skillName: skill.skillName,
+        platform: config.name,
+        path: relative(resolve(baseDir), skill.path)
+      });
+    }
+    platforms[config.name] = platformSkills.filter(skill => isTargeted(skill.skillName, config.name));
+  }
 
   // Phase 2.75: Detect out-of-sync platform skills (pairwise with common)
+  beginPhase('out-of-sync');
   // Collect all platform skills to check for out-of-sync, grouped by platform
   const outOfSyncSkills: OutOfSyncSkill[] = [];
   for (const config of activeConfigs) {
@@ -126,18 +872,62 @@ export async function run(options: RunOptions = {}): Promise<void> {
     outOfSyncSkills.push(...platformOutOfSync);
   }
 
-  if (outOfSyncSkills.length > 0) {
-    if (failOnConflict) {
-      const skillNames = [...new Set(outOfSyncSkills.map(skill => skill.skillName))];
-      throw new Error(`Out-of-sync skills detected: ${skillNames.join(', ')}`);
+  // Three-way merge inline platform edits with common changes when the last synced version is known
+  const unmergedSkills: OutOfSyncSkill[] = [];
+  const conflictingMerges: SkillMerge[] = [];
+  for (const skill of outOfSyncSkills) {
+    const isOnlyCopy = outOfSyncSkills.filter(other => other.skillName === skill.skillName).length === 1;
+    const merge = isOnlyCopy ? await mergeSkill(baseDir, skill) : null;
+    if (!merge) {
+      unmergedSkills.push(skill);
+    } else if (hasMergeConflicts(merge)) {
+      conflictingMerges.push(merge);
+    } else {
+      await applySkillMerge(merge, 'theirs');
+      logger.log(`Merged ${skill.platform} and common changes for ${skill.skillName}`);
+    }
+  }
+
+  if (conflictingMerges.length > 0) {
+    for (const { skill } of conflictingMerges) {
+      reportDetected({ kind: 'out-of-sync', skillName: skill.skillName, platforms: [skill.platform] });
+    }
+    if (failOnConflict && !outOfSyncStrategy) {
+      throw new Error(`Merge conflicts detected in: ${conflictingMerges.map(merge => merge.skill.skillName).join(', ')}`);
+    }
+
+    for (const merge of conflictingMerges) {
+      const resolution = await resolveMergeConflict(merge, undefined, outOfSyncStrategy);
+      if (resolution.action === 'abort') {
+        throw new Error('Sync aborted');
+      }
+
+      const { skill } = merge;
+      reportConflict({ kind: 'out-of-sync', skillName: skill.skillName, platforms: [skill.platform], resolution: resolution.action });
+      if (resolution.action === 'markers') {
+        await applySkillMerge(merge, 'markers');
+        logger.log(`Wrote conflict markers to ${skill.platformPath}; resolve them and run sync-skills again`);
+      } else {
+        await applySkillMerge(merge, resolution.action === 'keep-platform' ? 'ours' : 'theirs');
+        logger.log(`Merged ${skill.platform} and common changes for ${skill.skillName}`);
+      }
     }
+  }
 
+  if (unmergedSkills.length > 0) {
     const outOfSyncBySkill = new Map<string, OutOfSyncSkill[]>();
-    for (const skill of outOfSyncSkills) {
+    for (const skill of unmergedSkills) {
       const group = outOfSyncBySkill.get(skill.skillName) || [];
       group.push(skill);
       outOfSyncBySkill.set(skill.skillName, group);
     }
+    for (const [skillName, group] of outOfSyncBySkill.entries()) {
+      reportDetected({ kind: 'out-of-sync', skillName, platforms: group.map(skill => skill.platform) });
+    }
+
+    if (failOnConflict && !outOfSyncStrategy) {
+      throw new Error(`Out-of-sync skills detected: ${[...outOfSyncBySkill.keys()].join(', ')}`);
+    }
 
     for (const [skillName, group] of outOfSyncBySkill.entries()) {
       const isMultiPlatform = group.length > 1;
@@ -149,20 +939,29 @@ export async function run(options: RunOptions = {}): Promise<void> {
       const promptSkill: OutOfSyncSkill = {
         ...representative,
         platform: isMultiPlatform ? 'multiple' : representative.platform,
-        allowKeepPlatform: !isMultiPlatform
+        allowKeepPlatform: !isMultiPlatform,
+        manualMerge: isMultiPlatform || outOfSyncStrategy
+          ? undefined
+          : await prepareOutOfSyncMerge(baseDir, representative, await getMergeTool())
       };
 
       const resolution = isMultiPlatform
-        ? await resolveOutOfSyncSkill(promptSkill)
-        : (await resolveOutOfSyncSkills([promptSkill]))[0];
+        ? await resolveOutOfSyncSkill(promptSkill, undefined, outOfSyncStrategy)
+        : (await resolveOutOfSyncSkills([promptSkill], undefined, outOfSyncStrategy))[0];
 
       if (resolution.action === 'abort') {
         throw new Error('Sync aborted');
       }
+      reportConflict({
+        kind: 'out-of-sync',
+        skillName,
+        platforms: group.map(skill => skill.platform),
+        resolution: resolution.action
+      });
 
       const commonSkill = common.find(c => c.skillName === skillName);
       if (!commonSkill) {
-        console.warn(`Warning: Common skill not found for ${skillName}`);
+        logger.warn(`Warning: Common skill not found for ${skillName}`);
         continue;
       }
 
@@ -204,7 +1003,9 @@ export async function run(options: RunOptions = {}): Promise<void> {
             ...(platformCore.metadata as Record<string, unknown> || {}),
             sync: {
               ...(commonSync?.version !== undefined ? { version: commonSync.version } : {}),
-              hash: newHash
+              hash: newHash,
+              ...(commonSync?.files !== undefined ? { files: commonSync.files } : {}),
+              ...readSkillTargets(commonParsed.data as Record<string, unknown>)
             }
           }
         };
@@ -212,11 +1013,11 @@ export async function run(options: RunOptions = {}): Promise<void> {
         const newCommonContent = matter.stringify(nextBody, newCommonFrontmatter);
         await fs.writeFile(commonSkill.path, newCommonContent);
 
-        console.log(`Applied ${representative.platform} changes to common skill: ${skillName}`);
+        logger.log(`Applied ${representative.platform} changes to common skill: ${skillName}`);
 
         // Propagate updated common skill frontmatter to all platforms
         const platformPaths: string[] = [];
-        for (const config of activeConfigs) {
+        for (const config of targetedConfigs(skillName)) {
           const platformSkillPath = join(baseDir, config.skillsDir, skillName, 'SKILL.md');
           try {
             await fs.access(platformSkillPath);
@@ -229,7 +1030,7 @@ export async function run(options: RunOptions = {}): Promise<void> {
         if (platformPaths.length > 0) {
           if (usePlatformBody) {
             for (const platformPath of platformPaths) {
-              await writePlatformReference(platformPath, commonSkill.path);
+              await writeReference(platformPath, commonSkill.path);
             }
           } else {
             await propagateFrontmatter(commonSkill.path, platformPaths, {
@@ -238,45 +1039,50 @@ export async function run(options: RunOptions = {}): Promise<void> {
             });
           }
         }
+      } else if (resolution.action === 'use-merged' && resolution.content !== undefined) {
+        // Merged by hand - write the result to common and point every platform at it
+        await writeMergedSkill(commonSkill.path, resolution.content);
+        logger.log(`Applied merged version of ${skillName} to common skill`);
+
+        for (const config of targetedConfigs(skillName)) {
+          const platformSkillPath = join(baseDir, config.skillsDir, skillName, 'SKILL.md');
+          try {
+            await fs.access(platformSkillPath);
+          } catch {
+            continue;
+          }
+          await writeReference(platformSkillPath, commonSkill.path);
+        }
       } else if (resolution.action === 'keep-common') {
         // Keep common version - overwrite platform(s) with @ reference
         const targets = isMultiPlatform ? group : [representative];
         for (const target of targets) {
-          console.log(`Kept common version for ${skillName} (discarding ${target.platform} changes)`);
-          await writePlatformReference(target.platformPath, commonSkill.path);
+          logger.log(`Kept common version for ${skillName} (discarding ${target.platform} changes)`);
+          await writeReference(target.platformPath, commonSkill.path);
         }
       }
     }
   }
 
-  // Phase 4: Detect and resolve conflicts (between first two platforms for now)
-  const platformNames = Object.keys(platforms);
-  const platformA = platformNames[0] || 'claude';
-  const platformB = platformNames[1] || 'codex';
-  const conflicts = await detectConflicts(
-    platforms[platformA] || [],
-    platforms[platformB] || [],
-    platformA,
-    platformB
-  );
+  // Phase 4: Detect and resolve conflicts across all enabled platforms
+  beginPhase('conflicts');
+  const conflicts = await detectConflicts(platforms);
 
   if (conflicts.length > 0) {
-    if (failOnConflict) {
+    for (const conflict of conflicts) {
+      reportDetected({ kind: 'platform', skillName: conflict.skillName, platforms: conflictPlatforms(conflict) });
+    }
+    if (failOnConflict && !platformStrategy) {
       throw new Error(`Conflict detected in: ${conflicts.map(c => c.skillName).join(', ')}`);
     }
 
     // Interactive resolution
-  for (const conflict of conflicts) {
+    for (const conflict of conflicts) {
       const commonSkill = common.find(c => c.skillName === conflict.skillName);
-      let allowUseA = true;
-      let allowUseB = true;
+      const variants = conflict.variants ?? [];
+      let allowVariants = variants.map(() => true);
 
-      if (
-        commonSkill &&
-        conflict.conflictType === 'content' &&
-        conflict.contentA &&
-        conflict.contentB
-      ) {
+      if (commonSkill && conflict.conflictType === 'content') {
         const commonContent = await fs.readFile(commonSkill.path, 'utf8');
         const commonParsed = matter(commonContent);
         const commonMetadata =
@@ -314,44 +1120,86 @@ export async function run(options: RunOptions = {}): Promise<void> {
           return sync.hash === commonHash;
         };
 
-        const syncedA = isSyncedToCommon(conflict.contentA, conflict.pathA);
-        const syncedB = isSyncedToCommon(conflict.contentB, conflict.pathB);
-
-        if (syncedA !== syncedB) {
-          allowUseA = !syncedA;
-          allowUseB = !syncedB;
+        // When some versions are still synced to common and others diverged, only offer the diverged ones
+        const synced = variants.map(variant => isSyncedToCommon(variant.content, variant.paths[0]));
+        if (synced.some(Boolean) && !synced.every(Boolean)) {
+          allowVariants = synced.map(isSynced => !isSynced);
         }
       }
 
+      const mergeable = conflict.conflictType === 'content' && !platformStrategy;
+      const manualMerge = mergeable && variants.length === 2
+        ? prepareConflictMerge(
+          [variants[0], variants[1]],
+          commonSkill ? await fs.readFile(commonSkill.path, 'utf8') : null,
+          await getMergeTool()
+        )
+        : undefined;
+
       const resolution = await resolveConflict(conflict, undefined, {
-        allowUseA,
-        allowUseB,
-        allowUseCommon: Boolean(commonSkill)
+        allowVariants,
+        allowUseCommon: Boolean(commonSkill),
+        strategy: platformStrategy,
+        manualMerge,
+        // A merge has two sides; with more versions, one has to win or all but two be made to match first
+        manualMergeUnavailable: mergeable && variants.length > 2
+          ? `merges two versions, ${variants.length} differ: use one, or keep all and make all but two match`
+          : undefined
       });
 
       if (resolution.action === 'abort') {
         throw new Error('Sync aborted');
       }
 
-      if (resolution.action === 'use-a') {
-        await copySkill(conflict.pathA, conflict.pathB);
-      } else if (resolution.action === 'use-b') {
-        await copySkill(conflict.pathB, conflict.pathA);
+      const allPaths = variants.flatMap(variant => variant.paths);
+      const winnerIndex =
+        resolution.action === 'use-a' ? 0 :
+        resolution.action === 'use-b' ? 1 :
+        resolution.action === 'use-variant' ? resolution.variant :
+        undefined;
+      const winner = winnerIndex !== undefined ? variants[winnerIndex] : undefined;
+      reportConflict({
+        kind: 'platform',
+        skillName: conflict.skillName,
+        platforms: conflictPlatforms(conflict),
+        resolution: winner ? 'use-platform' : resolution.action,
+        ...(winner ? { winners: winner.platforms } : {})
+      });
+
+      if (winner) {
+        // One winner for the whole group: overwrite every holder of another version
+        for (const [index, variant] of variants.entries()) {
+          if (index === winnerIndex) {
+            continue;
+          }
+          for (const path of variant.paths) {
+            await copySkill(winner.paths[0], path);
+          }
+        }
       } else if (resolution.action === 'use-common' && commonSkill) {
-        await writePlatformReference(conflict.pathA, commonSkill.path);
-        await writePlatformReference(conflict.pathB, commonSkill.path);
+        for (const path of allPaths) {
+          await writeReference(path, commonSkill.path);
+        }
+      } else if (resolution.action === 'use-merged' && resolution.content !== undefined) {
+        const mergedPath = join(baseDir, commonSkillsDir(), conflict.skillName, 'SKILL.md');
+        await writeMergedSkill(mergedPath, resolution.content);
+        logger.log(`Applied merged version of ${conflict.skillName} to common skill`);
+        for (const path of allPaths) {
+          await writeReference(path, mergedPath);
+        }
       }
 
-      // Propagate frontmatter from common to both targets after conflict resolution
-      const commonPath = join(baseDir, '.agents-common/skills', conflict.skillName, 'SKILL.md');
-      await propagateFrontmatter(commonPath, [conflict.pathA, conflict.pathB], { failOnConflict });
+      // Propagate frontmatter from common to every holder after conflict resolution
+      const commonPath = join(baseDir, commonSkillsDir(), conflict.skillName, 'SKILL.md');
+      await propagateFrontmatter(commonPath, allPaths, frontmatterOptions);
     }
   }
 
   // Phase 5: Propagate frontmatter from common skills to all platforms
+  beginPhase('frontmatter');
   for (const commonSkill of common) {
     const targetPaths: string[] = [];
-    for (const config of activeConfigs) {
+    for (const config of targetedConfigs(commonSkill.skillName)) {
       const platformSkillPath = join(baseDir, config.skillsDir, commonSkill.skillName, 'SKILL.md');
       try {
         await fs.access(platformSkillPath);
@@ -362,14 +1210,15 @@ export async function run(options: RunOptions = {}): Promise<void> {
     }
 
     if (targetPaths.length > 0) {
-      await propagateFrontmatter(commonSkill.path, targetPaths, { failOnConflict });
+      await propagateFrontmatter(commonSkill.path, targetPaths, frontmatterOptions);
     }
   }
 
   // Phase 6: Sync dependent files
-  const commonSkillsPath = join(baseDir, '.agents-common/skills');
+  beginPhase('dependents');
+  const commonSkillsPath = join(baseDir, commonSkillsDir());
 
-  // Collect all skill names from all platforms
+  // Collect all skill names from all platforms and common
   const allSkillNames = new Set<string>();
   for (const state of activeStates) {
     if (state.hasSkills) {
@@ -378,23 +1227,54 @@ export async function run(options: RunOptions = {}): Promise<void> {
       }
     }
   }
+  for (const skill of common) {
+    allSkillNames.add(skill.skillName);
+  }
 
   // Process each skill's dependent files
   for (const skillName of allSkillNames) {
     // Collect platform paths for enabled assistants
-    const platformPaths = activeConfigs.map((config): { name: string; path: string } => ({
+    const platformPaths = targetedConfigs(skillName).map((config): { name: string; path: string } => ({
       name: config.name,
       path: join(baseDir, config.skillsDir)
     }));
 
     // Collect dependent files from all platforms
     const platformFiles = await collectDependentFilesFromPlatforms(skillName, platformPaths);
+    const commonSkillPath = join(commonSkillsPath, skillName);
+    const commonFilePath = join(commonSkillPath, 'SKILL.md');
+    const trackedFiles = await readTrackedFiles(commonFilePath);
+    const hasCommonSkill = common.some(skill => skill.skillName === skillName);
 
-    if (platformFiles.size === 0) {
-      // No dependent files to sync
+    if (platformFiles.size === 0 && !trackedFiles && !hasCommonSkill) {
+      // No dependent files to sync, and no hash to check
       continue;
     }
 
+    // Platform copies of files deleted from common are removed (or restored), never consolidated back
+    const deletedDependents = trackedFiles
+      ? await detectDeletedDependents(skillName, commonSkillPath, trackedFiles, platformFiles)
+      : [];
+    const dependentDeletions = await resolveDeletionsOf(deletedDependents);
+    for (const [index, { relativePath = '' }] of deletedDependents.entries()) {
+      const { action } = dependentDeletions[index];
+      if (action === 'restore') {
+        continue;
+      }
+      for (const [platformName, files] of platformFiles.entries()) {
+        const kept = files.filter(file => file.relativePath !== relativePath);
+        const platformConfig = activeConfigs.find(c => c.name === platformName);
+        if (action === 'delete' && kept.length < files.length && platformConfig) {
+          await cleanupPlatformDependentFiles(join(baseDir, platformConfig.skillsDir), skillName, [relativePath]);
+        }
+        if (kept.length > 0) {
+          platformFiles.set(platformName, kept);
+        } else {
+          platformFiles.delete(platformName);
+        }
+      }
+    }
+
     // Consolidate dependent files to common (detects conflicts)
     const { conflicts, files: initialFiles } = await consolidateDependentsToCommon(
       skillName,
@@ -405,19 +1285,32 @@ export async function run(options: RunOptions = {}): Promise<void> {
     let finalFiles = initialFiles;
 
     // Resolve conflicts if any
+    const dependentConflict = (conflict: DependentConflict): DetectedConflict => ({
+      kind: 'dependent',
+      skillName,
+      platforms: [conflict.platform, ...(conflict.otherVersions ?? []).map(version => version.platform)],
+      path: relative(resolve(baseDir), join(commonSkillsPath, skillName, conflict.relativePath))
+    });
     if (conflicts.length > 0) {
-      if (failOnConflict) {
+      for (const conflict of conflicts) {
+        reportDetected(dependentConflict(conflict));
+      }
+      if (failOnConflict && !dependentStrategy) {
         throw new Error(`Dependent file conflict in: ${skillName}`);
       }
 
       // Interactive resolution
-      const resolutions = await resolveDependentConflicts(conflicts);
+      const resolutions = await resolveDependentConflicts(conflicts, undefined, dependentStrategy);
 
       // Check if user aborted
       const hasAbort = Array.from(resolutions.values()).some(r => r.action === 'abort');
       if (hasAbort) {
         throw new Error('Sync aborted');
       }
+      for (const conflict of conflicts) {
+        const resolution = resolutions.get(`${conflict.skillName}/${conflict.relativePath}`);
+        reportConflict({ ...dependentConflict(conflict), resolution: resolution?.action ?? 'skip' });
+      }
 
       // Apply resolutions and get final files
       const resolvedFiles = await applyConflictResolutions(conflicts, resolutions, commonSkillsPath);
@@ -428,13 +1321,6 @@ export async function run(options: RunOptions = {}): Promise<void> {
 
     // Recompute main hash with new dependent files and propagate to all platforms
     try {
-      // Skip hash recomputation if no dependent files (hash won't change)
-      if (finalFiles.length === 0) {
-        continue;
-      }
-
-      const commonSkillPath = join(commonSkillsPath, skillName);
-      const commonFilePath = join(commonSkillPath, 'SKILL.md');
       const commonContent = await fs.readFile(commonFilePath, 'utf8');
       const commonParsed = matter(commonContent);
 
@@ -445,28 +1331,32 @@ export async function run(options: RunOptions = {}): Promise<void> {
       const bodyContent = normalizeBodyContent(commonParsed.content);
 
       // Scan common folder for dependent files and compute their hashes
-      const dependentFiles: Array<{ path: string; hash: string }> = [];
-      for (const relativePath of finalFiles) {
-        const absolutePath = join(commonSkillPath, relativePath);
-        try {
-          const { computeFileHash } = await import('./dependents.js');
-          const hash = await computeFileHash(absolutePath);
-          dependentFiles.push({ path: relativePath, hash });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.warn(`Warning: Failed to compute hash for ${relativePath}: ${errorMessage}`);
-        }
-      }
+      const dependentFiles = (await detectDependentFiles(commonSkillPath))
+        .map(file => ({ path: file.relativePath, hash: file.hash }));
+      const files = dependentFiles.map(file => file.path).sort();
 
       // Recompute hash with new dependent files
       const newHash = computeSkillHash(coreFrontmatter, bodyContent, dependentFiles);
 
-      // Update hash in common file
-      await updateMainHash(commonFilePath, newHash);
+      // Nothing consolidated, no file added to or deleted from common, and nothing in it found edited since
+      // the last sync; hashes that can't be recomputed are left as they are
+      if (
+        finalFiles.length === 0 &&
+        files.join('\n') === [...trackedFiles ?? []].sort().join('\n') &&
+        await verifySkillHash(commonParsed.data, bodyContent, commonSkillPath) !== false
+      ) {
+        continue;
+      }
+      if (finalFiles.length > 0) {
+        onEvent?.({ type: 'dependent-consolidated', skillName, files: finalFiles });
+      }
+
+      // Update hash in common file, with the files it includes
+      await updateMainHash(commonFilePath, newHash, files.length > 0 || trackedFiles ? files : undefined);
 
       // Propagate to all enabled platforms
       const platformPaths: string[] = [];
-      for (const config of activeConfigs) {
+      for (const config of targetedConfigs(skillName)) {
         const platformSkillPath = join(baseDir, config.skillsDir, skillName, 'SKILL.md');
         try {
           await fs.access(platformSkillPath);
@@ -477,7 +1367,7 @@ export async function run(options: RunOptions = {}): Promise<void> {
       }
 
       if (platformPaths.length > 0) {
-        await propagateFrontmatter(commonFilePath, platformPaths, { failOnConflict });
+        await propagateFrontmatter(commonFilePath, platformPaths, frontmatterOptions);
       }
 
       // Clean up dependent files from platform folders
@@ -501,31 +1391,264 @@ export async function run(options: RunOptions = {}): Promise<void> {
               );
             } catch (error) {
               const errorMessage = error instanceof Error ? error.message : String(error);
-              console.warn(`Warning: Failed to cleanup ${platformConfig.name} dependent files for ${skillName}: ${errorMessage}`);
+              logger.warn(`Warning: Failed to cleanup ${platformConfig.name} dependent files for ${skillName}: ${errorMessage}`);
             }
           }
         }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Failed to recompute and propagate hash for ${skillName}: ${errorMessage}`);
+      logger.warn(`Warning: Failed to recompute and propagate hash for ${skillName}: ${errorMessage}`);
     }
   }
 
-  console.log('Sync complete');
+  await saveFrontmatterDecisions(decisions);
+
+  // Phase 7: Remember the synced version of each skill as the base for future three-way merges
+  beginPhase('sync-base');
+  ({ platforms, common } = await scan(activeConfigs));
+  await saveSyncBases(baseDir, common, Object.values(platforms).flat(), only ?? undefined);
+
+  const skillNames = new Set([...common, ...Object.values(platforms).flat()].map(skill => skill.skillName));
+  return [...skillNames];
 }
 
 /**
- * List all installed skills across platforms and common
+ * Platforms holding any version of a conflicting skill
  */
-async function listSkills(baseDir: string, homeMode: boolean): Promise<void> {
+function conflictPlatforms(conflict: Conflict): string[] {
+  return conflict.variants?.flatMap(variant => variant.platforms) ?? [conflict.platformA, conflict.platformB];
+}
+
+/**
+ * Migrate the config file to the current schema version, as a recorded run that can be undone
+ * @param dryRun - Only show the changes
+ */
+async function runConfigMigrate(baseDir: string, dryRun: boolean): Promise<void> {
+  let from: number | null;
+  if (dryRun) {
+    const overlay = new OverlayFileSystem();
+    const restore = useFileSystem(overlay);
+    try {
+      from = await migrateConfigFile(baseDir);
+    } finally {
+      restore();
+    }
+    logger.log(formatPlan(overlay.changes, baseDir));
+  } else {
+    from = await withTransaction(async journal => {
+      const version = await migrateConfigFile(baseDir);
+      await recordRun(baseDir, journal.journal, 'config migrate');
+      return version;
+    });
+    await pruneHistory(baseDir);
+  }
+
+  if (from === null) {
+    logger.log(`No ${inCommonDir(CONFIG_PATH)} to migrate`);
+  } else if (from === CONFIG_VERSION) {
+    logger.log(`${inCommonDir(CONFIG_PATH)} is already at version ${CONFIG_VERSION}`);
+  } else {
+    logger.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${inCommonDir(CONFIG_PATH)} from version ${from} to ${CONFIG_VERSION}`);
+  }
+}
+
+/**
+ * Move the common directory and rewrite the references to it, as a recorded run that can be undone
+ *
+ * The run is recorded in the history at the new location, which moved along.
+ * @param dryRun - Only show the changes
+ */
+async function runRelocateCommon(baseDir: string, homeMode: boolean, location: string, dryRun: boolean): Promise<void> {
+  const configs = getEnabledAssistants(await ensureConfig(baseDir), homeMode);
+  const from = getCommonDir();
+
+  if (dryRun) {
+    const overlay = new OverlayFileSystem();
+    const restore = useFileSystem(overlay);
+    try {
+      await relocateCommon(baseDir, configs, location);
+    } finally {
+      restore();
+    }
+    logger.log(formatPlan(overlay.changes, baseDir));
+    return;
+  }
+
+  const moved = await withTransaction(async journal => {
+    const result = await relocateCommon(baseDir, configs, location);
+    const restoreCommon = useCommonDir(result.commonDir);
+    try {
+      await recordRun(baseDir, journal.journal, 'relocate-common');
+    } finally {
+      restoreCommon();
+    }
+    return result;
+  });
+  const restoreCommon = useCommonDir(moved.commonDir);
+  try {
+    await pruneHistory(baseDir);
+  } finally {
+    restoreCommon();
+  }
+  logger.log(`Moved ${from} to ${moved.commonDir} (${moved.references} reference(s) rewritten)`);
+}
+
+/**
+ * Rename a skill in common and every enabled assistant, as a recorded run that can be undone
+ * @param dryRun - Only show the changes
+ */
+async function runRename(baseDir: string, homeMode: boolean, from: string, to: string, dryRun: boolean): Promise<void> {
+  const configs = getEnabledAssistants(await ensureConfig(baseDir), homeMode);
+
+  if (dryRun) {
+    const overlay = new OverlayFileSystem();
+    const restore = useFileSystem(overlay);
+    try {
+      await renameSkill(baseDir, configs, from, to);
+    } finally {
+      restore();
+    }
+    logger.log(formatPlan(overlay.changes, baseDir));
+    return;
+  }
+
+  const renamed = await withTransaction(async journal => {
+    const sites = await renameSkill(baseDir, configs, from, to);
+    await recordRun(baseDir, journal.journal, 'rename');
+    return sites;
+  });
+  await pruneHistory(baseDir);
+  logger.log(`Renamed ${from} to ${to} in ${renamed.map(site => site.platform).join(', ')}`);
+}
+
+/**
+ * Create a skill in common and reference it from every enabled assistant,
+ * as a recorded run that can be undone
+ * @param dryRun - Only show the changes
+ */
+async function runNew(baseDir: string, homeMode: boolean, newSkill: NewSkillOptions, dryRun: boolean): Promise<void> {
+  const config = await ensureConfig(baseDir);
+  const configs = getEnabledAssistants(config, homeMode);
+  const description = newSkill.description ?? await askSkillDescription(newSkill.name);
+  const create = async () => {
+    const path = await createSkill(baseDir, configs, { ...newSkill, description });
+    // The template may limit the assistants the skill goes to, as may the config
+    const skill = { path, skillName: newSkill.name };
+    await syncCommonOnlySkills(baseDir, [skill], configs, new Set(), () => {}, await loadTargetFilter(config.targets, [skill]));
+    return path;
+  };
+
+  if (dryRun) {
+    const overlay = new OverlayFileSystem();
+    const restore = useFileSystem(overlay);
+    try {
+      await create();
+    } finally {
+      restore();
+    }
+    logger.log(formatPlan(overlay.changes, baseDir));
+    return;
+  }
+
+  const path = await withTransaction(async journal => {
+    const commonPath = await create();
+    await recordRun(baseDir, journal.journal, 'new');
+    return commonPath;
+  });
+  await pruneHistory(baseDir);
+  logger.log(`Created ${relative(resolve(baseDir), path)}`);
+}
+
+/**
+ * Report dangling @ references in every assistant folder and repair them one by one,
+ * as a recorded run that can be undone
+ * @param dryRun - Only report them
+ */
+async function runDoctor(baseDir: string, homeMode: boolean, dryRun: boolean): Promise<void> {
+  const configs = getAssistantConfigs(undefined, homeMode);
+  const dangling = await findDanglingReferences(baseDir, configs);
+  if (dangling.length === 0) {
+    logger.log('No dangling references found');
+    return;
+  }
+  logger.log(formatDanglingReferences(dangling, baseDir));
+  if (dryRun) {
+    return;
+  }
+
+  const repaired = await withTransaction(async journal => {
+    // Look again after each repair: recreating a common skill can fix other references
+    const seen = new Set<string>();
+    let count = 0;
+    for (;;) {
+      const reference = (await findDanglingReferences(baseDir, configs)).find(candidate => !seen.has(candidate.path));
+      if (!reference) {
+        break;
+      }
+      seen.add(reference.path);
+      const resolution = await resolveDanglingReference(reference);
+      if (resolution.action === 'abort') {
+        throw new Error('Doctor aborted');
+      }
+      await repairDanglingReference(reference, resolution);
+      if (resolution.action !== 'keep') {
+        count++;
+      }
+    }
+    await recordRun(baseDir, journal.journal, 'doctor');
+    return count;
+  });
+  await pruneHistory(baseDir);
+  logger.log(`Repaired ${repaired} reference(s)`);
+}
+
+/**
+ * Print recorded runs, most recent first
+ */
+async function showHistory(baseDir: string, keep?: number): Promise<void> {
+  if (keep !== undefined) {
+    const removed = await pruneHistory(baseDir, keep);
+    logger.log(`Pruned ${removed.length} run(s)`);
+  }
+
+  const runs = await listRuns(baseDir);
+  if (runs.length === 0) {
+    logger.log('No runs recorded.');
+    return;
+  }
+
+  logger.log('Recorded runs (most recent first):');
+  logger.log('');
+  for (const run of runs) {
+    const files = run.entries.filter(entry => entry.action !== 'mkdir' && entry.action !== 'rmdir');
+    const created = files.filter(entry => entry.action === 'created').length;
+    const modified = files.filter(entry => entry.action === 'modified').length;
+    const deleted = files.filter(entry => entry.action === 'deleted').length;
+    logger.log(
+      `${run.id.padEnd(26)} ${run.command.padEnd(6)} ` +
+      `${created} created, ${modified} modified, ${deleted} deleted`
+    );
+  }
+}
+
+/**
+ * List installed skills across platforms and common
+ * @param options - Run options (only baseDir and homeMode are used)
+ * @returns Skills sorted by name, with the sites that have them
+ */
+export async function listInstalledSkills(options: RunOptions = {}): Promise<ListedSkill[]> {
+  const { baseDir = process.cwd(), homeMode = false } = options;
+  return withRunContext(options, () => collectInstalledSkills(resolveBaseDir(baseDir, homeMode), homeMode));
+}
+
+/**
+ * Group installed skills across platforms and common
+ */
+async function collectInstalledSkills(baseDir: string, homeMode: boolean): Promise<ListedSkill[]> {
   const { platforms, common } = await scanSkills(baseDir, getAssistantConfigs(undefined, homeMode));
 
-  const groupedSkills = new Map<string, {
-    name: string;
-    description: string;
-    sites: string[];
-  }>();
+  const groupedSkills = new Map<string, ListedSkill>();
 
   const processSkill = async (skill: WalkDirResult, site: string) => {
     try {
@@ -565,7 +1688,7 @@ async function listSkills(baseDir: string, homeMode: boolean): Promise<void> {
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(`Warning: Failed to process skill at ${skill.path}: ${errorMessage}`);
+      logger.warn(`Warning: Failed to process skill at ${skill.path}: ${errorMessage}`);
     }
   };
 
@@ -586,16 +1709,6 @@ async function listSkills(baseDir: string, homeMode: boolean): Promise<void> {
   // Sort by name
   allSkills.sort((a, b) => a.name.localeCompare(b.name));
 
-  if (allSkills.length === 0) {
-    console.log('No skills found.');
-    return;
-  }
-
-  console.log('Installed skills:');
-  console.log('');
-
-  const nameWidth = Math.max(20, ...allSkills.map(s => s.name.length));
-
   for (const s of allSkills) {
     // Sort sites: common first, then alphabetical
     s.sites.sort((a, b) => {
@@ -603,9 +1716,30 @@ async function listSkills(baseDir: string, homeMode: boolean): Promise<void> {
       if (b === 'common') return 1;
       return a.localeCompare(b);
     });
+  }
 
+  return allSkills;
+}
+
+/**
+ * List all installed skills across platforms and common
+ */
+async function listSkills(baseDir: string, homeMode: boolean): Promise<void> {
+  const allSkills = await collectInstalledSkills(baseDir, homeMode);
+
+  if (allSkills.length === 0) {
+    logger.log('No skills found.');
+    return;
+  }
+
+  logger.log('Installed skills:');
+  logger.log('');
+
+  const nameWidth = Math.max(20, ...allSkills.map(s => s.name.length));
+
+  for (const s of allSkills) {
     const sitesStr = `[${s.sites.join(', ')}]`;
     const desc = s.description ? ` - ${s.description}` : '';
-    console.log(`${s.name.padEnd(nameWidth)} ${sitesStr}${desc}`);
+    logger.log(`${s.name.padEnd(nameWidth)} ${sitesStr}${desc}`);
   }
 }
@@ -0,0 +1,134 @@
+import { createReadStream, promises as nodeFs } from 'fs';
+import { createSetting } from './context.js';
+
+/**
+ * Minimal directory entry shape shared by the disk and virtual file systems
+ */
+export interface DirEntry {
+  name: string;
+  isDirectory(): boolean;
+  isFile(): boolean;
+}
+
+/**
+ * File metadata shared by the disk and virtual file systems
+ */
+export interface FileStat {
+  /** Last modification time in milliseconds since the epoch */
+  mtimeMs: number;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * Subset of fs.promises used by sync-skills
+ *
+ * Every module reads and writes through `fs` below so that alternative
+ * implementations (e.g. the dry-run overlay in plan.ts) can be swapped in.
+ */
+export interface FileSystem {
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  /** Read a file in chunks, without holding all of it in memory */
+  readStream(path: string): AsyncIterable<Buffer>;
+  writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>;
+  copyFile(source: string, target: string): Promise<void>;
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+  unlink(path: string): Promise<void>;
+  rmdir(path: string): Promise<void>;
+  access(path: string): Promise<void>;
+  stat(path: string): Promise<FileStat>;
+  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+}
+
+/**
+ * File system backed by the real disk
+ */
+export class DiskFileSystem implements FileSystem {
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    return encoding ? nodeFs.readFile(path, encoding) : nodeFs.readFile(path);
+  }
+
+  readStream(path: string): AsyncIterable<Buffer> {
+    return createReadStream(path);
+  }
+
+  async writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+    await nodeFs.writeFile(path, data, encoding);
+  }
+
+  async copyFile(source: string, target: string): Promise<void> {
+    await nodeFs.copyFile(source, target);
+  }
+
+  async mkdir(path: string, options?: { recursive?: boolean }): Promise<void> {
+    await nodeFs.mkdir(path, options);
+  }
+
+  async unlink(path: string): Promise<void> {
+    await nodeFs.unlink(path);
+  }
+
+  async rmdir(path: string): Promise<void> {
+    await nodeFs.rmdir(path);
+  }
+
+  async access(path: string): Promise<void> {
+    await nodeFs.access(path);
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    const { mtimeMs, size } = await nodeFs.stat(path);
+    return { mtimeMs, size };
+  }
+
+  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+  async readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+    return options?.withFileTypes
+      ? nodeFs.readdir(path, { withFileTypes: true })
+      : nodeFs.readdir(path);
+  }
+}
+
+const activeFileSystem = createSetting<FileSystem>(new DiskFileSystem());
+
+/**
+ * Replace the active file system
+ * @param fileSystem - Implementation to route all reads and writes through
+ * @returns Function restoring the previously active file system
+ */
+export function useFileSystem(fileSystem: FileSystem): () => void {
+  return activeFileSystem.use(fileSystem);
+}
+
+function readFile(path: string): Promise<Buffer>;
+function readFile(path: string, encoding: BufferEncoding): Promise<string>;
+function readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+  return encoding ? activeFileSystem.get().readFile(path, encoding) : activeFileSystem.get().readFile(path);
+}
+
+function readdir(path: string): Promise<string[]>;
+function readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+function readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+  return options?.withFileTypes ? activeFileSystem.get().readdir(path, options) : activeFileSystem.get().readdir(path);
+}
+
+/**
+ * File system facade delegating to the active implementation
+ */
+export const fs: FileSystem = {
+  readFile,
+  readStream: path => activeFileSystem.get().readStream(path),
+  writeFile: (path, data, encoding) => activeFileSystem.get().writeFile(path, data, encoding),
+  copyFile: (source, target) => activeFileSystem.get().copyFile(source, target),
+  mkdir: (path, options) => activeFileSystem.get().mkdir(path, options),
+  unlink: path => activeFileSystem.get().unlink(path),
+  rmdir: path => activeFileSystem.get().rmdir(path),
+  access: path => activeFileSystem.get().access(path),
+  stat: path => activeFileSystem.get().stat(path),
+  readdir
+};
@@ -0,0 +1,183 @@
+import { dirname, resolve } from 'path';
+import { DiskFileSystem, useFileSystem } from './io.js';
+import { logger } from './ui.js';
+import type { DirEntry, FileStat, FileSystem } from './io.js';
+
+/**
+ * Original state of a path touched during a run
+ */
+export type JournalEntry =
+  | { kind: 'file'; path: string; original: Buffer | null }
+  | { kind: 'mkdir'; path: string }
+  | { kind: 'rmdir'; path: string };
+
+/**
+ * Disk file system that journals the original state of every path it modifies
+ *
+ * Files are snapshotted the first time they are written or deleted, and created
+ * or removed directories are remembered, so `rollback` can put the tree back
+ * exactly as it was before the run.
+ */
+export class JournalFileSystem implements FileSystem {
+  private readonly disk = new DiskFileSystem();
+  private entries: JournalEntry[] = [];
+  private journaled = new Set<string>();
+
+  /**
+   * Entries recorded since the last commit, in execution order
+   */
+  get journal(): readonly JournalEntry[] {
+    return this.entries;
+  }
+
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    return encoding ? this.disk.readFile(path, encoding) : this.disk.readFile(path);
+  }
+
+  readStream(path: string): AsyncIterable<Buffer> {
+    return this.disk.readStream(path);
+  }
+
+  async writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+    await this.snapshot(path);
+    await this.disk.writeFile(path, data, encoding);
+  }
+
+  async copyFile(source: string, target: string): Promise<void> {
+    await this.snapshot(target);
+    await this.disk.copyFile(source, target);
+  }
+
+  async mkdir(path: string, options?: { recursive?: boolean }): Promise<void> {
+    // Record every directory level that doesn't exist yet, outermost first
+    const missing: string[] = [];
+    let current = resolve(path);
+    while (current !== dirname(current) && !(await this.exists(current))) {
+      missing.unshift(current);
+      current = dirname(current);
+    }
+
+    await this.disk.mkdir(path, options);
+
+    for (const dir of missing) {
+      this.entries.push({ kind: 'mkdir', path: dir });
+    }
+  }
+
+  async unlink(path: string): Promise<void> {
+    await this.snapshot(path);
+    await this.disk.unlink(path);
+  }
+
+  async rmdir(path: string): Promise<void> {
+    await this.disk.rmdir(path);
+    this.entries.push({ kind: 'rmdir', path: resolve(path) });
+  }
+
+  async access(path: string): Promise<void> {
+    await this.disk.access(path);
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    return this.disk.stat(path);
+  }
+
+  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+  async readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+    return options?.withFileTypes ? this.disk.readdir(path, options) : this.disk.readdir(path);
+  }
+
+  /**
+   * Accept all changes made so far and clear the journal
+   */
+  commit(): void {
+    this.entries = [];
+    this.journaled = new Set();
+  }
+
+  /**
+   * Undo every journaled change in reverse order
+   * @returns Number of files restored or removed
+   */
+  async rollback(): Promise<number> {
+    let restored = 0;
+
+    for (const entry of [...this.entries].reverse()) {
+      try {
+        if (entry.kind === 'file') {
+          if (entry.original) {
+            await this.disk.mkdir(dirname(entry.path), { recursive: true });
+            await this.disk.writeFile(entry.path, entry.original);
+          } else if (await this.exists(entry.path)) {
+            await this.disk.unlink(entry.path);
+          }
+          restored++;
+        } else if (entry.kind === 'mkdir') {
+          await this.disk.rmdir(entry.path);
+        } else {
+          await this.disk.mkdir(entry.path, { recursive: true });
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`Warning: Could not restore ${entry.path}: ${errorMessage}`);
+      }
+    }
+
+    this.commit();
+    return restored;
+  }
+
+  private async snapshot(path: string): Promise<void> {
+    const absPath = resolve(path);
+    if (this.journaled.has(absPath)) {
+      return;
+    }
+
+    let original: Buffer | null = null;
+    try {
+      original = await this.disk.readFile(absPath);
+    } catch {
+      // File doesn't exist yet
+    }
+
+    this.journaled.add(absPath);
+    this.entries.push({ kind: 'file', path: absPath, original });
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await this.disk.access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Run an operation with all file writes journaled, rolling back on failure
+ * @param operation - Work to perform against the journaled file system
+ * @returns The operation's result
+ * @throws The operation's error, after the tree has been restored
+ */
+export async function withTransaction<T>(operation: (journal: JournalFileSystem) => Promise<T>): Promise<T> {
+  const journal = new JournalFileSystem();
+  const restore = useFileSystem(journal);
+
+  try {
+    const result = await operation(journal);
+    journal.commit();
+    return result;
+  } catch (error) {
+    const restored = await journal.rollback();
+    if (restored > 0) {
+      logger.warn(`Sync did not complete: restored ${restored} file(s) to their previous state`);
+    }
+    throw error;
+  } finally {
+    restore();
+  }
+}
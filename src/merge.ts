@@ -0,0 +1,474 @@
+import { fs } from './io.js';
+import { join, dirname } from 'path';
+import { isDeepStrictEqual } from 'util';
+import matter from 'gray-matter';
+import { diffArrays } from 'diff';
+import { normalizeBodyContent, pickCoreFrontmatter } from './frontmatter.js';
+import { computeSkillHash, SYNC_METADATA_VERSION, writePlatformReference } from './syncer.js';
+import { detectDependentFiles } from './dependents.js';
+import { inCommonDir } from './common.js';
+import { readSkillTargets } from './targets.js';
+import type { MergeChunk, OutOfSyncSkill, SkillFile, SkillMerge, SyncBase } from './types.js';
+
+/** Stored sync bases, one folder per skill */
+export const SYNC_BASE_PATH = '.agents-common/.sync-base';
+
+interface Hunk {
+  /** First replaced base line */
+  start: number;
+  /** End of the replaced base range (exclusive) */
+  end: number;
+  /** Replacement lines */
+  lines: string[];
+  /** Side the hunk comes from */
+  side: 'ours' | 'theirs';
+}
+
+/**
+ * Collect the regions where a side differs from the base
+ */
+function diffHunks(base: string[], side: string[], name: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | null = null;
+
+  for (const part of diffArrays(base, side)) {
+    if (!part.added && !part.removed) {
+      current = null;
+      baseIndex += part.count ?? part.value.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, lines: [], side: name };
+      hunks.push(current);
+    }
+
+    if (part.removed) {
+      baseIndex += part.count ?? part.value.length;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply one side's hunks to a base range
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Line-based three-way merge
+ *
+ * Edits made on only one side are applied, identical edits on both sides are
+ * applied once, and overlapping (or adjacent) edits that differ become conflicts.
+ * @param base - Last synced text both sides started from
+ * @param ours - Platform text
+ * @param theirs - Common text
+ * @returns Merged and conflicting regions in order
+ */
+export function mergeLines(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = base.split('\n');
+  const hunks = [
+    ...diffHunks(baseLines, ours.split('\n'), 'ours'),
+    ...diffHunks(baseLines, theirs.split('\n'), 'theirs')
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  const pushMerged = (lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === 'merged') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ kind: 'merged', lines: [...lines] });
+    }
+  };
+
+  let position = 0;
+  let index = 0;
+  while (index < hunks.length) {
+    // Group hunks whose base ranges overlap or touch
+    const group = [hunks[index]];
+    const start = hunks[index].start;
+    let end = hunks[index].end;
+    index++;
+    while (index < hunks.length && hunks[index].start <= end) {
+      group.push(hunks[index]);
+      end = Math.max(end, hunks[index].end);
+      index++;
+    }
+
+    pushMerged(baseLines.slice(position, start));
+
+    const ourHunks = group.filter(hunk => hunk.side === 'ours');
+    const theirHunks = group.filter(hunk => hunk.side === 'theirs');
+    const ourLines = applyHunks(baseLines, start, end, ourHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (theirHunks.length === 0) {
+      pushMerged(ourLines);
+    } else if (ourHunks.length === 0 || isDeepStrictEqual(ourLines, theirLines)) {
+      pushMerged(theirLines);
+    } else {
+      chunks.push({
+        kind: 'conflict',
+        base: baseLines.slice(start, end),
+        ours: ourLines,
+        theirs: theirLines
+      });
+    }
+
+    position = end;
+  }
+
+  pushMerged(baseLines.slice(position));
+  return chunks;
+}
+
+/**
+ * Render merged regions as text
+ * @param chunks - Result of mergeLines
+ * @param resolution - Side to take for conflicts, or 'markers' to write git-style conflict markers
+ * @param labels - Names shown on the conflict markers
+ */
+export function renderMerge(
+  chunks: MergeChunk[],
+  resolution: 'ours' | 'theirs' | 'markers',
+  labels: { ours: string; theirs: string } = { ours: 'platform', theirs: 'common' }
+): string {
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.kind === 'merged') {
+      lines.push(...chunk.lines);
+    } else if (resolution === 'ours') {
+      lines.push(...chunk.ours);
+    } else if (resolution === 'theirs') {
+      lines.push(...chunk.theirs);
+    } else {
+      lines.push(`<<<<<<< ${labels.ours}`, ...chunk.ours, '=======', ...chunk.theirs, `>>>>>>> ${labels.theirs}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function getSyncMetadata(data: Record<string, unknown>): Record<string, unknown> | undefined {
+  const metadata =
+    data?.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? data.metadata as Record<string, unknown>
+      : undefined;
+  return metadata?.sync && typeof metadata.sync === 'object' && !Array.isArray(metadata.sync)
+    ? metadata.sync as Record<string, unknown>
+    : undefined;
+}
+
+/**
+ * Core frontmatter without tool-managed sync metadata
+ */
+function pickMergeableFrontmatter(data: Record<string, unknown>): Record<string, unknown> {
+  const core = pickCoreFrontmatter(data);
+  if (core.metadata && typeof core.metadata === 'object' && !Array.isArray(core.metadata)) {
+    const metadata = { ...(core.metadata as Record<string, unknown>) };
+    delete metadata.sync;
+    if (Object.keys(metadata).length === 0) {
+      delete core.metadata;
+    } else {
+      core.metadata = metadata;
+    }
+  }
+  return core;
+}
+
+function getSyncBasePath(baseDir: string, skillName: string, hash: string): string | null {
+  // Hashes come from editable frontmatter; never let them leave the base folder
+  if (!/^[\w-]+$/.test(hash)) {
+    return null;
+  }
+  return join(baseDir, inCommonDir(SYNC_BASE_PATH), skillName, `${hash}.json`);
+}
+
+/**
+ * Load the last synced version of a skill
+ * @param baseDir - Base directory of the sync
+ * @param skillName - Skill name
+ * @param hash - `metadata.sync.hash` the version was recorded under
+ * @returns The stored base, or null if none was recorded
+ */
+export async function loadSyncBase(baseDir: string, skillName: string, hash: string): Promise<SyncBase | null> {
+  const basePath = getSyncBasePath(baseDir, skillName, hash);
+  if (!basePath) {
+    return null;
+  }
+  try {
+    const content = await fs.readFile(basePath, 'utf-8');
+    return JSON.parse(content) as SyncBase;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the current version of every common skill as the base for future merges,
+ * and drop bases no longer referenced by common or any platform copy
+ * @param baseDir - Base directory of the sync
+ * @param common - Common skill files
+ * @param platformSkills - Platform skill files of all enabled assistants
+ * @param skillNames - Only prune the bases of these skills (default: every skill)
+ */
+export async function saveSyncBases(
+  baseDir: string,
+  common: SkillFile[],
+  platformSkills: SkillFile[],
+  skillNames?: Set<string>
+): Promise<void> {
+  const referencedHashes = new Map<string, Set<string>>();
+  const reference = (skillName: string, hash: unknown) => {
+    if (typeof hash !== 'string') {
+      return;
+    }
+    const hashes = referencedHashes.get(skillName) ?? new Set<string>();
+    hashes.add(hash);
+    referencedHashes.set(skillName, hashes);
+  };
+
+  for (const skill of platformSkills) {
+    try {
+      const parsed = matter(await fs.readFile(skill.path, 'utf8'));
+      reference(skill.skillName, getSyncMetadata(parsed.data)?.hash);
+    } catch {
+      // Unreadable platform skill, nothing to keep for it
+    }
+  }
+
+  for (const skill of common) {
+    const parsed = matter(await fs.readFile(skill.path, 'utf8'));
+    const hash = getSyncMetadata(parsed.data)?.hash;
+    if (typeof hash !== 'string') {
+      continue;
+    }
+    reference(skill.skillName, hash);
+
+    const basePath = getSyncBasePath(baseDir, skill.skillName, hash);
+    if (!basePath) {
+      continue;
+    }
+    try {
+      await fs.access(basePath);
+      continue;
+    } catch {
+      // Not recorded yet
+    }
+
+    const targets = readSkillTargets(parsed.data);
+    const base: SyncBase = {
+      hash,
+      frontmatter: pickMergeableFrontmatter(parsed.data),
+      body: normalizeBodyContent(parsed.content),
+      ...(targets ? { targets } : {})
+    };
+    await fs.mkdir(dirname(basePath), { recursive: true });
+    await fs.writeFile(basePath, JSON.stringify(base, null, 2) + '\n', 'utf-8');
+  }
+
+  // Prune bases that no copy of the skill can be merged from anymore
+  const basesDir = join(baseDir, inCommonDir(SYNC_BASE_PATH));
+  let skillDirs: string[];
+  try {
+    skillDirs = await fs.readdir(basesDir);
+  } catch {
+    return;
+  }
+  for (const skillName of skillDirs) {
+    if (skillNames && !skillNames.has(skillName)) {
+      continue;
+    }
+    const skillDir = join(basesDir, skillName);
+    const files = await fs.readdir(skillDir);
+    const keep = referencedHashes.get(skillName) ?? new Set<string>();
+    const stale = files.filter(file => !keep.has(file.replace(/\.json$/, '')));
+    for (const file of stale) {
+      await fs.unlink(join(skillDir, file));
+    }
+    if (stale.length === files.length) {
+      await fs.rmdir(skillDir);
+    }
+  }
+}
+
+/**
+ * Three-way merge a platform skill edited inline against a common skill that also changed
+ * @param baseDir - Base directory of the sync
+ * @param skill - Out-of-sync platform skill
+ * @returns The merge, or null if common is unchanged since the last sync or no base was recorded
+ */
+export async function mergeSkill(baseDir: string, skill: OutOfSyncSkill): Promise<SkillMerge | null> {
+  const platformParsed = matter(skill.platformContent ?? await fs.readFile(skill.platformPath, 'utf8'));
+  const commonParsed = matter(skill.commonContent ?? await fs.readFile(skill.commonPath, 'utf8'));
+
+  const platformBody = normalizeBodyContent(platformParsed.content);
+  if (platformBody.trim().startsWith('@')) {
+    return null;
+  }
+
+  // The platform copy records the common hash it was last synced from
+  const baseHash = getSyncMetadata(platformParsed.data)?.hash;
+  if (typeof baseHash !== 'string') {
+    return null;
+  }
+
+  const base = await loadSyncBase(baseDir, skill.skillName, baseHash);
+  if (!base) {
+    return null;
+  }
+
+  // Only a merge if common changed too; otherwise it's a plain keep-platform/keep-common choice
+  const commonBody = normalizeBodyContent(commonParsed.content);
+  const commonFrontmatter = pickMergeableFrontmatter(commonParsed.data);
+  if (commonBody === base.body && isDeepStrictEqual(commonFrontmatter, base.frontmatter)) {
+    return null;
+  }
+
+  const chunks = mergeLines(base.body, platformBody, commonBody);
+
+  // Merge frontmatter field by field
+  const platformFrontmatter = pickMergeableFrontmatter(platformParsed.data);
+  const frontmatter: Record<string, unknown> = {};
+  const frontmatterConflicts: string[] = [];
+  const fields = new Set([
+    ...Object.keys(base.frontmatter),
+    ...Object.keys(platformFrontmatter),
+    ...Object.keys(commonFrontmatter)
+  ]);
+  for (const field of fields) {
+    const baseValue = base.frontmatter[field];
+    const platformValue = platformFrontmatter[field];
+    const commonValue = commonFrontmatter[field];
+    let value = commonValue;
+    if (isDeepStrictEqual(commonValue, baseValue)) {
+      value = platformValue;
+    } else if (!isDeepStrictEqual(platformValue, baseValue) && !isDeepStrictEqual(platformValue, commonValue)) {
+      frontmatterConflicts.push(field);
+    }
+    if (value !== undefined) {
+      frontmatter[field] = value;
+    }
+  }
+
+  return { skill, baseHash, chunks, frontmatter, frontmatterConflicts, platformFrontmatter };
+}
+
+/**
+ * Whether a merge needs a decision from the user
+ */
+export function hasMergeConflicts(merge: SkillMerge): boolean {
+  return merge.frontmatterConflicts.length > 0 || merge.chunks.some(chunk => chunk.kind === 'conflict');
+}
+
+/**
+ * Write the result of a three-way merge
+ *
+ * With 'ours' or 'theirs' the merged skill is written to common and the platform
+ * copy becomes a reference again. With 'markers' the common content is kept and
+ * the platform copy gets the merged body with git-style conflict markers, marked as
+ * based on the current common version so the next sync only compares the two.
+ * @param merge - Merge produced by mergeSkill
+ * @param resolution - Side to take for conflicting regions and fields, or 'markers'
+ */
+export async function applySkillMerge(merge: SkillMerge, resolution: 'ours' | 'theirs' | 'markers'): Promise<void> {
+  const { skill } = merge;
+  const frontmatter = { ...merge.frontmatter };
+  if (resolution === 'ours') {
+    for (const field of merge.frontmatterConflicts) {
+      if (merge.platformFrontmatter[field] === undefined) {
+        delete frontmatter[field];
+      } else {
+        frontmatter[field] = merge.platformFrontmatter[field];
+      }
+    }
+  }
+
+  const commonParsed = matter(await fs.readFile(skill.commonPath, 'utf8'));
+  const commonSync = getSyncMetadata(commonParsed.data);
+
+  const writeCommon = async (nextFrontmatter: Record<string, unknown>, body: string): Promise<string> => {
+    const newHash = computeSkillHash(nextFrontmatter, body, await hashDependentFiles(skill.commonPath));
+    const commonFrontmatter = {
+      ...nextFrontmatter,
+      metadata: {
+        ...(nextFrontmatter.metadata as Record<string, unknown> || {}),
+        sync: { ...commonSync, version: SYNC_METADATA_VERSION, hash: newHash }
+      }
+    };
+    await fs.writeFile(skill.commonPath, matter.stringify(body, commonFrontmatter));
+    return newHash;
+  };
+
+  if (resolution === 'markers') {
+    // Re-hash common so the platform copy counts as based on it and isn't merged again
+    const commonHash = await writeCommon(
+      pickMergeableFrontmatter(commonParsed.data),
+      normalizeBodyContent(commonParsed.content)
+    );
+
+    const platformParsed = matter(await fs.readFile(skill.platformPath, 'utf8'));
+    const body = renderMerge(merge.chunks, 'markers', { ours: skill.platform, theirs: 'common' });
+    const platformMetadata = (platformParsed.data.metadata as Record<string, unknown> | undefined) ?? {};
+    const platformData = {
+      ...platformParsed.data,
+      metadata: { ...platformMetadata, sync: { ...getSyncMetadata(platformParsed.data), hash: commonHash } }
+    };
+    await fs.writeFile(skill.platformPath, matter.stringify(body, platformData));
+    return;
+  }
+
+  await writeCommon(frontmatter, renderMerge(merge.chunks, resolution));
+  await writePlatformReference(skill.platformPath, skill.commonPath);
+}
+
+/**
+ * Dependent files next to a common SKILL.md, as hashed with the skill
+ */
+async function hashDependentFiles(commonPath: string): Promise<Array<{ path: string; hash: string }>> {
+  return (await detectDependentFiles(dirname(commonPath))).map(file => ({ path: file.relativePath, hash: file.hash }));
+}
+
+/**
+ * Write a skill merged by hand to common, with a recomputed hash
+ * @param commonPath - Common SKILL.md (created if missing)
+ * @param content - Merged skill content
+ */
+export async function writeMergedSkill(commonPath: string, content: string): Promise<void> {
+  const parsed = matter(content);
+  let commonSync: Record<string, unknown> | undefined;
+  try {
+    commonSync = getSyncMetadata(matter(await fs.readFile(commonPath, 'utf8')).data);
+  } catch {
+    // New common skill
+  }
+
+  await fs.mkdir(dirname(commonPath), { recursive: true });
+  const body = normalizeBodyContent(parsed.content);
+  const newHash = computeSkillHash(pickMergeableFrontmatter(parsed.data), body, await hashDependentFiles(commonPath));
+  const metadata: Record<string, unknown> =
+    parsed.data.metadata && typeof parsed.data.metadata === 'object' && !Array.isArray(parsed.data.metadata)
+      ? { ...parsed.data.metadata }
+      : {};
+  // Assistants set in the merged content win over those of common
+  metadata.sync = { ...commonSync, ...readSkillTargets(parsed.data), version: SYNC_METADATA_VERSION, hash: newHash };
+
+  await fs.writeFile(commonPath, matter.stringify(body, { ...parsed.data, metadata }));
+}
@@ -0,0 +1,207 @@
+import { spawn, execFile } from 'child_process';
+import { promises as nodeFs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { fs } from './io.js';
+import { loadSyncBase, mergeLines, renderMerge } from './merge.js';
+import type { ConflictVariant, ManualMerge, OutOfSyncSkill } from './types.js';
+
+/** Environment variable holding a merge tool command */
+export const MERGE_TOOL_ENV = 'SYNC_SKILLS_MERGETOOL';
+
+/**
+ * Commands for merge tools git knows by name, used when `mergetool.<tool>.cmd` isn't set
+ */
+const KNOWN_MERGE_TOOLS: Record<string, string> = {
+  vimdiff: 'vimdiff -c "wincmd J" "$MERGED" "$LOCAL" "$BASE" "$REMOTE"',
+  nvimdiff: 'nvim -d -c "wincmd J" "$MERGED" "$LOCAL" "$BASE" "$REMOTE"',
+  meld: 'meld "$LOCAL" "$BASE" "$REMOTE" --output "$MERGED"',
+  kdiff3: 'kdiff3 "$BASE" "$LOCAL" "$REMOTE" -o "$MERGED"',
+  opendiff: 'opendiff "$LOCAL" "$REMOTE" -ancestor "$BASE" -merge "$MERGED"',
+  vscode: 'code --wait --merge "$LOCAL" "$REMOTE" "$BASE" "$MERGED"'
+};
+
+function gitConfig(baseDir: string, key: string): Promise<string | null> {
+  return new Promise(resolve => {
+    execFile('git', ['config', '--get', key], { cwd: baseDir }, (error, stdout) => {
+      resolve(error ? null : stdout.trim() || null);
+    });
+  });
+}
+
+/**
+ * Find the merge tool command to use
+ *
+ * `$SYNC_SKILLS_MERGETOOL` wins over the `mergeTool` config entry, which wins over
+ * git's `merge.tool`. Commands refer to the files as `$BASE`, `$LOCAL`, `$REMOTE` and `$MERGED`.
+ * @param baseDir - Base directory of the sync (for git config lookup)
+ * @param configured - `mergeTool` from the sync-skills config
+ * @returns Shell command, or null if no merge tool is set up
+ */
+export async function findMergeToolCommand(baseDir: string, configured?: string): Promise<string | null> {
+  const fromEnv = process.env[MERGE_TOOL_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (configured) {
+    return configured;
+  }
+
+  const tool = await gitConfig(baseDir, 'merge.tool');
+  if (!tool) {
+    return null;
+  }
+  return (await gitConfig(baseDir, `mergetool.${tool}.cmd`)) ?? KNOWN_MERGE_TOOLS[tool] ?? null;
+}
+
+function runCommand(command: string, env: Record<string, string>): Promise<boolean> {
+  return new Promise(resolve => {
+    const child = spawn('sh', ['-c', command], { stdio: 'inherit', env: { ...process.env, ...env } });
+    child.on('error', () => resolve(false));
+    child.on('close', code => resolve(code === 0));
+  });
+}
+
+/**
+ * Starting point for a manual merge: merged where possible, with conflict markers elsewhere
+ */
+function initialMerge(input: ManualMerge): string {
+  const chunks = mergeLines(input.base, input.local, input.remote);
+  return renderMerge(chunks, 'markers', { ours: input.labels.local, theirs: input.labels.remote });
+}
+
+/**
+ * Write the versions to a temporary folder, run a command on them and read back the result
+ *
+ * Temporary files bypass the sync file system so they're never journaled or planned.
+ */
+async function runOnMergeFiles(input: ManualMerge, command: string): Promise<string | null> {
+  const dir = await nodeFs.mkdtemp(join(tmpdir(), 'sync-skills-merge-'));
+  try {
+    const files = {
+      BASE: join(dir, 'BASE.SKILL.md'),
+      LOCAL: join(dir, 'LOCAL.SKILL.md'),
+      REMOTE: join(dir, 'REMOTE.SKILL.md'),
+      MERGED: join(dir, 'SKILL.md')
+    };
+    await nodeFs.writeFile(files.BASE, input.base);
+    await nodeFs.writeFile(files.LOCAL, input.local);
+    await nodeFs.writeFile(files.REMOTE, input.remote);
+    await nodeFs.writeFile(files.MERGED, initialMerge(input));
+
+    if (!(await runCommand(command, files))) {
+      return null;
+    }
+    return await nodeFs.readFile(files.MERGED, 'utf8');
+  } finally {
+    await nodeFs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Merge a skill in an external merge tool
+ * @param command - Merge tool command from findMergeToolCommand
+ * @param input - Versions to merge
+ * @returns Merged content, or null if the tool failed or was cancelled
+ */
+export function runMergeTool(command: string, input: ManualMerge): Promise<string | null> {
+  return runOnMergeFiles(input, command);
+}
+
+/**
+ * Merge a skill by hand in `$VISUAL` or `$EDITOR`, starting from the conflict-marked merge
+ * @param input - Versions to merge
+ * @returns Edited content, or null if the editor failed
+ */
+export function editInEditor(input: ManualMerge): Promise<string | null> {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  return runOnMergeFiles(input, `${editor} "$MERGED"`);
+}
+
+/**
+ * Whether merged content still has unresolved conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^(<{7}|={7}|>{7})( |$)/m.test(content);
+}
+
+function getSyncHash(data: Record<string, unknown>): string | undefined {
+  const metadata = data.metadata as Record<string, unknown> | undefined;
+  const sync = metadata && typeof metadata === 'object' ? metadata.sync as Record<string, unknown> | undefined : undefined;
+  return sync && typeof sync.hash === 'string' ? sync.hash : undefined;
+}
+
+/**
+ * Skill file content without tool-managed sync metadata, as shown in a merge tool
+ */
+function toMergeContent(body: string, data: Record<string, unknown>): string {
+  const frontmatter = { ...data };
+  if (frontmatter.metadata && typeof frontmatter.metadata === 'object' && !Array.isArray(frontmatter.metadata)) {
+    const metadata = { ...(frontmatter.metadata as Record<string, unknown>) };
+    delete metadata.sync;
+    if (Object.keys(metadata).length === 0) {
+      delete frontmatter.metadata;
+    } else {
+      frontmatter.metadata = metadata;
+    }
+  }
+  return Object.keys(frontmatter).length > 0 ? matter.stringify(body, frontmatter) : body;
+}
+
+/**
+ * Mergeable content of a skill file; a reference to common stands for the common body
+ */
+function skillMergeContent(content: string, commonBody: string | null): string {
+  const parsed = matter(content);
+  const body = parsed.content.trim().startsWith('@') && commonBody !== null ? commonBody : parsed.content;
+  return toMergeContent(body, parsed.data);
+}
+
+/**
+ * Versions to merge by hand for a platform skill out of sync with common
+ * @param baseDir - Base directory of the sync (for the last synced version)
+ * @param skill - Out-of-sync platform skill
+ * @param mergeTool - Merge tool command from findMergeToolCommand
+ */
+export async function prepareOutOfSyncMerge(
+  baseDir: string,
+  skill: OutOfSyncSkill,
+  mergeTool: string | null
+): Promise<ManualMerge> {
+  const platformContent = skill.platformContent ?? await fs.readFile(skill.platformPath, 'utf8');
+  const commonContent = skill.commonContent ?? await fs.readFile(skill.commonPath, 'utf8');
+  const commonBody = matter(commonContent).content;
+
+  const baseHash = getSyncHash(matter(platformContent).data);
+  const base = baseHash ? await loadSyncBase(baseDir, skill.skillName, baseHash) : null;
+
+  return {
+    base: base ? toMergeContent(base.body, base.frontmatter) : '',
+    local: skillMergeContent(platformContent, commonBody),
+    remote: skillMergeContent(commonContent, null),
+    labels: { local: skill.platform, remote: 'common' },
+    mergeTool
+  };
+}
+
+/**
+ * Versions to merge by hand for two platform versions of a skill
+ * @param variants - The two conflicting versions
+ * @param commonContent - Common skill, used as the base when it exists
+ * @param mergeTool - Merge tool command from findMergeToolCommand
+ */
+export function prepareConflictMerge(
+  variants: [ConflictVariant, ConflictVariant],
+  commonContent: string | null,
+  mergeTool: string | null
+): ManualMerge {
+  const commonBody = commonContent === null ? null : matter(commonContent).content;
+  return {
+    base: commonContent === null ? '' : skillMergeContent(commonContent, null),
+    local: skillMergeContent(variants[0].content, commonBody),
+    remote: skillMergeContent(variants[1].content, commonBody),
+    labels: { local: variants[0].platforms.join('+'), remote: variants[1].platforms.join('+') },
+    mergeTool
+  };
+}
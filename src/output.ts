@@ -0,0 +1,90 @@
+import { stripVTControlCharacters } from 'util';
+import { useLogger } from './ui.js';
+import type { SyncEvent } from './types.js';
+
+/** Version of the JSON documents printed by `--json` and `--format=ndjson` */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * How command results are printed
+ * - text: human-readable output (default)
+ * - json: one JSON document once the command finishes
+ * - ndjson: one JSON event per line while running, then the result
+ */
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+/**
+ * Commands with machine-readable output
+ */
+export type JsonCommand = 'sync' | 'check' | 'list';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Resolve the output format from `--json` and `--format`
+ * @throws If `--format` names an unknown format, or contradicts `--json`
+ */
+export function parseOutputFormat(json: boolean, formatOption?: string): OutputFormat {
+  if (formatOption === undefined) {
+    return json ? 'json' : 'text';
+  }
+  if (!OUTPUT_FORMATS.includes(formatOption as OutputFormat)) {
+    throw new Error(`Invalid --format "${formatOption}". Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (json && formatOption === 'text') {
+    throw new Error('--json cannot be combined with --format=text');
+  }
+  return formatOption as OutputFormat;
+}
+
+/**
+ * Run a command with its human-readable output moved to stderr, printing its result as JSON on stdout
+ *
+ * Warnings are collected into the result; with ndjson, progress events and warnings are
+ * also streamed as they happen.
+ * @param outputFormat - json or ndjson
+ * @param command - Command name recorded in the result
+ * @param operation - Runs the command, reporting progress to `onEvent`; returns the result fields
+ * @param write - Writes to stdout
+ * @returns The command's result, or null if it failed (the error is printed as JSON)
+ */
+export async function runWithJsonOutput<T extends object>(
+  outputFormat: Exclude<OutputFormat, 'text'>,
+  command: JsonCommand,
+  operation: (onEvent: (event: SyncEvent) => void) => Promise<T>,
+  write: (chunk: string) => void = chunk => process.stdout.write(chunk)
+): Promise<T | null> {
+  const warnings: string[] = [];
+  const emit = (event: object) => {
+    if (outputFormat === 'ndjson') {
+      write(JSON.stringify(event) + '\n');
+    }
+  };
+
+  const restore = useLogger({
+    log: message => console.error(message),
+    warn: message => {
+      const warning = stripVTControlCharacters(message);
+      warnings.push(warning);
+      emit({ type: 'warning', message: warning });
+      console.error(message);
+    }
+  });
+
+  let result: T | null = null;
+  let document: object;
+  try {
+    result = await operation(emit);
+    document = { schemaVersion: JSON_SCHEMA_VERSION, command, ok: true, ...result, warnings };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    document = { schemaVersion: JSON_SCHEMA_VERSION, command, ok: false, error: errorMessage, warnings };
+  } finally {
+    restore();
+  }
+
+  write(outputFormat === 'ndjson'
+    ? JSON.stringify({ type: 'result', ...document }) + '\n'
+    : JSON.stringify(document, null, 2) + '\n');
+  return result;
+}
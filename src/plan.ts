@@ -0,0 +1,553 @@
+import { dirname, relative, resolve, basename } from 'path';
+import { createTwoFilesPatch } from 'diff';
+import chalk from 'chalk';
+import matter from 'gray-matter';
+import { DiskFileSystem } from './io.js';
+import type { DirEntry, FileStat, FileSystem } from './io.js';
+import { computeContentHash } from './dependents.js';
+import { isCommonPath } from './common.js';
+import type { SyncOperation, SyncOperationType, SyncPlan } from './types.js';
+
+/**
+ * Kind of change recorded while planning
+ */
+export type PlannedChangeKind = 'create' | 'rewrite' | 'delete' | 'rmdir';
+
+/**
+ * A single change the sync would make to disk
+ */
+export interface PlannedChange {
+  /** Phase of the sync that produced the change */
+  phase: string;
+  /** Kind of change */
+  kind: PlannedChangeKind;
+  /** Absolute path of the affected file or directory */
+  path: string;
+  /** Content before the change (rewrite/delete) */
+  before?: Buffer;
+  /** Content after the change (create/rewrite) */
+  after?: Buffer;
+  /** Absolute path the content was copied from (copyFile) */
+  source?: string;
+  /** Names in the directory on disk, sorted (rmdir; null if it did not exist on disk) */
+  entries?: string[] | null;
+}
+
+/**
+ * Create an errno-style error so callers checking `error.code` keep working
+ */
+function fsError(code: string, syscall: string, path: string): NodeJS.ErrnoException {
+  const message = code === 'ENOENT' ? 'no such file or directory' : 'directory not empty';
+  return Object.assign(new Error(`${code}: ${message}, ${syscall} '${path}'`), { code, syscall, path });
+}
+
+function virtualEntry(name: string, directory: boolean): DirEntry {
+  return {
+    name,
+    isDirectory: () => directory,
+    isFile: () => !directory
+  };
+}
+
+/**
+ * Copy-on-write file system used for dry runs
+ *
+ * Reads fall through to disk unless the path was changed earlier in the run,
+ * so later phases observe the effects of earlier ones. Writes are kept in memory
+ * and recorded as PlannedChange entries tagged with the current phase.
+ */
+export class OverlayFileSystem implements FileSystem {
+  /** Changes recorded so far, in execution order */
+  readonly changes: PlannedChange[] = [];
+
+  private readonly disk = new DiskFileSystem();
+  /** Overlaid file contents; null marks a deleted file */
+  private readonly files = new Map<string, Buffer | null>();
+  private readonly createdDirs = new Set<string>();
+  private readonly removedDirs = new Set<string>();
+  private phase = 'setup';
+
+  /**
+   * Tag subsequently recorded changes with a phase name
+   */
+  beginPhase(phase: string): void {
+    this.phase = phase;
+  }
+
+  readFile(path: string): Promise<Buffer>;
+  readFile(path: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const content = await this.read(resolve(path));
+    if (!content) {
+      throw fsError('ENOENT', 'open', path);
+    }
+    return encoding ? content.toString(encoding) : content;
+  }
+
+  async *readStream(path: string): AsyncIterable<Buffer> {
+    const absPath = resolve(path);
+    if (!this.files.has(absPath) && !this.isHidden(absPath)) {
+      yield* this.disk.readStream(absPath);
+      return;
+    }
+    const content = this.files.get(absPath);
+    if (!content) {
+      throw fsError('ENOENT', 'open', path);
+    }
+    yield content;
+  }
+
+  async writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+    const content = typeof data === 'string' ? Buffer.from(data, encoding ?? 'utf8') : data;
+    await this.write(resolve(path), content);
+  }
+
+  async copyFile(source: string, target: string): Promise<void> {
+    const absSource = resolve(source);
+    const content = await this.read(absSource);
+    if (!content) {
+      throw fsError('ENOENT', 'copyfile', source);
+    }
+    await this.write(resolve(target), content, absSource);
+  }
+
+  async mkdir(path: string, options?: { recursive?: boolean }): Promise<void> {
+    const absPath = resolve(path);
+    if (await this.isDirectory(absPath)) {
+      return;
+    }
+    if (!options?.recursive && !(await this.isDirectory(dirname(absPath)))) {
+      throw fsError('ENOENT', 'mkdir', path);
+    }
+    let current = absPath;
+    while (!(await this.isDirectory(current))) {
+      this.removedDirs.delete(current);
+      this.createdDirs.add(current);
+      current = dirname(current);
+    }
+  }
+
+  async unlink(path: string): Promise<void> {
+    const absPath = resolve(path);
+    const before = await this.read(absPath);
+    if (!before) {
+      throw fsError('ENOENT', 'unlink', path);
+    }
+    this.files.set(absPath, null);
+    this.changes.push({ phase: this.phase, kind: 'delete', path: absPath, before });
+  }
+
+  async rmdir(path: string): Promise<void> {
+    const absPath = resolve(path);
+    if (!(await this.isDirectory(absPath))) {
+      throw fsError('ENOENT', 'rmdir', path);
+    }
+    if ((await this.readdir(absPath)).length > 0) {
+      throw fsError('ENOTEMPTY', 'rmdir', path);
+    }
+    let entries: string[] | null = null;
+    if (!this.createdDirs.has(absPath)) {
+      try {
+        entries = (await this.disk.readdir(absPath)).sort();
+      } catch {
+        // Directory only exists in the overlay
+      }
+    }
+    this.createdDirs.delete(absPath);
+    this.removedDirs.add(absPath);
+    this.changes.push({ phase: this.phase, kind: 'rmdir', path: absPath, entries });
+  }
+
+  async access(path: string): Promise<void> {
+    const absPath = resolve(path);
+    if (await this.read(absPath)) {
+      return;
+    }
+    if (await this.isDirectory(absPath)) {
+      return;
+    }
+    throw fsError('ENOENT', 'access', path);
+  }
+
+  async stat(path: string): Promise<FileStat> {
+    const absPath = resolve(path);
+    if (this.files.has(absPath)) {
+      const content = this.files.get(absPath);
+      if (!content) {
+        throw fsError('ENOENT', 'stat', path);
+      }
+      // Written during this run
+      return { mtimeMs: Date.now(), size: content.length };
+    }
+    if (this.isHidden(absPath)) {
+      throw fsError('ENOENT', 'stat', path);
+    }
+    return this.disk.stat(absPath);
+  }
+
+  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+  async readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+    const absPath = resolve(path);
+    if (!(await this.isDirectory(absPath))) {
+      throw fsError('ENOENT', 'scandir', path);
+    }
+
+    const entries = new Map<string, DirEntry>();
+    if (!this.createdDirs.has(absPath)) {
+      try {
+        for (const entry of await this.disk.readdir(absPath, { withFileTypes: true })) {
+          const entryPath = resolve(absPath, entry.name);
+          if (this.files.get(entryPath) === null || this.removedDirs.has(entryPath)) {
+            continue;
+          }
+          entries.set(entry.name, entry);
+        }
+      } catch {
+        // Directory only exists in the overlay
+      }
+    }
+
+    for (const dir of this.createdDirs) {
+      if (dirname(dir) === absPath) {
+        entries.set(basename(dir), virtualEntry(basename(dir), true));
+      }
+    }
+    for (const [file, content] of this.files) {
+      if (content && dirname(file) === absPath) {
+        entries.set(basename(file), virtualEntry(basename(file), false));
+      }
+    }
+
+    const sorted = [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+    return options?.withFileTypes ? sorted : sorted.map(entry => entry.name);
+  }
+
+  private async read(absPath: string): Promise<Buffer | null> {
+    if (this.files.has(absPath)) {
+      return this.files.get(absPath) ?? null;
+    }
+    if (this.isHidden(absPath)) {
+      return null;
+    }
+    try {
+      return await this.disk.readFile(absPath);
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(absPath: string, content: Buffer, source?: string): Promise<void> {
+    if (!(await this.isDirectory(dirname(absPath)))) {
+      throw fsError('ENOENT', 'open', absPath);
+    }
+    const before = await this.read(absPath);
+    this.files.set(absPath, content);
+
+    if (before && before.equals(content)) {
+      return;
+    }
+
+    this.changes.push({
+      phase: this.phase,
+      kind: before ? 'rewrite' : 'create',
+      path: absPath,
+      ...(before ? { before } : {}),
+      after: content,
+      ...(source ? { source } : {})
+    });
+  }
+
+  private async isDirectory(absPath: string): Promise<boolean> {
+    if (this.createdDirs.has(absPath)) {
+      return true;
+    }
+    if (this.isHidden(absPath)) {
+      return false;
+    }
+    try {
+      await this.disk.readdir(absPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a path lies inside a directory removed in the overlay
+   */
+  private isHidden(absPath: string): boolean {
+    let current = absPath;
+    while (current !== dirname(current)) {
+      if (this.removedDirs.has(current)) {
+        return true;
+      }
+      current = dirname(current);
+    }
+    return false;
+  }
+}
+
+/**
+ * A planned change as presented to the user (copies followed by deletes become moves)
+ */
+interface DisplayedChange {
+  kind: PlannedChangeKind | 'move';
+  path: string;
+  source?: string;
+  before?: Buffer;
+  after?: Buffer;
+}
+
+/**
+ * Human readable labels for the phases of run()
+ */
+export const PHASE_LABELS: Record<string, string> = {
+  'setup': 'Setup: Configuration',
+  'deletions': 'Phase 1.5: Propagate deleted skills',
+  'assistants': 'Phase 2: Create assistant skill folders',
+  'common-only': 'Phase 2.5: Link common-only skills',
+  'refactor': 'Phase 3: Move inline skills to .agents-common',
+  'targets': 'Phase 3.5: Remove references of excluded assistants',
+  'out-of-sync': 'Phase 2.75: Resolve out-of-sync skills',
+  'conflicts': 'Phase 4: Resolve platform conflicts',
+  'frontmatter': 'Phase 5: Propagate frontmatter',
+  'dependents': 'Phase 6: Sync dependent files',
+  'sync-base': 'Phase 7: Record last synced versions'
+};
+
+/**
+ * Derive the skill a path belongs to from its `skills/<name>/...` segment
+ */
+export function skillNameFromPath(relativePath: string): string | null {
+  const parts = relativePath.split('/');
+  for (let i = 0; i < parts.length - 2; i++) {
+    if (parts[i] === 'skills' || parts[i] === 'skill') {
+      return parts[i + 1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Collapse a copy followed by a deletion of its source (within a phase) into a move
+ */
+function toDisplayedChanges(changes: PlannedChange[]): DisplayedChange[] {
+  const displayed: DisplayedChange[] = changes.map(change => ({ ...change }));
+  const merged = new Set<number>();
+
+  changes.forEach((change, index) => {
+    if (change.kind !== 'delete') {
+      return;
+    }
+    const copyIndex = displayed.findIndex((candidate, i) =>
+      i < index &&
+      !merged.has(i) &&
+      candidate.kind !== 'move' &&
+      candidate.source === change.path
+    );
+    if (copyIndex >= 0) {
+      displayed[copyIndex] = { ...displayed[copyIndex], kind: 'move' };
+      merged.add(copyIndex);
+      merged.add(index);
+    }
+  });
+
+  return displayed.filter((change, index) => !(merged.has(index) && change.kind === 'delete'));
+}
+
+function formatChangeDiff(change: DisplayedChange, displayPath: string): string[] {
+  if (!change.before || !change.after || basename(change.path) !== 'SKILL.md') {
+    return [];
+  }
+  const patch = createTwoFilesPatch(
+    displayPath,
+    displayPath,
+    change.before.toString('utf8'),
+    change.after.toString('utf8'),
+    '',
+    '',
+    { context: 3 }
+  );
+  const patchLines = patch.split('\n');
+  return patchLines
+    .slice(patchLines.findIndex(line => line.startsWith('@@')))
+    .filter(line => line !== '' && !line.startsWith('\\'))
+    .map(line => {
+      const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : line.startsWith('@@') ? chalk.cyan : chalk.gray;
+      return `        ${color(line)}`;
+    });
+}
+
+/**
+ * Format recorded changes grouped by phase and skill
+ * @param changes - Changes recorded by OverlayFileSystem
+ * @param baseDir - Base directory used to shorten displayed paths
+ * @returns Printable plan
+ */
+export function formatPlan(changes: PlannedChange[], baseDir: string): string {
+  const lines: string[] = [];
+  const displayPath = (path: string) => relative(resolve(baseDir), path) || '.';
+  const counts: Record<DisplayedChange['kind'], number> = { create: 0, rewrite: 0, move: 0, delete: 0, rmdir: 0 };
+
+  const phases: string[] = [];
+  for (const change of changes) {
+    if (!phases.includes(change.phase)) {
+      phases.push(change.phase);
+    }
+  }
+
+  for (const phase of phases) {
+    const phaseChanges = toDisplayedChanges(changes.filter(change => change.phase === phase));
+    const bySkill = new Map<string, DisplayedChange[]>();
+    for (const change of phaseChanges) {
+      const skill = skillNameFromPath(displayPath(change.path)) ?? '(general)';
+      const group = bySkill.get(skill) || [];
+      group.push(change);
+      bySkill.set(skill, group);
+    }
+
+    lines.push(chalk.bold(`\n${PHASE_LABELS[phase] ?? phase}`));
+    for (const [skill, group] of bySkill) {
+      lines.push(`  ${chalk.yellow(skill)}`);
+      for (const change of group) {
+        counts[change.kind]++;
+        const path = displayPath(change.path);
+        switch (change.kind) {
+          case 'create':
+            lines.push(chalk.green(`    + create  ${path}`));
+            break;
+          case 'rewrite':
+            lines.push(chalk.yellow(`    ~ rewrite ${path}`));
+            lines.push(...formatChangeDiff(change, path));
+            break;
+          case 'move':
+            lines.push(chalk.blue(`    → move    ${displayPath(change.source!)} → ${path}`));
+            break;
+          case 'delete':
+            lines.push(chalk.red(`    - delete  ${path}`));
+            break;
+          case 'rmdir':
+            lines.push(chalk.red(`    - rmdir   ${path}/`));
+            break;
+        }
+      }
+    }
+  }
+
+  if (lines.length === 0) {
+    return 'Dry run: nothing to do, all skills are in sync.';
+  }
+
+  lines.unshift(chalk.bold('Dry run: the following changes would be made (nothing was written):'));
+  lines.push('');
+  lines.push(
+    `Summary: ${counts.create} to create, ${counts.rewrite} to rewrite, ${counts.move} to move, ` +
+    `${counts.delete + counts.rmdir} to delete`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Pick the operation type describing the net change to a path
+ */
+function classifyOperation(
+  relativePath: string,
+  before: Buffer | undefined,
+  after: Buffer | undefined,
+  source: string | undefined
+): SyncOperationType {
+  const isSkillFile = basename(relativePath) === 'SKILL.md';
+  const isCommon = isCommonPath(relativePath);
+
+  if (!after) {
+    return isSkillFile ? 'DeleteFile' : 'DeleteDependent';
+  }
+  if (source && !isSkillFile) {
+    return 'CopyDependent';
+  }
+  if (!isSkillFile || !skillNameFromPath(relativePath)) {
+    return 'WriteFile';
+  }
+  if (isCommon) {
+    return 'WriteCommon';
+  }
+  if (before && matter(before.toString('utf8')).content === matter(after.toString('utf8')).content) {
+    return 'PropagateFrontmatter';
+  }
+  return 'WriteReference';
+}
+
+function encodeContent(content: Buffer): Pick<SyncOperation, 'content' | 'encoding'> {
+  const text = content.toString('utf8');
+  return Buffer.from(text, 'utf8').equals(content)
+    ? { content: text, encoding: 'utf8' }
+    : { content: content.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Build a serializable plan from recorded changes
+ *
+ * Changes are collapsed to one operation per path holding the final content,
+ * positioned at the path's last change so directory removals stay after the
+ * deletions that emptied them. Each operation keeps the hash of the path (or the
+ * listing of a removed directory) as it was before the run so `applyPlan` can
+ * detect a tree that changed since.
+ * @param changes - Changes recorded by OverlayFileSystem
+ * @param baseDir - Base directory the plan paths are made relative to
+ * @param homeMode - Whether the plan was made in home mode
+ * @returns Sync plan
+ */
+export function buildSyncPlan(changes: PlannedChange[], baseDir: string, homeMode: boolean = false): SyncPlan {
+  const absBaseDir = resolve(baseDir);
+  const net = new Map<string, { first: PlannedChange; last: PlannedChange; source?: string; order: number }>();
+
+  changes.forEach((change, order) => {
+    const existing = net.get(change.path);
+    net.set(change.path, {
+      first: existing?.first ?? change,
+      last: change,
+      source: change.source ?? (change.kind === 'rewrite' ? existing?.source : undefined),
+      order
+    });
+  });
+
+  const operations: SyncOperation[] = [];
+  const entries = [...net.entries()].sort((a, b) => a[1].order - b[1].order);
+
+  for (const [path, { first, last, source }] of entries) {
+    const relativePath = relative(absBaseDir, path);
+    const before = first.kind === 'create' || first.kind === 'rmdir' ? undefined : first.before;
+    const after = last.kind === 'create' || last.kind === 'rewrite' ? last.after : undefined;
+    const skillName = skillNameFromPath(relativePath) ?? undefined;
+    const target = { path: relativePath, phase: last.phase, ...(skillName ? { skillName } : {}) };
+
+    if (last.kind === 'rmdir') {
+      operations.push({ ...target, type: 'RemoveDirectory', expectedHash: null, expectedEntries: last.entries ?? null });
+      continue;
+    }
+
+    // Created and deleted again within the same run: nothing to do
+    if (!before && !after) {
+      continue;
+    }
+    if (before && after && before.equals(after)) {
+      continue;
+    }
+
+    operations.push({
+      ...target,
+      type: classifyOperation(relativePath, before, after, source),
+      expectedHash: before ? computeContentHash(before) : null,
+      ...(after ? encodeContent(after) : {}),
+      ...(source && after ? { source: relative(absBaseDir, source) } : {})
+    });
+  }
+
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    homeMode,
+    operations
+  };
+}
@@ -1,17 +1,26 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
+import { dirname, join, relative } from 'path';
+import { isDeepStrictEqual } from 'util';
 import matter from 'gray-matter';
 import { parseSkillFile } from './parser.js';
+import { resolveFrontmatterConflict } from './resolver.js';
+import { findNewest, logStrategyResolution, strategyAbortError } from './strategy.js';
+import { inCommonDir } from './common.js';
+import type {
+  FrontmatterConflict,
+  FrontmatterConflictResolution,
+  FrontmatterDecision,
+  FrontmatterDecisions,
+  ResolutionStrategy
+} from './types.js';
+
+/** Recorded frontmatter decisions */
+export const FRONTMATTER_DECISIONS_PATH = '.agents-common/.frontmatter-decisions.json';
 
 const SKIP_FIELDS = ['sync'];
 const LIST_MERGE_FIELDS = ['allowed-tools'];
 const OBJECT_MERGE_FIELDS = ['metadata', 'hooks'];
 
-interface FrontmatterConflict {
-  field: string;
-  commonValue: unknown;
-  targetValue: unknown;
-}
-
 interface MergeResult {
   merged: Record<string, unknown>;
   conflicts: FrontmatterConflict[];
@@ -19,9 +28,22 @@ interface MergeResult {
 
 interface PropagateOptions {
   failOnConflict?: boolean;
-  resolver?: (conflict: FrontmatterConflict, targetPath: string) => Promise<string>;
+  /** Resolve field conflicts without prompting (ignored when a resolver is given) */
+  strategy?: ResolutionStrategy;
+  resolver?: FrontmatterResolver;
+  /** Answers to earlier prompts; replayed, and extended with new answers */
+  decisions?: FrontmatterDecisions;
+  /** Called when a field conflict is found, before it's resolved */
+  onConflict?: (conflict: FrontmatterConflict, targetPath: string) => void;
+  /** Called after each field conflict is resolved */
+  onResolved?: (conflict: FrontmatterConflict, targetPath: string, action: FrontmatterConflictResolution['action']) => void;
 }
 
+type FrontmatterResolver = (
+  conflict: FrontmatterConflict,
+  targetPath: string
+) => Promise<FrontmatterConflictResolution['action'] | FrontmatterConflictResolution>;
+
 /**
  * Propagate frontmatter from common skill to target skills
  */
@@ -30,7 +52,9 @@ export async function propagateFrontmatter(
   targetPaths: string[],
   options: PropagateOptions = {}
 ): Promise<void> {
-  const { failOnConflict = false, resolver = defaultResolver } = options;
+  const { failOnConflict = false, strategy, decisions, onConflict, onResolved } = options;
+  const resolver = options.resolver ?? (strategy ? createStrategyResolver(commonPath, strategy) : defaultResolver);
+  const interactive = resolver === defaultResolver;
 
   // Check if common file exists
   try {
@@ -71,16 +95,33 @@ export async function propagateFrontmatter(
 
     // Resolve conflicts
     for (const conflict of conflicts) {
-      const resolution = await resolver(conflict, targetPath);
+      onConflict?.(conflict, targetPath);
+      const decision = findDecision(decisions, targetPath, conflict);
+      if (!decision && interactive && failOnConflict) {
+        throw new Error(`Conflict in skill "${targetPath}" for field "${conflict.field}"`);
+      }
+
+      const answer = decision ?? await resolver(conflict, targetPath);
+      const resolution = typeof answer === 'string' ? { action: answer } : answer;
 
-      if (resolution === 'skip-all') {
+      if (resolution.action === 'skip-all') {
+        onResolved?.(conflict, targetPath, resolution.action);
         break;
-      } else if (resolution === 'common') {
+      } else if (resolution.action === 'common') {
         merged[conflict.field] = conflict.commonValue;
-      } else if (resolution === 'target') {
+      } else if (resolution.action === 'target') {
         merged[conflict.field] = conflict.targetValue;
+      } else if (resolution.action === 'edit') {
+        merged[conflict.field] = resolution.value;
       } else if (failOnConflict) {
         throw new Error(`Conflict in skill "${targetPath}" for field "${conflict.field}"`);
+      } else {
+        continue;
+      }
+
+      onResolved?.(conflict, targetPath, resolution.action);
+      if (!decision && interactive && decisions) {
+        recordDecision(decisions, targetPath, conflict, resolution);
       }
     }
 
@@ -148,17 +189,19 @@ function mergeFrontmatter(
     });
   }
 
-  // Always use common's sync hash as the source of truth
+  // Always use common's sync hash as the source of truth; tracked dependent files only matter in common
   const commonMetadata = common.metadata as Record<string, unknown> | undefined;
   if (commonMetadata?.sync && typeof commonMetadata.sync === 'object' && !Array.isArray(commonMetadata.sync)) {
     const commonSync = commonMetadata.sync as Record<string, unknown>;
     if (commonSync.hash) {
       merged.metadata = merged.metadata || {};
       const mergedMetadata = merged.metadata as Record<string, unknown>;
-      mergedMetadata.sync = {
-        ...(typeof mergedMetadata?.sync === 'object' && mergedMetadata.sync && !Array.isArray(mergedMetadata.sync)
+      const { files: _files, ...mergedSync } =
+        typeof mergedMetadata?.sync === 'object' && mergedMetadata.sync && !Array.isArray(mergedMetadata.sync)
           ? mergedMetadata.sync as Record<string, unknown>
-          : {}),
+          : {};
+      mergedMetadata.sync = {
+        ...mergedSync,
         hash: commonSync.hash
       };
     }
@@ -167,18 +210,102 @@ function mergeFrontmatter(
   return { merged, conflicts };
 }
 
+/**
+ * Conflict resolver that applies a strategy instead of prompting
+ */
+function createStrategyResolver(
+  commonPath: string,
+  strategy: ResolutionStrategy
+): FrontmatterResolver {
+  return async (conflict, targetPath) => {
+    const subject = `${targetPath} (field "${conflict.field}")`;
+    if (strategy === 'abort') {
+      throw strategyAbortError('frontmatter', subject);
+    }
+
+    const keepTarget =
+      strategy === 'platform' ||
+      (strategy === 'newest' && (await findNewest([targetPath, commonPath])) === 0);
+    logStrategyResolution('frontmatter', subject, strategy, keepTarget ? 'kept platform value' : 'kept common value');
+    return keepTarget ? 'target' : 'common';
+  };
+}
+
 /**
  * Default conflict resolver that prompts the user
  */
-async function defaultResolver(conflict: FrontmatterConflict, targetPath: string): Promise<string> {
+async function defaultResolver(conflict: FrontmatterConflict, targetPath: string): Promise<FrontmatterConflictResolution> {
   const skillName = targetPath.split('/').slice(-2, -1)[0];
+  return resolveFrontmatterConflict(conflict, skillName);
+}
+
+/**
+ * Earlier answer to the same conflict, if both values are unchanged since
+ */
+function findDecision(
+  decisions: FrontmatterDecisions | undefined,
+  targetPath: string,
+  conflict: FrontmatterConflict
+): FrontmatterDecision | undefined {
+  const decision = decisions?.entries[relative(decisions.baseDir, targetPath)]?.[conflict.field];
+  if (
+    decision &&
+    isDeepStrictEqual(decision.commonValue, conflict.commonValue) &&
+    isDeepStrictEqual(decision.targetValue, conflict.targetValue)
+  ) {
+    return decision;
+  }
+  return undefined;
+}
+
+function recordDecision(
+  decisions: FrontmatterDecisions,
+  targetPath: string,
+  conflict: FrontmatterConflict,
+  resolution: FrontmatterConflictResolution
+): void {
+  if (resolution.action === 'skip-all') {
+    return;
+  }
+  const key = relative(decisions.baseDir, targetPath);
+  const fields = decisions.entries[key] ?? {};
+  fields[conflict.field] = {
+    commonValue: conflict.commonValue,
+    targetValue: conflict.targetValue,
+    action: resolution.action,
+    ...(resolution.action === 'edit' ? { value: resolution.value } : {})
+  };
+  decisions.entries[key] = fields;
+}
+
+/**
+ * Load the frontmatter decisions recorded for a project
+ * @param baseDir - Base directory of the sync
+ */
+export async function loadFrontmatterDecisions(baseDir: string): Promise<FrontmatterDecisions> {
+  try {
+    const content = await fs.readFile(join(baseDir, inCommonDir(FRONTMATTER_DECISIONS_PATH)), 'utf8');
+    const parsed = JSON.parse(content) as { decisions?: FrontmatterDecisions['entries'] };
+    return { baseDir, entries: parsed.decisions ?? {} };
+  } catch {
+    return { baseDir, entries: {} };
+  }
+}
 
-  console.log(`\nConflict in skill "${skillName}" for field "${conflict.field}":`);
-  console.log(`  Common: ${JSON.stringify(conflict.commonValue)}`);
-  console.log(`  Target: ${JSON.stringify(conflict.targetValue)}`);
-  console.log(`Choose: (c)ommon, (t)arget, (s)kip all for this skill`);
+/**
+ * Save frontmatter decisions, leaving the file untouched when nothing changed
+ * @param decisions - Decisions loaded with loadFrontmatterDecisions
+ */
+export async function saveFrontmatterDecisions(decisions: FrontmatterDecisions): Promise<void> {
+  const path = join(decisions.baseDir, inCommonDir(FRONTMATTER_DECISIONS_PATH));
+  const existing = await fs.readFile(path, 'utf8').catch(() => null);
+  if (existing === null && Object.keys(decisions.entries).length === 0) {
+    return;
+  }
 
-  // For now, default to 'target' to preserve existing behavior
-  // In a real implementation, this would use readline/inquirer
-  return 'target';
+  const content = JSON.stringify({ version: 1, decisions: decisions.entries }, null, 2) + '\n';
+  if (content !== existing) {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, content);
+  }
 }
@@ -0,0 +1,101 @@
+import { fs } from './io.js';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import matter from 'gray-matter';
+import { scanSkills } from './scanner.js';
+import { parseSkillFile } from './parser.js';
+import { buildCommonSkillReference } from './references.js';
+import { moveDirectory } from './rename.js';
+import {
+  COMMON_DIR_ENV,
+  DEFAULT_COMMON_DIR,
+  getCommonDir,
+  readCommonPointer,
+  toCommonDir,
+  writeCommonPointer
+} from './common.js';
+import type { AssistantConfig } from './types.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Move the common directory and point every reference at its new location
+ *
+ * Everything in the common directory moves (skills, config, history and sync
+ * state). Outside the default location, a `.agents-common` pointer file records
+ * where it went. Platform references into the common directory are rewritten,
+ * frontmatter untouched, so the next sync finds everything in sync.
+ * @param baseDir - Base directory of the sync
+ * @param configs - Enabled assistants, whose references are rewritten
+ * @param location - New location, relative to base directory or absolute
+ * @returns The new common directory relative to base directory, and the number of rewritten references
+ * @throws Error if the common directory is set by SYNC_SKILLS_COMMON_DIR, or the new location is taken
+ */
+export async function relocateCommon(
+  baseDir: string,
+  configs: AssistantConfig[],
+  location: string
+): Promise<{ commonDir: string; references: number }> {
+  if (process.env[COMMON_DIR_ENV]) {
+    throw new Error(`The common directory is set by ${COMMON_DIR_ENV}; move it by hand and update the variable`);
+  }
+
+  const from = getCommonDir();
+  const to = toCommonDir(baseDir, location);
+  if (to === from) {
+    throw new Error(`The common directory is already at ${to}`);
+  }
+  const fromPath = resolve(baseDir, from);
+  const toPath = resolve(baseDir, to);
+  if (isInside(fromPath, toPath) || isInside(toPath, fromPath)) {
+    throw new Error(`Cannot move ${from} to ${to}: one is inside the other`);
+  }
+  // The pointer file stands where the default location goes, and is replaced by it
+  const hasPointer = (await readCommonPointer(baseDir)) !== null;
+  if (await exists(toPath) && !(to === DEFAULT_COMMON_DIR && hasPointer)) {
+    throw new Error(`Cannot move the common directory to ${to}: it already exists`);
+  }
+
+  // References are resolved from their own file, so they're collected before anything moves
+  const { platforms } = await scanSkills(baseDir, configs);
+  const references: Array<{ path: string; target: string }> = [];
+  for (const skills of Object.values(platforms)) {
+    for (const skill of skills) {
+      const parsed = parseSkillFile(await fs.readFile(skill.path, 'utf8'));
+      if (!parsed?.hasAtReference) {
+        continue;
+      }
+      const target = resolve(dirname(skill.path), parsed.content.slice(1).trim());
+      if (isInside(target, fromPath)) {
+        references.push({ path: skill.path, target: join(toPath, relative(fromPath, target)) });
+      }
+    }
+  }
+
+  if (hasPointer) {
+    await fs.unlink(join(baseDir, DEFAULT_COMMON_DIR));
+  }
+  if (await exists(fromPath)) {
+    await moveDirectory(fromPath, toPath);
+  }
+  await writeCommonPointer(baseDir, location);
+
+  for (const reference of references) {
+    const parsed = matter(await fs.readFile(reference.path, 'utf8'));
+    const atReference = buildCommonSkillReference(reference.path, reference.target);
+    await fs.writeFile(reference.path, matter.stringify(`${atReference}\n`, parsed.data));
+  }
+
+  return { commonDir: to, references: references.length };
+}
+
+function isInside(path: string, dir: string): boolean {
+  const relativePath = relative(dir, path);
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+}
@@ -0,0 +1,147 @@
+import { fs } from './io.js';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { parseSkillFile } from './parser.js';
+import { rehashCommonSkill, writePlatformReference } from './syncer.js';
+import { readTrackedFiles, removeDirectory } from './deletions.js';
+import { loadFrontmatterDecisions, saveFrontmatterDecisions } from './propagator.js';
+import { commonSkillsDir } from './common.js';
+import type { AssistantConfig } from './types.js';
+
+/**
+ * A renamed skill folder
+ */
+export interface RenamedSite {
+  /** 'common' or the assistant name */
+  platform: string;
+  /** Folder before the rename, relative to base directory */
+  from: string;
+  /** Folder after the rename, relative to base directory */
+  to: string;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Rename a skill in common and in every assistant that has it
+ *
+ * Folders are moved with their dependent files, `name` is updated, common gets a
+ * recomputed `metadata.sync.hash` and platform references are rewritten to the
+ * new common folder, so the next sync finds everything in sync.
+ * @param baseDir - Base directory of the sync
+ * @param configs - Enabled assistants
+ * @param oldName - Current skill name
+ * @param newName - New skill name
+ * @returns Renamed folders, common first
+ * @throws Error if the name is invalid, the skill doesn't exist or the new name is taken
+ */
+export async function renameSkill(
+  baseDir: string,
+  configs: AssistantConfig[],
+  oldName: string,
+  newName: string
+): Promise<RenamedSite[]> {
+  if (!/^[\w.-]+$/.test(newName) || newName === '.' || newName === '..') {
+    throw new Error(`Invalid skill name "${newName}"`);
+  }
+  if (oldName === newName) {
+    throw new Error(`Skill is already named "${newName}"`);
+  }
+
+  const sites = [
+    { platform: 'common', skillsDir: commonSkillsDir() },
+    ...configs.map(config => ({ platform: config.name, skillsDir: config.skillsDir }))
+  ];
+  const taken: string[] = [];
+  const renamed: RenamedSite[] = [];
+  for (const site of sites) {
+    if (await exists(join(baseDir, site.skillsDir, newName))) {
+      taken.push(site.platform);
+    }
+    if (await exists(join(baseDir, site.skillsDir, oldName, 'SKILL.md'))) {
+      renamed.push({ platform: site.platform, from: `${site.skillsDir}/${oldName}`, to: `${site.skillsDir}/${newName}` });
+    }
+  }
+  if (taken.length > 0) {
+    throw new Error(`Skill "${newName}" already exists in: ${taken.join(', ')}`);
+  }
+  if (renamed.length === 0) {
+    throw new Error(`Skill "${oldName}" not found`);
+  }
+
+  for (const site of renamed) {
+    await moveDirectory(join(baseDir, site.from), join(baseDir, site.to));
+  }
+
+  const commonSkillPath = join(baseDir, commonSkillsDir(), newName);
+  const commonPath = join(commonSkillPath, 'SKILL.md');
+  const hasCommon = renamed[0].platform === 'common';
+  if (hasCommon) {
+    await renameCommonSkill(commonSkillPath, newName);
+  }
+
+  for (const site of renamed) {
+    if (site.platform === 'common') {
+      continue;
+    }
+    const platformPath = join(baseDir, site.to, 'SKILL.md');
+    const content = await fs.readFile(platformPath, 'utf8');
+    const parsed = matter(content);
+    await fs.writeFile(platformPath, matter.stringify(parsed.content, { ...parsed.data, name: newName }));
+    if (hasCommon && parseSkillFile(content)?.hasAtReference) {
+      await writePlatformReference(platformPath, commonPath);
+    }
+  }
+
+  // Frontmatter decisions are keyed by platform path
+  const decisions = await loadFrontmatterDecisions(baseDir);
+  for (const site of renamed) {
+    const from = `${site.from}/SKILL.md`;
+    if (decisions.entries[from]) {
+      decisions.entries[`${site.to}/SKILL.md`] = decisions.entries[from];
+      delete decisions.entries[from];
+    }
+  }
+  await saveFrontmatterDecisions(decisions);
+
+  return renamed;
+}
+
+/**
+ * Set the name of a common skill and recompute its hash
+ */
+async function renameCommonSkill(commonSkillPath: string, newName: string): Promise<void> {
+  const commonPath = join(commonSkillPath, 'SKILL.md');
+  const parsed = matter(await fs.readFile(commonPath, 'utf8'));
+  await fs.writeFile(commonPath, matter.stringify(parsed.content, { ...parsed.data, name: newName }));
+  await rehashCommonSkill(commonSkillPath, (await readTrackedFiles(commonPath)) !== null);
+}
+
+/**
+ * Move a folder and everything in it
+ */
+export async function moveDirectory(from: string, to: string): Promise<void> {
+  await copyDirectory(from, to);
+  await removeDirectory(from);
+}
+
+/**
+ * Copy a folder and everything in it
+ */
+export async function copyDirectory(from: string, to: string): Promise<void> {
+  await fs.mkdir(to, { recursive: true });
+  for (const entry of await fs.readdir(from, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      await copyDirectory(join(from, entry.name), join(to, entry.name));
+    } else {
+      await fs.copyFile(join(from, entry.name), join(to, entry.name));
+    }
+  }
+}
@@ -1,54 +1,79 @@
-import inquirer from 'inquirer';
 import chalk from 'chalk';
 import matter from 'gray-matter';
 import { formatDiff } from './detector.js';
-import type { OutOfSyncSkill, SyncMismatchType } from './types.js';
-import type { Conflict, ConflictResolution, DependentConflict, DependentConflictResolution, OutOfSyncResolution } from './types.js';
+import { fs } from './io.js';
+import { isBinaryContent, resolveDependentConflictByStrategy } from './dependents.js';
+import { formatSites, resolveDeletionByStrategy } from './deletions.js';
+import { validateSkillDescription } from './scaffold.js';
+import { findNewest, logStrategyResolution, strategyAbortError } from './strategy.js';
+import { editInEditor, hasConflictMarkers, runMergeTool } from './mergetool.js';
+import { logger, prompter } from './ui.js';
+import type { FrontmatterConflict, FrontmatterConflictResolution, MergeConflictResolution, OutOfSyncSkill, ResolutionStrategy, SkillMerge, SyncMismatchType } from './types.js';
+import type { Conflict, ConflictResolution, ConflictVariant, DependentConflict, DependentConflictResolution, ManualMerge, OutOfSyncResolution } from './types.js';
+import type { DanglingReference, DanglingReferenceResolution, Deletion, DeletionResolution } from './types.js';
+
+type InquirerImpl = typeof prompter;
 
-type InquirerImpl = typeof inquirer;
+/**
+ * Every distinct version of a conflicting skill, falling back to the A/B pair
+ */
+function getConflictVariants(conflict: Conflict): ConflictVariant[] {
+  if (conflict.variants && conflict.variants.length > 0) {
+    return conflict.variants;
+  }
+  return [
+    { platforms: [conflict.platformA], paths: [conflict.pathA], hash: conflict.hashA, content: conflict.contentA || '' },
+    { platforms: [conflict.platformB], paths: [conflict.pathB], hash: conflict.hashB, content: conflict.contentB || '' }
+  ];
+}
+
+function formatHolders(variant: ConflictVariant): string {
+  return variant.platforms.map(platform => `.${platform}`).join(', ');
+}
 
 function formatConflictDetails(conflict: Conflict): string {
   const lines: string[] = [];
+  const variants = getConflictVariants(conflict);
+  const colors = [chalk.cyan, chalk.magenta, chalk.blue, chalk.yellow, chalk.green];
+  const colorFor = (index: number) => colors[index % colors.length];
 
   lines.push(chalk.bold.red(`\n⚠️  Conflict detected: ${conflict.skillName}`));
 
+  if (variants.length > 2) {
+    lines.push(chalk.gray(`${variants.length} different versions exist across ${variants.flatMap(v => v.platforms).length} platforms.`));
+  }
+
   if (conflict.conflictType === 'frontmatter') {
     lines.push(chalk.yellow(`\nConflict type: Frontmatter (metadata) only`));
-    lines.push(chalk.gray(`Both files reference the same common skill, but have different metadata.`));
-
-    const parsedA = matter(conflict.contentA || '');
-    const parsedB = matter(conflict.contentB || '');
-
-    lines.push(chalk.cyan(`\n.${conflict.platformA} version frontmatter:`));
-    lines.push(chalk.gray(JSON.stringify(parsedA.data, null, 2)));
+    lines.push(chalk.gray(`All files reference the same common skill, but have different metadata.`));
 
-    lines.push(chalk.magenta(`\n.${conflict.platformB} version frontmatter:`));
-    lines.push(chalk.gray(JSON.stringify(parsedB.data, null, 2)));
+    variants.forEach((variant, index) => {
+      const parsed = matter(variant.content);
+      lines.push(colorFor(index)(`\n${formatHolders(variant)} version frontmatter:`));
+      lines.push(chalk.gray(JSON.stringify(parsed.data, null, 2)));
+    });
   } else {
     lines.push(chalk.yellow(`\nConflict type: Content`));
     lines.push(chalk.gray(`The files have different content.`));
 
-    if (conflict.contentA && conflict.contentB) {
-      const parsedA = matter(conflict.contentA);
-      const parsedB = matter(conflict.contentB);
-
-      // Show what each file references or contains
-      lines.push(chalk.cyan(`\n.${conflict.platformA} version:`));
-      if (parsedA.content.trim().startsWith('@')) {
-        lines.push(chalk.gray(`  References: ${parsedA.content.trim()}`));
-      } else {
-        lines.push(chalk.gray(`  Has ${parsedA.content.split('\n').length} lines of content`));
-      }
-
-      lines.push(chalk.magenta(`\n.${conflict.platformB} version:`));
-      if (parsedB.content.trim().startsWith('@')) {
-        lines.push(chalk.gray(`  References: ${parsedB.content.trim()}`));
-      } else {
-        lines.push(chalk.gray(`  Has ${parsedB.content.split('\n').length} lines of content`));
+    if (variants.every(variant => variant.content)) {
+      // Show what each version references or contains
+      variants.forEach((variant, index) => {
+        const parsed = matter(variant.content);
+        lines.push(colorFor(index)(`\n${formatHolders(variant)} version:`));
+        if (parsed.content.trim().startsWith('@')) {
+          lines.push(chalk.gray(`  References: ${parsed.content.trim()}`));
+        } else {
+          lines.push(chalk.gray(`  Has ${parsed.content.split('\n').length} lines of content`));
+        }
+      });
+
+      // Diff every other version against the first one
+      for (const variant of variants.slice(1)) {
+        const label = variants.length > 2 ? ` ${formatHolders(variants[0])} → ${formatHolders(variant)}` : '';
+        lines.push(chalk.gray(`\nDiff${label} (red = removed, green = added):`));
+        lines.push(formatDiff(variants[0].content, variant.content));
       }
-
-      lines.push(chalk.gray('\nDiff (red = removed, green = added):'));
-      lines.push(formatDiff(conflict.contentA, conflict.contentB));
     }
   }
 
@@ -56,57 +81,194 @@ function formatConflictDetails(conflict: Conflict): string {
   return lines.join('\n');
 }
 
-export async function resolveConflict(
+/**
+ * Choice value selecting a variant: 'use-a' and 'use-b' for the first two, 'use-variant:<index>' beyond
+ */
+function variantChoiceValue(index: number): string {
+  if (index === 0) return 'use-a';
+  if (index === 1) return 'use-b';
+  return `use-variant:${index}`;
+}
+
+function variantResolution(index: number): ConflictResolution {
+  if (index === 0) return { action: 'use-a' };
+  if (index === 1) return { action: 'use-b' };
+  return { action: 'use-variant', variant: index };
+}
+
+/**
+ * Choices for merging by hand, when a manual merge is possible, or a disabled one saying why it isn't
+ */
+function getManualMergeChoices(
+  manualMerge?: ManualMerge,
+  unavailable?: string
+): Array<{ name: string; value: string; disabled?: string }> {
+  if (!manualMerge) {
+    return unavailable ? [{ name: 'Merge by hand', value: 'edit', disabled: unavailable }] : [];
+  }
+  const choices = [{ name: 'Edit manually in $EDITOR', value: 'edit' }];
+  if (manualMerge.mergeTool) {
+    choices.unshift({ name: 'Open in merge tool', value: 'merge-tool' });
+  }
+  return choices;
+}
+
+/**
+ * Merge by hand in the merge tool or editor
+ * @returns Merged content, or null if the merge wasn't completed and the user should choose again
+ */
+async function runManualMerge(action: 'merge-tool' | 'edit', manualMerge: ManualMerge): Promise<string | null> {
+  const content = action === 'merge-tool' && manualMerge.mergeTool
+    ? await runMergeTool(manualMerge.mergeTool, manualMerge)
+    : await editInEditor(manualMerge);
+
+  if (content === null) {
+    logger.log(chalk.yellow(action === 'edit' ? 'Editor exited with an error, choose again.' : 'Merge tool exited with an error, choose again.'));
+    return null;
+  }
+  if (hasConflictMarkers(content)) {
+    logger.log(chalk.yellow('Merged skill still has conflict markers, choose again.'));
+    return null;
+  }
+  return content;
+}
+
+/**
+ * Pick the winning version of a platform conflict from a strategy
+ */
+async function resolveConflictByStrategy(
   conflict: Conflict,
-  inquirerImpl: InquirerImpl = inquirer,
-  options: { allowUseA?: boolean; allowUseB?: boolean; allowUseCommon?: boolean } = {}
+  variants: ConflictVariant[],
+  allowed: number[],
+  allowUseCommon: boolean,
+  strategy: ResolutionStrategy
 ): Promise<ConflictResolution> {
-  console.log(formatConflictDetails(conflict));
+  if (strategy === 'abort') {
+    throw strategyAbortError('platform', conflict.skillName);
+  }
 
-  const allowUseA = options.allowUseA ?? true;
-  const allowUseB = options.allowUseB ?? true;
+  if (strategy === 'common' && allowUseCommon) {
+    logStrategyResolution('platform', conflict.skillName, strategy, 'kept common version');
+    return { action: 'use-common' };
+  }
 
-  const choices: Array<{ name: string; value: ConflictResolution['action'] }> = [];
+  if (allowed.length === 0 || strategy === 'common') {
+    // No version can be picked for this strategy: leave every copy as is
+    logStrategyResolution('platform', conflict.skillName, strategy, 'left all versions unchanged');
+    return { action: 'keep-both' };
+  }
 
-  if (allowUseA) {
-    choices.push({
-      name: `Use .${conflict.platformA} version (overwrite .${conflict.platformB})`,
-      value: 'use-a'
-    });
+  // 'platform' keeps the version of the first enabled assistant that may win
+  let winner = allowed[0];
+  if (strategy === 'newest') {
+    const newestPerVariant = await Promise.all(
+      allowed.map(async index => variants[index].paths[await findNewest(variants[index].paths)])
+    );
+    winner = allowed[await findNewest(newestPerVariant)];
   }
 
-  if (allowUseB) {
+  logStrategyResolution(
+    'platform',
+    conflict.skillName,
+    strategy,
+    `kept ${formatHolders(variants[winner])} version`
+  );
+  return variantResolution(winner);
+}
+
+/**
+ * Resolve a conflict between platform versions of a skill
+ * @param conflict - Conflict to resolve (all variants are offered)
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param options - Which versions may be picked (`allowVariants` by index; `allowUseA`/`allowUseB` for the
+ *   first two), an optional `strategy` that resolves the conflict without prompting, and the versions
+ *   to offer for merging by hand (`manualMerge`) or the reason it isn't offered (`manualMergeUnavailable`)
+ * @returns Resolution action; `use-a`, `use-b` or `use-variant` name the winning version, `use-merged`
+ *   carries the content merged by hand
+ */
+export async function resolveConflict(
+  conflict: Conflict,
+  inquirerImpl: InquirerImpl = prompter,
+  options: {
+    allowUseA?: boolean;
+    allowUseB?: boolean;
+    allowUseCommon?: boolean;
+    allowVariants?: boolean[];
+    strategy?: ResolutionStrategy;
+    manualMerge?: ManualMerge;
+    manualMergeUnavailable?: string;
+  } = {}
+): Promise<ConflictResolution> {
+  const variants = getConflictVariants(conflict);
+  const isAllowed = (index: number): boolean =>
+    options.allowVariants?.[index] ??
+    (index === 0 ? options.allowUseA : index === 1 ? options.allowUseB : undefined) ??
+    true;
+
+  if (options.strategy) {
+    const allowed = variants.map((_, index) => index).filter(isAllowed);
+    return resolveConflictByStrategy(conflict, variants, allowed, Boolean(options.allowUseCommon), options.strategy);
+  }
+
+  logger.log(formatConflictDetails(conflict));
+
+  const choices: Array<{ name: string; value: string; disabled?: string }> = [];
+
+  variants.forEach((variant, index) => {
+    if (!isAllowed(index)) {
+      return;
+    }
+    const others = variants
+      .filter((_, otherIndex) => otherIndex !== index)
+      .map(formatHolders)
+      .join(', ');
     choices.push({
-      name: `Use .${conflict.platformB} version (overwrite .${conflict.platformA})`,
-      value: 'use-b'
+      name: `Use ${formatHolders(variant)} version (overwrite ${others})`,
+      value: variantChoiceValue(index)
     });
-  }
+  });
 
   if (options.allowUseCommon) {
     choices.push({ name: 'Use common version (discard platform edits)', value: 'use-common' });
   }
 
   choices.push(
-    { name: 'Keep both unchanged', value: 'keep-both' },
+    ...getManualMergeChoices(options.manualMerge, options.manualMergeUnavailable),
+    { name: variants.length > 2 ? 'Keep all unchanged' : 'Keep both unchanged', value: 'keep-both' },
     { name: 'Abort sync', value: 'abort' }
   );
 
-  const { action } = await inquirerImpl.prompt([
-    {
-      type: 'list',
-      name: 'action',
-      message: 'How would you like to resolve this conflict?',
-      choices
+  for (;;) {
+    const { action } = await inquirerImpl.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'How would you like to resolve this conflict?',
+        choices
+      }
+    ]);
+
+    if ((action === 'merge-tool' || action === 'edit') && options.manualMerge) {
+      const content = await runManualMerge(action, options.manualMerge);
+      if (content === null) {
+        continue;
+      }
+      return { action: 'use-merged', content };
     }
-  ]);
 
-  return { action };
+    const variantMatch = typeof action === 'string' ? action.match(/^use-variant:(\d+)$/) : null;
+    if (variantMatch) {
+      return variantResolution(Number(variantMatch[1]));
+    }
+
+    return { action };
+  }
 }
 
 /**
  * Format details for a dependent file conflict
  */
-function formatDependentConflictDetails(conflict: DependentConflict): string {
+async function formatDependentConflictDetails(conflict: DependentConflict): Promise<string> {
   const lines: string[] = [];
 
   lines.push(chalk.bold.red(`\n⚠️  Dependent file conflict: ${conflict.skillName}/${conflict.relativePath}`));
@@ -120,16 +282,50 @@ function formatDependentConflictDetails(conflict: DependentConflict): string {
 
     lines.push(chalk.magenta(`\nCommon hash:`));
     lines.push(chalk.gray(`  ${conflict.commonHash}`));
+    if (conflict.commonPath) {
+      lines.push(...await formatDependentDifference(conflict.commonPath, conflict.platformPath, 'common', conflict.platform));
+    }
   } else {
     lines.push(chalk.yellow(`\nConflict: Multiple versions exist with different content`));
     lines.push(chalk.cyan(`\n${conflict.platform} hash:`));
     lines.push(chalk.gray(`  ${conflict.platformHash}`));
+    const other = conflict.otherVersions?.[0];
+    if (other) {
+      lines.push(...await formatDependentDifference(other.path, conflict.platformPath, other.platform, conflict.platform));
+    }
   }
 
   lines.push('');
   return lines.join('\n');
 }
 
+/**
+ * Diff two versions of a dependent file, or compare their sizes when either is binary
+ */
+async function formatDependentDifference(
+  fromPath: string,
+  toPath: string,
+  fromLabel: string,
+  toLabel: string
+): Promise<string[]> {
+  let from: Buffer;
+  let to: Buffer;
+  try {
+    [from, to] = await Promise.all([fs.readFile(fromPath), fs.readFile(toPath)]);
+  } catch {
+    // Nothing to compare if either version can't be read
+    return [];
+  }
+
+  if (isBinaryContent(from) || isBinaryContent(to)) {
+    return [chalk.gray(`\nbinary file differs (${to.length} bytes vs ${from.length} bytes)`)];
+  }
+  return [
+    chalk.gray(`\nDiff (red = ${fromLabel}, green = ${toLabel}):`),
+    formatDiff(from.toString('utf8'), to.toString('utf8'))
+  ];
+}
+
 /**
  * Resolve a dependent file conflict through user interaction
  * @param conflict - The dependent file conflict to resolve
@@ -138,9 +334,9 @@ function formatDependentConflictDetails(conflict: DependentConflict): string {
  */
 async function resolveDependentConflict(
   conflict: DependentConflict,
-  inquirerImpl: InquirerImpl = inquirer
+  inquirerImpl: InquirerImpl = prompter
 ): Promise<DependentConflictResolution> {
-  console.log(formatDependentConflictDetails(conflict));
+  logger.log(await formatDependentConflictDetails(conflict));
 
   const choices = [
     { name: 'Keep common version', value: 'use-common' },
@@ -165,16 +361,20 @@ async function resolveDependentConflict(
  * Batch resolve multiple dependent file conflicts
  * @param conflicts - Array of dependent file conflicts
  * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param strategy - Resolve without prompting using this strategy
  * @returns Map of file paths to their resolutions
  */
 export async function resolveDependentConflicts(
   conflicts: DependentConflict[],
-  inquirerImpl: InquirerImpl = inquirer
+  inquirerImpl: InquirerImpl = prompter,
+  strategy?: ResolutionStrategy
 ): Promise<Map<string, DependentConflictResolution>> {
   const resolutions = new Map<string, DependentConflictResolution>();
 
   for (const conflict of conflicts) {
-    const resolution = await resolveDependentConflict(conflict, inquirerImpl);
+    const resolution = strategy
+      ? await resolveDependentConflictByStrategy(conflict, strategy)
+      : await resolveDependentConflict(conflict, inquirerImpl);
     const key = `${conflict.skillName}/${conflict.relativePath}`;
     resolutions.set(key, resolution);
 
@@ -186,6 +386,153 @@ export async function resolveDependentConflicts(
   return resolutions;
 }
 
+/**
+ * Format details for a skill or dependent file deleted on one side
+ */
+function formatDeletionDetails(deletion: Deletion): string {
+  const lines: string[] = [];
+  const subject = deletion.relativePath
+    ? `Deleted file: ${deletion.skillName}/${deletion.relativePath}`
+    : `Deleted skill: ${deletion.skillName}`;
+
+  lines.push(chalk.bold.red(`\n⚠️  ${subject}`));
+  lines.push(chalk.yellow(`\nDeleted from ${deletion.deletedFrom.join(', ')} since the last sync`));
+  lines.push(chalk.gray(`Still present in: ${formatSites(deletion.remaining)}`));
+  for (const copy of deletion.remaining) {
+    lines.push(chalk.gray(`  ${copy.path}`));
+  }
+  if (!deletion.restorable) {
+    lines.push(chalk.gray('\nNo synced version was recorded, so it can\'t be restored.'));
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Resolve a deletion through user interaction
+ * @param deletion - Deleted skill or dependent file
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @returns Resolution action
+ */
+async function resolveDeletion(
+  deletion: Deletion,
+  inquirerImpl: InquirerImpl = prompter
+): Promise<DeletionResolution> {
+  logger.log(formatDeletionDetails(deletion));
+
+  const choices = [{ name: `Delete from ${formatSites(deletion.remaining)}`, value: 'delete' }];
+  if (deletion.restorable) {
+    choices.push({ name: `Restore in ${deletion.deletedFrom.join(', ')}`, value: 'restore' });
+  } else {
+    choices.push({ name: 'Keep unchanged', value: 'keep' });
+  }
+  choices.push({ name: 'Abort sync', value: 'abort' });
+
+  const { action } = await inquirerImpl.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'How would you like to handle this deletion?',
+      choices
+    }
+  ]);
+
+  return { action: action as DeletionResolution['action'] };
+}
+
+/**
+ * Batch resolve skills and dependent files deleted on one side
+ * @param deletions - Deleted skills or dependent files
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param strategy - Resolve without prompting using this strategy
+ * @returns Resolutions in the same order as the deletions, up to the first abort
+ */
+export async function resolveDeletions(
+  deletions: Deletion[],
+  inquirerImpl: InquirerImpl = prompter,
+  strategy?: ResolutionStrategy
+): Promise<DeletionResolution[]> {
+  const resolutions: DeletionResolution[] = [];
+
+  for (const deletion of deletions) {
+    const resolution = strategy
+      ? resolveDeletionByStrategy(deletion, strategy)
+      : await resolveDeletion(deletion, inquirerImpl);
+    resolutions.push(resolution);
+
+    if (resolution.action === 'abort') {
+      break;
+    }
+  }
+
+  return resolutions;
+}
+
+/**
+ * Ask for the description of a new skill
+ * @param name - Name of the skill
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @returns The description
+ */
+export async function askSkillDescription(name: string, inquirerImpl: InquirerImpl = prompter): Promise<string> {
+  const { description } = await inquirerImpl.prompt([
+    {
+      type: 'input',
+      name: 'description',
+      message: `What does ${name} do, and when should it be used?`,
+      validate: (input: string) => {
+        const error = validateSkillDescription(input);
+        return error ? `Description ${error}` : true;
+      }
+    }
+  ]);
+  return String(description).trim();
+}
+
+/**
+ * Resolve a dangling reference through user interaction
+ * @param reference - Platform skill whose @ reference points at nothing
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @returns Repair to apply
+ */
+export async function resolveDanglingReference(
+  reference: DanglingReference,
+  inquirerImpl: InquirerImpl = prompter
+): Promise<DanglingReferenceResolution> {
+  logger.log(chalk.bold.red(`\n⚠️  Dangling reference: ${reference.skillName} (${reference.platform})`));
+  logger.log(chalk.gray(`${reference.path} references ${reference.reference}`));
+  logger.log(chalk.gray(`which resolves to ${reference.target}, a file that doesn't exist.\n`));
+
+  const choices: Array<{ name: string; value: string }> = [];
+  if (reference.commonPath) {
+    choices.push({ name: `Point it to ${reference.commonPath}`, value: 'repoint' });
+  }
+  reference.inlineCopies.forEach((copy, index) => {
+    choices.push({ name: `Recreate the common skill from the ${copy.platform} copy`, value: `recreate:${index}` });
+  });
+  choices.push(
+    { name: `Delete the ${reference.platform} skill`, value: 'delete' },
+    { name: 'Leave unchanged', value: 'keep' },
+    { name: 'Abort', value: 'abort' }
+  );
+
+  const { action } = await inquirerImpl.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'How would you like to repair this reference?',
+      choices
+    }
+  ]);
+
+  const recreateMatch = typeof action === 'string' ? action.match(/^recreate:(\d+)$/) : null;
+  if (recreateMatch) {
+    return { action: 'recreate', sourcePath: reference.inlineCopies[Number(recreateMatch[1])].path };
+  }
+  return { action: action as DanglingReferenceResolution['action'] };
+}
+
 /**
  * Format details for an out-of-sync skill (pairwise comparison)
  */
@@ -277,46 +624,92 @@ function getChoicesForMismatch(skill: OutOfSyncSkill): Array<{ name: string; val
   ];
 }
 
+/**
+ * Resolve an out-of-sync skill from a strategy
+ * Falls back to the common version when the platform version can't be kept
+ */
+async function resolveOutOfSyncByStrategy(
+  skill: OutOfSyncSkill,
+  strategy: ResolutionStrategy
+): Promise<OutOfSyncResolution> {
+  if (strategy === 'abort') {
+    throw strategyAbortError('out-of-sync', `${skill.skillName} (${skill.platform})`);
+  }
+
+  const canKeepPlatform = getChoicesForMismatch(skill).some(choice => choice.value === 'keep-platform');
+  const keepPlatform =
+    canKeepPlatform &&
+    (strategy === 'platform' || (strategy === 'newest' && (await findNewest([skill.platformPath, skill.commonPath])) === 0));
+
+  logStrategyResolution(
+    'out-of-sync',
+    skill.skillName,
+    strategy,
+    keepPlatform ? `kept ${skill.platform} version` : 'kept common version'
+  );
+  return { action: keepPlatform ? 'keep-platform' : 'keep-common' };
+}
+
 /**
  * Resolve an out-of-sync skill through user interaction
  * @param skill - The out-of-sync skill to resolve
  * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param strategy - Resolve without prompting using this strategy
  * @returns Resolution action
  */
 export async function resolveOutOfSyncSkill(
   skill: OutOfSyncSkill,
-  inquirerImpl: InquirerImpl = inquirer
+  inquirerImpl: InquirerImpl = prompter,
+  strategy?: ResolutionStrategy
 ): Promise<OutOfSyncResolution> {
-  console.log(formatOutOfSyncDetails(skill));
+  if (strategy) {
+    return resolveOutOfSyncByStrategy(skill, strategy);
+  }
+
+  logger.log(formatOutOfSyncDetails(skill));
 
+  // Manual merge choices go right before "Abort sync"
   const choices = getChoicesForMismatch(skill);
+  choices.splice(-1, 0, ...getManualMergeChoices(skill.manualMerge));
+
+  for (;;) {
+    const { action } = await inquirerImpl.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'How would you like to resolve this out-of-sync skill?',
+        choices
+      }
+    ]);
 
-  const { action } = await inquirerImpl.prompt([
-    {
-      type: 'list',
-      name: 'action',
-      message: 'How would you like to resolve this out-of-sync skill?',
-      choices
+    if ((action === 'merge-tool' || action === 'edit') && skill.manualMerge) {
+      const content = await runManualMerge(action, skill.manualMerge);
+      if (content === null) {
+        continue;
+      }
+      return { action: 'use-merged', content };
     }
-  ]);
 
-  return { action: action as OutOfSyncResolution['action'] };
+    return { action: action as OutOfSyncResolution['action'] };
+  }
 }
 
 /**
  * Batch resolve multiple out-of-sync skills
  * @param skills - Array of out-of-sync skills
  * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param strategy - Resolve without prompting using this strategy
  * @returns Array of resolutions in the same order as input skills
  */
 export async function resolveOutOfSyncSkills(
   skills: OutOfSyncSkill[],
-  inquirerImpl: InquirerImpl = inquirer
+  inquirerImpl: InquirerImpl = prompter,
+  strategy?: ResolutionStrategy
 ): Promise<OutOfSyncResolution[]> {
   const resolutions: OutOfSyncResolution[] = [];
 
   for (const skill of skills) {
-    const resolution = await resolveOutOfSyncSkill(skill, inquirerImpl);
+    const resolution = await resolveOutOfSyncSkill(skill, inquirerImpl, strategy);
     resolutions.push(resolution);
 
     if (resolution.action === 'abort') {
@@ -326,3 +719,166 @@ export async function resolveOutOfSyncSkills(
 
   return resolutions;
 }
+
+/**
+ * Format the conflicting regions of a three-way merge
+ */
+function formatMergeConflictDetails(merge: SkillMerge): string {
+  const lines: string[] = [];
+  const { skill } = merge;
+
+  lines.push(chalk.bold.yellow(`\n⚠️  Merge conflict: ${skill.skillName}`));
+  lines.push(chalk.gray(`Both ${skill.platform} and common changed since the last sync; non-overlapping edits were merged.`));
+
+  for (const chunk of merge.chunks) {
+    if (chunk.kind !== 'conflict') {
+      continue;
+    }
+    lines.push(chalk.cyan(`\n${skill.platform}:`));
+    lines.push(...chunk.ours.map(line => chalk.gray(`  ${line}`)));
+    lines.push(chalk.magenta('common:'));
+    lines.push(...chunk.theirs.map(line => chalk.gray(`  ${line}`)));
+  }
+
+  if (merge.frontmatterConflicts.length > 0) {
+    lines.push(chalk.yellow(`\nConflicting frontmatter fields: ${merge.frontmatterConflicts.join(', ')}`));
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Resolve the conflicts left by a three-way merge through user interaction
+ * @param merge - Merge with conflicting regions or fields
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @param strategy - Resolve without prompting using this strategy (an out-of-sync conflict)
+ * @returns Resolution action
+ */
+export async function resolveMergeConflict(
+  merge: SkillMerge,
+  inquirerImpl: InquirerImpl = prompter,
+  strategy?: ResolutionStrategy
+): Promise<MergeConflictResolution> {
+  if (strategy) {
+    const { skill } = merge;
+    if (strategy === 'abort') {
+      throw strategyAbortError('out-of-sync', `${skill.skillName} (${skill.platform})`);
+    }
+    const keepPlatform =
+      strategy === 'platform' ||
+      (strategy === 'newest' && (await findNewest([skill.platformPath, skill.commonPath])) === 0);
+    logStrategyResolution(
+      'out-of-sync',
+      skill.skillName,
+      strategy,
+      `merged, conflicting parts from ${keepPlatform ? skill.platform : 'common'}`
+    );
+    return { action: keepPlatform ? 'keep-platform' : 'keep-common' };
+  }
+
+  logger.log(formatMergeConflictDetails(merge));
+
+  const { platform } = merge.skill;
+  const choices = [
+    { name: `Use ${platform} side for conflicting parts`, value: 'keep-platform' },
+    { name: 'Use common side for conflicting parts', value: 'keep-common' },
+    { name: `Write conflict markers to the ${platform} skill and resolve manually`, value: 'markers' },
+    { name: 'Abort sync', value: 'abort' }
+  ];
+
+  const { action } = await inquirerImpl.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'How would you like to resolve this merge conflict?',
+      choices
+    }
+  ]);
+
+  return { action: action as MergeConflictResolution['action'] };
+}
+
+/**
+ * Render a frontmatter value for display and editing
+ */
+function formatFrontmatterValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Parse an edited frontmatter value, keeping the type of the platform value
+ */
+function parseFrontmatterValue(text: string, targetValue: unknown): unknown {
+  const trimmed = text.trim();
+  if (typeof targetValue === 'string') {
+    return trimmed;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return trimmed;
+  }
+}
+
+function formatFrontmatterConflictDetails(conflict: FrontmatterConflict, skillName: string): string {
+  const lines: string[] = [];
+  const commonText = formatFrontmatterValue(conflict.commonValue);
+  const targetText = formatFrontmatterValue(conflict.targetValue);
+
+  lines.push(chalk.bold.yellow(`\n⚠️  Frontmatter conflict: ${skillName} (field "${conflict.field}")`));
+  lines.push(chalk.cyan('\nCommon value:'));
+  lines.push(chalk.gray(commonText));
+  lines.push(chalk.magenta('\nPlatform value:'));
+  lines.push(chalk.gray(targetText));
+  lines.push(chalk.gray('\nDiff (red = common, green = platform):'));
+  lines.push(formatDiff(`${commonText}\n`, `${targetText}\n`));
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Resolve a frontmatter field conflict through user interaction
+ * @param conflict - Field whose common and platform values differ
+ * @param skillName - Skill the field belongs to
+ * @param inquirerImpl - Inquirer implementation (for testing)
+ * @returns Resolution action, with the new value when edited
+ */
+export async function resolveFrontmatterConflict(
+  conflict: FrontmatterConflict,
+  skillName: string,
+  inquirerImpl: InquirerImpl = prompter
+): Promise<FrontmatterConflictResolution> {
+  logger.log(formatFrontmatterConflictDetails(conflict, skillName));
+
+  const choices = [
+    { name: 'Use common value', value: 'common' },
+    { name: 'Keep platform value', value: 'target' },
+    { name: 'Edit value', value: 'edit' },
+    { name: 'Skip remaining conflicts for this skill', value: 'skip-all' }
+  ];
+
+  const { action } = await inquirerImpl.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'How would you like to resolve this frontmatter conflict?',
+      choices
+    }
+  ]);
+
+  if (action !== 'edit') {
+    return { action: action as FrontmatterConflictResolution['action'] };
+  }
+
+  const { value } = await inquirerImpl.prompt([
+    {
+      type: 'editor',
+      name: 'value',
+      message: `Edit "${conflict.field}":`,
+      default: formatFrontmatterValue(conflict.targetValue)
+    }
+  ]);
+
+  return { action: 'edit', value: parseFrontmatterValue(String(value), conflict.targetValue) };
+}
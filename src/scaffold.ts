@@ -0,0 +1,125 @@
+import { fs } from './io.js';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { rehashCommonSkill } from './syncer.js';
+import { copyDirectory } from './rename.js';
+import { commonSkillsDir, inCommonDir } from './common.js';
+import type { AssistantConfig, NewSkillOptions, SkillFolder } from './types.js';
+
+/** User-defined skill templates */
+export const TEMPLATES_DIR = '.agents-common/templates';
+
+/** Optional skill folders, from the Agent Skills specification */
+export const SKILL_FOLDERS: SkillFolder[] = ['scripts', 'references', 'assets'];
+
+/**
+ * Check a skill name against the Agent Skills specification
+ * @returns Why the name is invalid, or null if it's valid
+ */
+export function validateSkillName(name: string): string | null {
+  if (name.length < 1 || name.length > 64) {
+    return 'must be 1-64 characters';
+  }
+  if (!/^[\p{Ll}\p{Nd}-]+$/u.test(name)) {
+    return 'may only contain lowercase letters, numbers and hyphens';
+  }
+  if (name.startsWith('-') || name.endsWith('-')) {
+    return 'must not start or end with a hyphen';
+  }
+  if (name.includes('--')) {
+    return 'must not contain consecutive hyphens';
+  }
+  return null;
+}
+
+/**
+ * Check a skill description against the Agent Skills specification
+ * @returns Why the description is invalid, or null if it's valid
+ */
+export function validateSkillDescription(description: string): string | null {
+  if (description.trim().length === 0) {
+    return 'must not be empty';
+  }
+  if (description.length > 1024) {
+    return 'must be at most 1024 characters';
+  }
+  return null;
+}
+
+function defaultSkillBody(name: string): string {
+  const title = name.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  return `# ${title}\n\n## Instructions\n\nStep-by-step instructions for the agent.\n\n## Examples\n\nExamples of inputs and outputs.\n`;
+}
+
+/**
+ * Create a skill in common
+ *
+ * Templates are folders in `.agents-common/templates`, copied as they are;
+ * `{{name}}` and `{{description}}` in the body of their SKILL.md are replaced, and `name` and
+ * `description` are always set. The skill gets a sync hash, so the platform
+ * references created for it are in sync right away.
+ * @param baseDir - Base directory of the sync
+ * @param configs - Enabled assistants, where the name must not be taken either
+ * @param options - Skill to create, with a description
+ * @returns Path to the common SKILL.md
+ * @throws Error if the name or description is invalid, the name is taken or the template doesn't exist
+ */
+export async function createSkill(
+  baseDir: string,
+  configs: AssistantConfig[],
+  options: NewSkillOptions & { description: string }
+): Promise<string> {
+  const { name, description, template, folders = [] } = options;
+  const nameError = validateSkillName(name);
+  if (nameError) {
+    throw new Error(`Invalid skill name "${name}": ${nameError}`);
+  }
+  const descriptionError = validateSkillDescription(description);
+  if (descriptionError) {
+    throw new Error(`Invalid description: ${descriptionError}`);
+  }
+
+  const taken: string[] = [];
+  for (const site of [{ name: 'common', skillsDir: commonSkillsDir() }, ...configs]) {
+    try {
+      await fs.access(join(baseDir, site.skillsDir, name));
+      taken.push(site.name);
+    } catch {
+      // Free
+    }
+  }
+  if (taken.length > 0) {
+    throw new Error(`Skill "${name}" already exists in: ${taken.join(', ')}`);
+  }
+
+  const skillPath = join(baseDir, commonSkillsDir(), name);
+  const commonPath = join(skillPath, 'SKILL.md');
+  let data: Record<string, unknown> = {};
+  let body = defaultSkillBody(name);
+  if (template) {
+    const templatePath = join(baseDir, inCommonDir(TEMPLATES_DIR), template);
+    try {
+      await fs.access(templatePath);
+    } catch {
+      throw new Error(`Template "${template}" not found in ${inCommonDir(TEMPLATES_DIR)}`);
+    }
+    await copyDirectory(templatePath, skillPath);
+    try {
+      const parsed = matter(await fs.readFile(commonPath, 'utf8'));
+      data = parsed.data;
+      body = parsed.content.replaceAll('{{name}}', name).replaceAll('{{description}}', description);
+    } catch {
+      // Template without a SKILL.md: use the default body
+    }
+  }
+
+  const { name: _name, description: _description, ...fields } = data;
+  await fs.mkdir(skillPath, { recursive: true });
+  await fs.writeFile(commonPath, matter.stringify(body, { name, description, ...fields }));
+  for (const folder of folders) {
+    await fs.mkdir(join(skillPath, folder), { recursive: true });
+  }
+
+  await rehashCommonSkill(skillPath);
+  return commonPath;
+}
@@ -1,5 +1,7 @@
-import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { fs } from './io.js';
+import { join, dirname, relative } from 'path';
+import { runJob } from './concurrency.js';
+import { commonSkillsDir } from './common.js';
 import type { AssistantConfig } from './types.js';
 
 export interface WalkDirResult {
@@ -9,45 +11,58 @@ export interface WalkDirResult {
   relativePath: string;
 }
 
-async function* walkDir(
+async function walkDir(
   dir: string,
   agent: string,
   baseDir: string,
-  originalBaseDir: string
-): AsyncGenerator<WalkDirResult> {
+  originalBaseDir: string,
+  skillsDir: string = dir
+): Promise<WalkDirResult[]> {
+  let entries;
   try {
-    const entries = await fs.readdir(dir, { withFileTypes: true });
-    for (const entry of entries) {
-      const fullPath = join(dir, entry.name);
-      if (entry.isDirectory()) {
-        yield* walkDir(fullPath, agent, baseDir, originalBaseDir);
-      } else if (entry.name === 'SKILL.md') {
-        const relativePath = fullPath.substring(baseDir.length + 1);
-        const parts = relativePath.split('/');
-        const skillName = parts[2];
-
-        // Reconstruct the path using the original baseDir to preserve format
-        // Use string concatenation to avoid path normalization
-        const separator = originalBaseDir.endsWith('/') ? '' : '/';
-        const resultPath = originalBaseDir + separator + relativePath;
-
-        yield {
-          agent,
-          skillName,
-          path: resultPath,
-          relativePath
-        };
-      }
-    }
+    entries = await runJob(() => fs.readdir(dir, { withFileTypes: true }));
   } catch {
     // Directory doesn't exist
+    return [];
   }
+
+  // Subdirectories are walked concurrently, their reads sharing the jobs limit; results stay in directory order
+  const results = await Promise.all(entries.map(async (entry): Promise<WalkDirResult[]> => {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory() && agent === 'common' && entry.name.startsWith('.')) {
+      // Tool state in .agents-common (e.g. .history backups) is not a skill
+      return [];
+    }
+    if (entry.isDirectory()) {
+      return walkDir(fullPath, agent, baseDir, originalBaseDir, skillsDir);
+    } else if (entry.name === 'SKILL.md') {
+      // The common directory may be outside the base directory
+      const relativePath = relative(baseDir, fullPath);
+      // The skill is the first folder inside the skills folder, however deep that one is
+      const skillName = fullPath.substring(skillsDir.length + 1).split('/')[0];
+
+      // Reconstruct the path using the original baseDir to preserve format
+      // Use string concatenation to avoid path normalization
+      const separator = originalBaseDir.endsWith('/') ? '' : '/';
+      const resultPath = originalBaseDir + separator + relativePath;
+
+      return [{
+        agent,
+        skillName,
+        path: resultPath,
+        relativePath
+      }];
+    }
+    return [];
+  }));
+
+  return results.flat();
 }
 
 interface ScanResult {
   /** Map of assistant name to their skills (e.g., { claude: [...], codex: [...], kilo: [...] }) */
   platforms: Record<string, WalkDirResult[]>;
-  /** Skills in .agents-common */
+  /** Skills in the common directory (.agents-common unless relocated) */
   common: WalkDirResult[];
 }
 
@@ -68,27 +83,19 @@ export async function scanSkills(
   ];
 
   const platforms: Record<string, WalkDirResult[]> = {};
-  const common: WalkDirResult[] = [];
 
   // Normalize the base directory for filesystem operations
   const normalizedBaseDir = join(baseDir);
 
-  // Scan each enabled assistant platform
-  for (const config of configs) {
-    const platformSkills: WalkDirResult[] = [];
-    const skillsPath = join(baseDir, config.skillsDir);
-
-    for await (const skill of walkDir(skillsPath, config.name, normalizedBaseDir, baseDir)) {
-      platformSkills.push(skill);
-    }
-
-    platforms[config.name] = platformSkills;
-  }
-
-  // Scan .agents-common
-  for await (const skill of walkDir(join(baseDir, '.agents-common'), 'common', normalizedBaseDir, baseDir)) {
-    common.push(skill);
-  }
+  // Scan each enabled assistant platform and .agents-common concurrently
+  const [common, ...platformSkills] = await Promise.all(
+    [{ name: 'common', skillsDir: commonSkillsDir() }, ...configs].map(config =>
+      walkDir(join(baseDir, config.skillsDir), config.name, normalizedBaseDir, baseDir)
+    )
+  );
+  configs.forEach((config, index) => {
+    platforms[config.name] = platformSkills[index];
+  });
 
   return { platforms, common };
 }
@@ -0,0 +1,241 @@
+import { fs } from './io.js';
+import { join } from 'path';
+import { computeFileHash } from './dependents.js';
+import { commonSkillsDir, inCommonDir } from './common.js';
+import { runJob } from './concurrency.js';
+import type { FileStat } from './io.js';
+import type { SkillTargets } from './types.js';
+
+/** Sync state manifest */
+export const SYNC_STATE_PATH = '.agents-common/.sync-state.json';
+
+/**
+ * A file as the last sync left it
+ */
+export interface FileState {
+  /** Last modification time in milliseconds since the epoch */
+  mtimeMs: number;
+  /** Size in bytes */
+  size: number;
+  /** Content hash (sha256-<hex>) */
+  hash: string;
+}
+
+/**
+ * Manifest stored in `.agents-common/.sync-state.json`
+ */
+export interface SyncState {
+  /** Manifest format version */
+  version: 1;
+  /** Skill folders the state covers; syncing a different set of assistants needs a full sync */
+  skillsDirs: string[];
+  /** Targeting rules of the config; changing them needs a full sync */
+  targets?: Record<string, SkillTargets>;
+  /** Folders of the enabled assistants that existed; common skills are linked into a new one by a full sync */
+  assistantDirs?: string[];
+  /** Files of each skill (common and platform copies), by path relative to the base directory */
+  skills: Record<string, Record<string, FileState>>;
+}
+
+type FileStats = Map<string, FileStat>;
+type StatMap = Map<string, FileStats>;
+
+/**
+ * Read the sync state manifest
+ * @returns The state, or null if it's missing, unreadable or from another format version
+ */
+export async function readSyncState(baseDir: string): Promise<SyncState | null> {
+  try {
+    const state = JSON.parse(await fs.readFile(join(baseDir, inCommonDir(SYNC_STATE_PATH)), 'utf-8')) as SyncState;
+    return state.version === 1 && state.skills ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the skills with files added, removed or changed since the state was recorded
+ *
+ * Files whose size and mtime match the state are trusted without reading them;
+ * the others are hashed, so touching a file without changing it doesn't count.
+ * @param baseDir - Base directory of the sync
+ * @param state - State recorded by the last sync
+ * @param platformSkillsDirs - Skill folders of the enabled assistants
+ * @param targets - Targeting rules of the config
+ * @param assistantDirs - Folders of the enabled assistants
+ * @returns Names of the changed skills, or null if a full sync is needed
+ */
+export async function findChangedSkills(
+  baseDir: string,
+  state: SyncState | null,
+  platformSkillsDirs: string[],
+  targets: Record<string, SkillTargets> = {},
+  assistantDirs: string[] = []
+): Promise<string[] | null> {
+  const skillsDirs = [commonSkillsDir(), ...platformSkillsDirs];
+  if (
+    !state ||
+    !sameDirs(state.skillsDirs, skillsDirs) ||
+    !sameTargets(state.targets, targets) ||
+    !sameDirs(state.assistantDirs ?? [], await existingDirs(baseDir, assistantDirs))
+  ) {
+    return null;
+  }
+
+  const current = await statSkillFiles(baseDir, skillsDirs);
+  const skillNames = [...new Set([...current.keys(), ...Object.keys(state.skills)])];
+  const unchanged = await Promise.all(skillNames.map(async skillName => {
+    const files = current.get(skillName) ?? new Map();
+    const recorded = state.skills[skillName] ?? {};
+    return files.size === Object.keys(recorded).length && filesMatch(baseDir, files, recorded);
+  }));
+  return skillNames.filter((_skillName, index) => !unchanged[index]).sort();
+}
+
+/**
+ * Record the files of the synced skills in the state manifest
+ * @param baseDir - Base directory of the sync
+ * @param platformSkillsDirs - Skill folders of the enabled assistants
+ * @param skillNames - Skills the sync went through, or null after a full sync
+ * @param unsettled - Skills left out of the state so the next sync checks them again (e.g. after a conflict)
+ * @param targets - Targeting rules of the config
+ * @param assistantDirs - Folders of the enabled assistants
+ */
+export async function updateSyncState(
+  baseDir: string,
+  platformSkillsDirs: string[],
+  skillNames: string[] | null,
+  unsettled: string[] = [],
+  targets: Record<string, SkillTargets> = {},
+  assistantDirs: string[] = []
+): Promise<void> {
+  const skillsDirs = [commonSkillsDir(), ...platformSkillsDirs];
+  const presentDirs = await existingDirs(baseDir, assistantDirs);
+  const previous = await readSyncState(baseDir);
+  const current = await statSkillFiles(baseDir, skillsDirs);
+
+  // Skills left out of an incremental sync keep their recorded state, so their changes are still picked up later
+  const skills: SyncState['skills'] = {};
+  if (
+    skillNames &&
+    previous &&
+    sameDirs(previous.skillsDirs, skillsDirs) &&
+    sameTargets(previous.targets, targets) &&
+    sameDirs(previous.assistantDirs ?? [], presentDirs)
+  ) {
+    const synced = new Set(skillNames);
+    for (const [skillName, files] of Object.entries(previous.skills)) {
+      if (!synced.has(skillName)) {
+        skills[skillName] = files;
+      }
+    }
+  } else if (skillNames) {
+    // Nothing trustworthy for the other skills: leave them out so the next sync goes through them
+    for (const skillName of current.keys()) {
+      if (!skillNames.includes(skillName)) {
+        current.delete(skillName);
+      }
+    }
+  }
+
+  // Files are hashed concurrently, sharing the jobs limit; entries keep the order of the scan
+  const recordedSkills = [...current].filter(([skillName]) => !skills[skillName] && !unsettled.includes(skillName));
+  const hashed = await Promise.all(recordedSkills.map(([skillName, files]) => {
+    const recorded = previous?.skills[skillName] ?? {};
+    return Promise.all([...files].map(async ([path, stat]): Promise<[string, FileState]> => {
+      const known = recorded[path];
+      const unchanged = known && known.mtimeMs === stat.mtimeMs && known.size === stat.size;
+      return [path, {
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+        hash: unchanged ? known.hash : await runJob(() => computeFileHash(join(baseDir, path)))
+      }];
+    }));
+  }));
+  recordedSkills.forEach(([skillName], index) => {
+    skills[skillName] = Object.fromEntries(hashed[index]);
+  });
+
+  const state: SyncState = {
+    version: 1,
+    skillsDirs,
+    ...(Object.keys(targets).length > 0 ? { targets } : {}),
+    ...(presentDirs.length > 0 ? { assistantDirs: presentDirs } : {}),
+    skills
+  };
+  await fs.writeFile(join(baseDir, inCommonDir(SYNC_STATE_PATH)), JSON.stringify(state, null, 2) + '\n', 'utf-8');
+}
+
+function sameDirs(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((dir, index) => dir === b[index]);
+}
+
+async function existingDirs(baseDir: string, dirs: string[]): Promise<string[]> {
+  const exists = await Promise.all(dirs.map(dir =>
+    runJob(() => fs.access(join(baseDir, dir))).then(() => true, () => false)
+  ));
+  return dirs.filter((_dir, index) => exists[index]);
+}
+
+function sameTargets(recorded: Record<string, SkillTargets> = {}, targets: Record<string, SkillTargets>): boolean {
+  return JSON.stringify(recorded) === JSON.stringify(targets);
+}
+
+async function filesMatch(baseDir: string, files: FileStats, recorded: Record<string, FileState>): Promise<boolean> {
+  // Sizes first, so a skill with a resized file isn't hashed at all
+  if ([...files].some(([path, stat]) => recorded[path]?.size !== stat.size)) {
+    return false;
+  }
+  const matches = await Promise.all([...files].map(async ([path, stat]) =>
+    recorded[path].mtimeMs === stat.mtimeMs ||
+    (await runJob(() => computeFileHash(join(baseDir, path)))) === recorded[path].hash
+  ));
+  return matches.every(Boolean);
+}
+
+/**
+ * Size and mtime of every file in each skill folder, grouped by skill name
+ *
+ * Folders are listed and files stat'ed concurrently, sharing the jobs limit; the
+ * map keeps the order of the folders whatever order the calls finish in.
+ */
+async function statSkillFiles(baseDir: string, skillsDirs: string[]): Promise<StatMap> {
+  const skillDirs = (await Promise.all(skillsDirs.map(async skillsDir => {
+    let entries;
+    try {
+      entries = await runJob(() => fs.readdir(join(baseDir, skillsDir), { withFileTypes: true }));
+    } catch {
+      return [];
+    }
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => ({ skillName: entry.name, dir: `${skillsDir}/${entry.name}` }));
+  }))).flat();
+  const statted = await Promise.all(skillDirs.map(skillDir => statFiles(baseDir, skillDir.dir)));
+
+  const skills: StatMap = new Map();
+  skillDirs.forEach(({ skillName }, index) => {
+    const files = skills.get(skillName) ?? new Map();
+    for (const [path, stat] of statted[index]) {
+      files.set(path, stat);
+    }
+    skills.set(skillName, files);
+  });
+  return skills;
+}
+
+async function statFiles(baseDir: string, dir: string): Promise<Array<[string, FileStat]>> {
+  const entries = await runJob(() => fs.readdir(join(baseDir, dir), { withFileTypes: true }));
+  const results = await Promise.all(entries.map(async (entry): Promise<Array<[string, FileStat]>> => {
+    const path = `${dir}/${entry.name}`;
+    if (entry.isDirectory()) {
+      return statFiles(baseDir, path);
+    } else if (entry.isFile()) {
+      // Only what the state compares: a file system may return full stats
+      const { mtimeMs, size } = await runJob(() => fs.stat(join(baseDir, path)));
+      return [[path, { mtimeMs, size }]];
+    }
+    return [];
+  }));
+  return results.flat();
+}
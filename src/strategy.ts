@@ -0,0 +1,72 @@
+import { fs } from './io.js';
+import { logger } from './ui.js';
+import type { ConflictKind, ResolutionStrategy, StrategyPolicy } from './types.js';
+
+/** Strategies accepted by --strategy */
+export const RESOLUTION_STRATEGIES: readonly ResolutionStrategy[] = ['common', 'platform', 'newest', 'abort'];
+
+/** Conflict kinds that accept a --strategy-<kind> override */
+export const CONFLICT_KINDS: readonly ConflictKind[] = ['out-of-sync', 'platform', 'dependent', 'frontmatter', 'deletion'];
+
+/**
+ * Validate a strategy name
+ * @param value - Value given on the command line
+ * @param option - Option name for the error message
+ * @throws Error if the value is not a known strategy
+ */
+export function parseStrategy(value: unknown, option: string = 'strategy'): ResolutionStrategy {
+  if (typeof value !== 'string' || !RESOLUTION_STRATEGIES.includes(value as ResolutionStrategy)) {
+    throw new Error(`--${option} must be one of ${RESOLUTION_STRATEGIES.join(', ')} (got "${value}")`);
+  }
+  return value as ResolutionStrategy;
+}
+
+/**
+ * Strategy that applies to a conflict kind
+ * @returns The override for the kind, the default strategy, or undefined to prompt
+ */
+export function getStrategy(policy: StrategyPolicy | undefined, kind: ConflictKind): ResolutionStrategy | undefined {
+  return policy?.[kind] ?? policy?.default;
+}
+
+/**
+ * Error thrown when the abort strategy meets a conflict
+ */
+export function strategyAbortError(kind: ConflictKind, subject: string): Error {
+  return new Error(`Sync aborted: ${kind} conflict in ${subject} (strategy: abort)`);
+}
+
+/**
+ * Pick the most recently modified path
+ * @param paths - Candidate paths; ties go to the earliest
+ * @returns Index of the newest path (missing files count as oldest)
+ */
+export async function findNewest(paths: string[]): Promise<number> {
+  let newestIndex = 0;
+  let newestTime = -Infinity;
+  for (const [index, path] of paths.entries()) {
+    let mtime = -Infinity;
+    try {
+      mtime = (await fs.stat(path)).mtimeMs;
+    } catch {
+      // Missing file never wins
+    }
+    if (mtime > newestTime) {
+      newestIndex = index;
+      newestTime = mtime;
+    }
+  }
+  return newestIndex;
+}
+
+/**
+ * Report a conflict resolved without prompting
+ */
+export function logStrategyResolution(
+  kind: ConflictKind,
+  subject: string,
+  strategy: ResolutionStrategy,
+  outcome: string
+): void {
+  logger.log(`Resolved ${kind} conflict in ${subject} with strategy "${strategy}": ${outcome}`);
+}
@@ -1,10 +1,23 @@
-import { promises as fs } from 'fs';
+import { fs } from './io.js';
 import { join, dirname, resolve, basename } from 'path';
 import { createHash } from 'crypto';
 import matter from 'gray-matter';
 import { normalizeBodyContent, pickCoreFrontmatter } from './frontmatter.js';
-import { ASSISTANT_MAP } from './types.js';
+import { getAssistantMap } from './types.js';
 import { buildCommonSkillReference } from './references.js';
+import { computeLegacyContentHash, detectDependentFiles } from './dependents.js';
+import { commonSkillsDir } from './common.js';
+import { readSkillTargets } from './targets.js';
+
+/**
+ * Version written to `metadata.sync.version` of common skills
+ *
+ * Version 4 leaves `metadata.sync` out of the hash, so it can be recomputed from the
+ * skill alone. Version 3 hashes dependent files as raw bytes; version 2 hashed them
+ * as utf8 text, which only differs for binary files. Earlier hashes stay valid and
+ * are only replaced when the skill changes.
+ */
+export const SYNC_METADATA_VERSION = 4;
 
 export async function refactorSkill(sourcePath: string): Promise<string | null> {
   const content = await fs.readFile(sourcePath, 'utf8');
@@ -23,29 +36,21 @@ export async function refactorSkill(sourcePath: string): Promise<string | null>
   // Navigate from the source directory to find the project root
   let projectRoot = resolve('.'); // Default to current working directory
 
-  // Extract all assistant directory names
-  const assistantDirs = Object.values(ASSISTANT_MAP).map(config => {
-    const skillsPath = typeof config === 'string' ? config : config.project;
-    return skillsPath.split('/')[0];
-  });
-
-  // Check if we're in any assistant directory structure
-  const dirParts = sourceDir.split('/');
-  let agentDirIndex = -1;
-
-  for (const assistantDir of assistantDirs) {
-    const index = dirParts.lastIndexOf(assistantDir);
-    if (index >= 0 && index > agentDirIndex) {
-      agentDirIndex = index;
+  // The project root holds the skills folder at one of the assistant skills paths,
+  // which may be overridden to any depth; the longest match wins
+  const skillsFolder = dirname(sourceDir);
+  let matchedPath = '';
+  for (const config of Object.values(getAssistantMap())) {
+    const skillsPaths = typeof config === 'string' ? [config] : [config.project, config.home];
+    for (const skillsPath of skillsPaths) {
+      if (skillsPath.length > matchedPath.length && skillsFolder.endsWith(`/${skillsPath}`)) {
+        matchedPath = skillsPath;
+        projectRoot = skillsFolder.slice(0, -(skillsPath.length + 1)) || '/';
+      }
     }
   }
 
-  if (agentDirIndex >= 0) {
-    // We're in an assistant directory, go up to the parent of that directory
-    projectRoot = '/' + dirParts.slice(0, agentDirIndex).join('/');
-  }
-
-  const commonPath = join(projectRoot, '.agents-common/skills', skillName, 'SKILL.md');
+  const commonPath = join(projectRoot, commonSkillsDir(), skillName, 'SKILL.md');
 
   // Ensure .agents-common directory exists
   await fs.mkdir(dirname(commonPath), { recursive: true });
@@ -59,13 +64,17 @@ export async function refactorSkill(sourcePath: string): Promise<string | null>
   // Compute hash of the new common skill (no dependents yet)
   const skillHash = computeSkillHash(coreFrontmatter, bodyContent, []);
 
-  // Add sync metadata to common frontmatter
+  // Add sync metadata to common frontmatter, keeping the other metadata and the assistants the skill goes to
   const commonFrontmatter = {
     ...coreFrontmatter,
     metadata: {
+      ...(coreFrontmatter.metadata && typeof coreFrontmatter.metadata === 'object' && !Array.isArray(coreFrontmatter.metadata)
+        ? coreFrontmatter.metadata as Record<string, unknown>
+        : {}),
       sync: {
-        version: 2,
-        hash: skillHash
+        version: SYNC_METADATA_VERSION,
+        hash: skillHash,
+        ...readSkillTargets(parsed.data as Record<string, unknown>)
       }
     }
   };
@@ -151,6 +160,8 @@ export async function copySkill(sourcePath: string, targetPath: string): Promise
 
 /**
  * Compute hash of skill state (frontmatter + body + dependent files)
+ *
+ * `metadata.sync` records the hash, so it's left out of it.
  * @param coreFrontmatter - CORE_FIELDS from skill
  * @param bodyContent - SKILL.md body content
  * @param dependentFiles - Array of dependent files with hashes
@@ -160,6 +171,17 @@ export function computeSkillHash(
   coreFrontmatter: Record<string, unknown>,
   bodyContent: string,
   dependentFiles: Array<{ path: string; hash: string }> = []
+): string {
+  return hashSkillState(withSyncMetadata(coreFrontmatter, null), bodyContent, dependentFiles);
+}
+
+/**
+ * Hash of skill state with the frontmatter as given, sync metadata included (versions 2 and 3)
+ */
+function hashSkillState(
+  coreFrontmatter: Record<string, unknown>,
+  bodyContent: string,
+  dependentFiles: Array<{ path: string; hash: string }>
 ): string {
   // Stable stringification for deterministic hashing - sorts object keys recursively
   function stableStringify(obj: unknown): string {
@@ -196,12 +218,74 @@ export function computeSkillHash(
   return `sha256-${hash.digest('hex')}`;
 }
 
+/**
+ * Core frontmatter with its sync metadata replaced, or left out when null
+ */
+function withSyncMetadata(
+  frontmatter: Record<string, unknown>,
+  sync: Record<string, unknown> | null
+): Record<string, unknown> {
+  const { metadata, ...fields } = frontmatter;
+  const { sync: _sync, ...otherMetadata } =
+    metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata as Record<string, unknown> : {};
+  const nextMetadata = sync ? { ...otherMetadata, sync } : otherMetadata;
+  return Object.keys(nextMetadata).length > 0 ? { ...fields, metadata: nextMetadata } : fields;
+}
+
+/**
+ * Recompute the hash of a common skill with the algorithm of the sync metadata version it records
+ *
+ * Version 4 hashes are recomputed from the skill alone. Versions 2 and 3 hashed the
+ * frontmatter together with the sync metadata it had at the time, which the hash then
+ * replaced. Those hashes can only be recomputed when the skill had no sync metadata other
+ * than its assistants yet, as when it was first moved to common.
+ * @param frontmatter - Frontmatter of the common skill
+ * @param bodyContent - Normalized body content
+ * @param skillDir - Common skill folder, to hash its dependent files
+ * @returns Whether the skill has a hash it still matches, or null if the hash can't be recomputed
+ */
+export async function verifySkillHash(
+  frontmatter: Record<string, unknown>,
+  bodyContent: string,
+  skillDir: string
+): Promise<boolean | null> {
+  const metadata =
+    frontmatter.metadata && typeof frontmatter.metadata === 'object' && !Array.isArray(frontmatter.metadata)
+      ? frontmatter.metadata as Record<string, unknown>
+      : undefined;
+  const sync =
+    metadata?.sync && typeof metadata.sync === 'object' && !Array.isArray(metadata.sync)
+      ? metadata.sync as Record<string, unknown>
+      : undefined;
+  if (typeof sync?.hash !== 'string') {
+    return false;
+  }
+  if (sync.version !== SYNC_METADATA_VERSION && sync.version !== 2 && sync.version !== 3) {
+    return null;
+  }
+
+  const dependentFiles = await Promise.all((await detectDependentFiles(skillDir)).map(async file => ({
+    path: file.relativePath,
+    hash: sync.version === 2 ? computeLegacyContentHash(await fs.readFile(file.absolutePath)) : file.hash
+  })));
+  const core = pickCoreFrontmatter(frontmatter);
+  if (sync.version === SYNC_METADATA_VERSION) {
+    return computeSkillHash(core, bodyContent, dependentFiles) === sync.hash;
+  }
+  const targets = readSkillTargets(frontmatter);
+  const candidates = [withSyncMetadata(core, null), ...(targets ? [withSyncMetadata(core, { ...targets })] : [])];
+  return candidates.some(candidate => hashSkillState(candidate, bodyContent, dependentFiles) === sync.hash)
+    ? true
+    : null;
+}
+
 /**
  * Update the main hash in a skill's frontmatter
  * @param skillPath - Path to the SKILL.md file
  * @param newHash - New hash value
+ * @param files - Dependent files included in the hash, recorded so their deletion can be detected
  */
-export async function updateMainHash(skillPath: string, newHash: string): Promise<void> {
+export async function updateMainHash(skillPath: string, newHash: string, files?: string[]): Promise<void> {
   const content = await fs.readFile(skillPath, 'utf8');
   const parsed = matter(content);
 
@@ -215,7 +299,9 @@ export async function updateMainHash(skillPath: string, newHash: string): Promis
       ...existingMetadata,
       sync: {
         ...existingSync,
-        hash: newHash
+        version: SYNC_METADATA_VERSION,
+        hash: newHash,
+        ...(files ? { files } : {})
       }
     }
   };
@@ -223,3 +309,23 @@ export async function updateMainHash(skillPath: string, newHash: string): Promis
   const newContent = matter.stringify(content, newData);
   await fs.writeFile(skillPath, newContent);
 }
+
+/**
+ * Recompute the hash of a common skill from its frontmatter, body and dependent files, like a sync does
+ * @param commonSkillPath - Common skill folder
+ * @param trackFiles - Record the dependent files in `metadata.sync.files` even when there are none
+ */
+export async function rehashCommonSkill(commonSkillPath: string, trackFiles: boolean = false): Promise<void> {
+  const commonPath = join(commonSkillPath, 'SKILL.md');
+  const parsed = matter(await fs.readFile(commonPath, 'utf8'));
+
+  const dependentFiles = (await detectDependentFiles(commonSkillPath))
+    .map(file => ({ path: file.relativePath, hash: file.hash }));
+  const files = dependentFiles.map(file => file.path).sort();
+  const newHash = computeSkillHash(
+    pickCoreFrontmatter(parsed.data as Record<string, unknown>),
+    normalizeBodyContent(parsed.content),
+    dependentFiles
+  );
+  await updateMainHash(commonPath, newHash, files.length > 0 || trackFiles ? files : undefined);
+}
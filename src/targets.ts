@@ -0,0 +1,86 @@
+import { fs } from './io.js';
+import matter from 'gray-matter';
+import type { SkillTargets } from './types.js';
+
+/**
+ * Decides whether an assistant gets a skill
+ */
+export type TargetFilter = (skillName: string, assistant: string) => boolean;
+
+/** Filter letting every assistant have every skill */
+export const ALL_TARGETS: TargetFilter = () => true;
+
+/**
+ * Targeting rules of a skill, from `metadata.sync.assistants` and `metadata.sync.exclude`
+ * @param data - Frontmatter of the skill
+ * @returns The rules, or null if the skill has none
+ */
+export function readSkillTargets(data: Record<string, unknown>): SkillTargets | null {
+  const metadata =
+    data?.metadata && typeof data.metadata === 'object' && !Array.isArray(data.metadata)
+      ? data.metadata as Record<string, unknown>
+      : undefined;
+  const sync =
+    metadata?.sync && typeof metadata.sync === 'object' && !Array.isArray(metadata.sync)
+      ? metadata.sync as Record<string, unknown>
+      : undefined;
+
+  const targets: SkillTargets = {};
+  for (const key of ['assistants', 'exclude'] as const) {
+    const names = sync?.[key];
+    if (Array.isArray(names)) {
+      targets[key] = names.filter((name): name is string => typeof name === 'string');
+    }
+  }
+  return Object.keys(targets).length > 0 ? targets : null;
+}
+
+/**
+ * Whether a skill name matches a glob, where `*` matches any characters and `?` a single one
+ */
+export function matchesSkillGlob(skillName: string, glob: string): boolean {
+  const pattern = [...glob]
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/, '\\$&'))
+    .join('');
+  return new RegExp(`^${pattern}$`).test(skillName);
+}
+
+function allows(targets: SkillTargets, assistant: string): boolean {
+  return (!targets.assistants || targets.assistants.includes(assistant)) && !targets.exclude?.includes(assistant);
+}
+
+/**
+ * Build the targeting of a sync from the config and the frontmatter of the skills
+ *
+ * Every rule matching a skill must let the assistant have it, config globs and
+ * frontmatter alike; a skill without rules goes to every assistant.
+ * @param rules - `targets` of the config, by skill name glob
+ * @param skills - Skill files to read the frontmatter of; for a name found more than once the
+ *   first file wins, so common skills come first
+ * @returns Filter telling whether an assistant gets a skill
+ */
+export async function loadTargetFilter(
+  rules: Record<string, SkillTargets> = {},
+  skills: Array<{ skillName: string; path: string }> = []
+): Promise<TargetFilter> {
+  const skillTargets = new Map<string, SkillTargets | null>();
+  for (const skill of skills) {
+    if (skillTargets.has(skill.skillName)) {
+      continue;
+    }
+    try {
+      skillTargets.set(skill.skillName, readSkillTargets(matter(await fs.readFile(skill.path, 'utf8')).data));
+    } catch {
+      // Unreadable: no rules of its own
+      skillTargets.set(skill.skillName, null);
+    }
+  }
+
+  return (skillName, assistant) => {
+    const targets = skillTargets.get(skillName);
+    return (!targets || allows(targets, assistant)) &&
+      Object.entries(rules).every(([glob, ruleTargets]) =>
+        !matchesSkillGlob(skillName, glob) || allows(ruleTargets, assistant)
+      );
+  };
+}
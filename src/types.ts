@@ -1,3 +1,8 @@
+import { dirname } from 'path';
+import { createSetting } from './context.js';
+import { logger } from './ui.js';
+import type { Logger, Prompt } from './ui.js';
+
 /**
  * Configuration for an AI assistant type
  */
@@ -24,6 +29,40 @@ export interface AssistantPathConfig {
   home: string;
 }
 
+/**
+ * Assistant declared in `customAssistants` of `.agents-common/config.json` (schema v2)
+ */
+export interface CustomAssistant {
+  /** Assistant identifier, distinct from the built-in ones */
+  name: string;
+  /** Project-local skills path (e.g. '.acme/skills') */
+  project: string;
+  /** Home skills path (default: the project path) */
+  home?: string;
+  /** Folder whose presence means the assistant is used in a project (default: first segment of the project path) */
+  detect?: string;
+}
+
+/**
+ * Skills paths replacing those of an assistant, from `paths` of `.agents-common/config.json` (schema v3)
+ */
+export interface AssistantPathOverride {
+  /** Project-local skills path (e.g. 'tools/.claude/skills') */
+  project?: string;
+  /** Home skills path */
+  home?: string;
+}
+
+/**
+ * Assistants a skill goes to, from `metadata.sync` of its frontmatter or `targets` of `.agents-common/config.json` (schema v4)
+ */
+export interface SkillTargets {
+  /** Only these assistants get the skill */
+  assistants?: string[];
+  /** These assistants never get the skill */
+  exclude?: string[];
+}
+
 /**
  * State of an assistant directory and its skills
  */
@@ -58,6 +97,25 @@ export interface SyncPair {
   target: AssistantState;
 }
 
+/**
+ * Optional folder of a skill, from the Agent Skills specification
+ */
+export type SkillFolder = 'scripts' | 'references' | 'assets';
+
+/**
+ * Skill created by `sync-skills new`
+ */
+export interface NewSkillOptions {
+  /** Skill name, also its folder name */
+  name: string;
+  /** What the skill does and when to use it (prompted for if missing) */
+  description?: string;
+  /** Folder in `.agents-common/templates` to create the skill from */
+  template?: string;
+  /** Empty optional folders to create */
+  folders?: SkillFolder[];
+}
+
 /**
  * Options for the main run function
  */
@@ -72,8 +130,64 @@ export interface RunOptions {
   reconfigure?: boolean;
   /** List installed skills and exit (default: false) */
   listMode?: boolean;
+  /** Print the changes a sync would make without writing to disk (default: false) */
+  dryRun?: boolean;
+  /** Write the planned changes as a SyncPlan JSON file (implies dryRun) */
+  planOutput?: string;
+  /** Execute the SyncPlan JSON file at this path instead of syncing */
+  applyPlan?: string;
+  /** List recorded runs and exit (default: false) */
+  history?: boolean;
+  /** Prune run history to this many runs (with history) */
+  historyKeep?: number;
+  /** Undo a recorded run: a run id, or true for the most recent run */
+  undo?: string | true;
+  /** Undo even if files changed since the run (default: false) */
+  force?: boolean;
+  /** Find platform skills whose @ reference points at nothing, and offer to repair them (default: false) */
+  doctor?: boolean;
+  /** Rename a skill in common and every enabled assistant instead of syncing */
+  rename?: { from: string; to: string };
+  /** Create a skill in common and reference it from every enabled assistant instead of syncing */
+  newSkill?: NewSkillOptions;
+  /** Migrate `.agents-common/config.json` to the current schema version instead of syncing */
+  configMigrate?: boolean;
+  /** Move the common directory there (relative to base directory or absolute) instead of syncing */
+  relocateCommon?: string;
+  /** Go through every skill, not only those changed since the last sync (default: false) */
+  full?: boolean;
+  /** Filesystem operations run at once when scanning and hashing (default: 8) */
+  jobs?: number;
+  /** Resolve conflicts without prompting, per conflict kind (default: prompt) */
+  strategy?: StrategyPolicy;
+  /** Called with progress events while syncing */
+  onEvent?: (event: SyncEvent) => void;
 }
 
+/**
+ * How a conflict is resolved without prompting
+ * - common: keep the `.agents-common` version
+ * - platform: keep the platform version (the first enabled assistant's, when several differ)
+ * - newest: keep the most recently modified version
+ * - abort: stop the sync and roll back
+ */
+export type ResolutionStrategy = 'common' | 'platform' | 'newest' | 'abort';
+
+/**
+ * Kinds of conflicts a strategy can be set for
+ * - out-of-sync: platform skill differs from its common skill
+ * - platform: platforms hold different versions of a skill
+ * - dependent: dependent file versions differ
+ * - frontmatter: a frontmatter field differs between common and a platform
+ * - deletion: a skill or dependent file was deleted on one side since the last sync
+ */
+export type ConflictKind = 'out-of-sync' | 'platform' | 'dependent' | 'frontmatter' | 'deletion';
+
+/**
+ * Strategy used for each conflict kind; `default` applies to kinds without an override
+ */
+export type StrategyPolicy = { default?: ResolutionStrategy } & Partial<Record<ConflictKind, ResolutionStrategy>>;
+
 /**
  * Detected conflict between skills
  */
@@ -98,6 +212,25 @@ export interface Conflict {
   contentB?: string;
   /** Type of conflict: 'content' for full content, 'frontmatter' for metadata only */
   conflictType?: 'content' | 'frontmatter';
+  /**
+   * Every distinct version of the skill across enabled platforms, in platform order.
+   * The first two variants are the ones described by the A/B fields.
+   */
+  variants?: ConflictVariant[];
+}
+
+/**
+ * One distinct version of a skill, shared by one or more platforms
+ */
+export interface ConflictVariant {
+  /** Platforms holding this version */
+  platforms: string[];
+  /** Paths of this version, parallel to platforms */
+  paths: string[];
+  /** Normalized hash shared by all holders */
+  hash: string;
+  /** Content of the first holder */
+  content: string;
 }
 
 /**
@@ -105,7 +238,27 @@ export interface Conflict {
  */
 export interface ConflictResolution {
   /** Action to take */
-  action: 'abort' | 'use-a' | 'use-b' | 'keep-both' | 'use-common';
+  action: 'abort' | 'use-a' | 'use-b' | 'use-variant' | 'keep-both' | 'use-common' | 'use-merged';
+  /** Index into Conflict.variants of the winning version (use-variant only) */
+  variant?: number;
+  /** Skill content merged by hand (use-merged only) */
+  content?: string;
+}
+
+/**
+ * Versions of a skill to merge by hand in a merge tool or editor
+ */
+export interface ManualMerge {
+  /** Common ancestor, empty if unknown */
+  base: string;
+  /** Platform version */
+  local: string;
+  /** Version it's merged with */
+  remote: string;
+  /** Names shown on conflict markers */
+  labels: { local: string; remote: string };
+  /** Merge tool command, or null to only offer the editor */
+  mergeTool: string | null;
 }
 
 /**
@@ -122,7 +275,8 @@ export interface ParsedSkill {
 
 /**
  * Configurable map of assistant names to their folder names
- * Add new assistants here as key-value pairs
+ * Add new assistants here as key-value pairs, or declare them per project in
+ * `customAssistants` of `.agents-common/config.json`
  *
  * Use getAssistantConfigs() to convert this map into AssistantConfig[] objects.
  */
@@ -140,6 +294,76 @@ export const ASSISTANT_MAP: Record<string, string | AssistantPathConfig> = {
   'windsurf': { project: '.windsurf/skills', home: '.codeium/windsurf/skills' },
 };
 
+const customAssistants = createSetting<CustomAssistant[]>([]);
+
+/**
+ * Replace the custom assistants added to ASSISTANT_MAP
+ * @param assistants - Assistants declared in the config
+ * @returns Function restoring the previous custom assistants
+ */
+export function useCustomAssistants(assistants: CustomAssistant[]): () => void {
+  return customAssistants.use(assistants);
+}
+
+const pathOverrides = createSetting<Record<string, AssistantPathOverride>>({});
+
+/**
+ * Replace the skills paths overriding those of ASSISTANT_MAP and the custom assistants
+ * @param overrides - Overrides by assistant name, declared in the config
+ * @returns Function restoring the previous overrides
+ */
+export function usePathOverrides(overrides: Record<string, AssistantPathOverride>): () => void {
+  return pathOverrides.use(overrides);
+}
+
+/**
+ * ASSISTANT_MAP with the custom assistants and path overrides in effect
+ */
+export function getAssistantMap(): Record<string, string | AssistantPathConfig> {
+  const map = { ...ASSISTANT_MAP };
+  for (const assistant of customAssistants.get()) {
+    map[assistant.name] = assistant.home ? { project: assistant.project, home: assistant.home } : assistant.project;
+  }
+  for (const [name, override] of Object.entries(pathOverrides.get())) {
+    const config = map[name];
+    if (!config) {
+      continue;
+    }
+    // A single path serves both modes, so overriding one of them keeps the other
+    const project = typeof config === 'string' ? config : config.project;
+    const home = typeof config === 'string' ? config : config.home;
+    map[name] = { project: override.project ?? project, home: override.home ?? home };
+  }
+  return map;
+}
+
+/**
+ * Assistant folder of an overridden skills path: the folder holding the skills folder
+ */
+function overrideFolder(skillsPath: string): string {
+  return skillsPath.includes('/') ? dirname(skillsPath) : skillsPath;
+}
+
+/**
+ * Folder whose presence means an assistant is used in a project
+ * @param name - Assistant name, built-in or custom
+ */
+export function getDetectionFolder(name: string): string | undefined {
+  const custom = customAssistants.get().find(assistant => assistant.name === name);
+  if (custom?.detect) {
+    return custom.detect;
+  }
+  const override = pathOverrides.get()[name]?.project;
+  if (override) {
+    return overrideFolder(override);
+  }
+  const config = getAssistantMap()[name];
+  if (!config) {
+    return undefined;
+  }
+  return (typeof config === 'string' ? config : config.project).split('/')[0];
+}
+
 /**
  * Get AssistantConfig[] from assistant names
  * @param names - Optional array of assistant names. If omitted, returns all.
@@ -147,13 +371,14 @@ export const ASSISTANT_MAP: Record<string, string | AssistantPathConfig> = {
  * @returns Array of AssistantConfig objects for valid assistant names only
  */
 export function getAssistantConfigs(names?: string[], homeMode: boolean = false): AssistantConfig[] {
-  const requested = names || Object.keys(ASSISTANT_MAP);
+  const assistantMap = getAssistantMap();
+  const requested = names || Object.keys(assistantMap);
   const valid: AssistantConfig[] = [];
   const invalid: string[] = [];
 
   for (const name of requested) {
-    if (name in ASSISTANT_MAP) {
-      const config = ASSISTANT_MAP[name];
+    if (name in assistantMap) {
+      const config = assistantMap[name];
 
       // Handle both string and AssistantPathConfig types
       let skillsPath: string;
@@ -164,8 +389,10 @@ export function getAssistantConfigs(names?: string[], homeMode: boolean = false)
         skillsPath = homeMode ? config.home : config.project;
       }
 
-      // Extract the folder name (first path segment)
-      const folder = skillsPath.split('/')[0];
+      // Extract the folder name (first path segment, or the detection folder of a custom or overridden assistant)
+      const homeOverride = pathOverrides.get()[name]?.home;
+      const folder = (homeMode ? homeOverride && overrideFolder(homeOverride) : getDetectionFolder(name))
+        || skillsPath.split('/')[0];
 
       const assistantConfig: AssistantConfig = {
         name,
@@ -175,7 +402,7 @@ export function getAssistantConfigs(names?: string[], homeMode: boolean = false)
 
       // Add home properties if in home mode and config has home path
       if (homeMode && typeof config === 'object') {
-        const homeFolder = config.home.split('/')[0];
+        const homeFolder = homeOverride ? overrideFolder(homeOverride) : config.home.split('/')[0];
         assistantConfig.homeDir = homeFolder;
         assistantConfig.homeSkillsDir = config.home;
       }
@@ -187,8 +414,8 @@ export function getAssistantConfigs(names?: string[], homeMode: boolean = false)
   }
 
   if (invalid.length > 0) {
-    console.warn(`Warning: Invalid assistant names ignored: ${invalid.join(', ')}`);
-    console.warn(`Valid assistants: ${Object.keys(ASSISTANT_MAP).join(', ')}`);
+    logger.warn(`Warning: Invalid assistant names ignored: ${invalid.join(', ')}`);
+    logger.warn(`Valid assistants: ${Object.keys(assistantMap).join(', ')}`);
   }
 
   return valid;
@@ -228,6 +455,8 @@ export interface DependentConflict {
   platformContent?: string;
   /** Common file content for diff display */
   commonContent?: string;
+  /** Versions held by other platforms when platforms disagree */
+  otherVersions?: Array<{ platform: string; path: string; hash: string }>;
 }
 
 /**
@@ -235,6 +464,63 @@ export interface DependentConflict {
  */
 export interface DependentConflictResolution {
   action: 'use-common' | 'use-platform' | 'skip' | 'abort';
+  /** Platform file to copy to common for use-platform (default: the conflict's platformPath) */
+  sourcePath?: string;
+}
+
+/**
+ * Skill or dependent file deleted on one side since the last sync
+ */
+export interface Deletion {
+  /** Name of the skill */
+  skillName: string;
+  /** Dependent file relative to the skill folder; undefined when the whole skill was deleted */
+  relativePath?: string;
+  /** Deleted skill folder or file (the first one when deleted from several platforms) */
+  path: string;
+  /** Where it was deleted: 'common' or platform names */
+  deletedFrom: string[];
+  /** Copies still present: skill folders for a skill, files for a dependent file */
+  remaining: Array<{ platform: string; path: string }>;
+  /** Whether the deleted copy can be brought back */
+  restorable: boolean;
+}
+
+/**
+ * User resolution for a deletion
+ */
+export interface DeletionResolution {
+  /** 'delete' removes the remaining copies, 'restore' brings the deleted copy back, 'keep' leaves both sides unchanged */
+  action: 'delete' | 'restore' | 'keep' | 'abort';
+}
+
+/**
+ * Platform skill whose @ reference points at a file that doesn't exist
+ */
+export interface DanglingReference {
+  /** Name of the skill (platform folder name) */
+  skillName: string;
+  /** Platform holding the reference */
+  platform: string;
+  /** Path to the platform SKILL.md */
+  path: string;
+  /** Reference as written, including the @ */
+  reference: string;
+  /** Absolute path the reference resolves to */
+  target: string;
+  /** Same-named common SKILL.md the reference can point to instead */
+  commonPath?: string;
+  /** Inline copies of the skill in other platforms the common skill can be recreated from */
+  inlineCopies: Array<{ platform: string; path: string }>;
+}
+
+/**
+ * User resolution for a dangling reference
+ */
+export interface DanglingReferenceResolution {
+  action: 'repoint' | 'recreate' | 'delete' | 'keep' | 'abort';
+  /** Inline copy to recreate the common skill from (recreate only) */
+  sourcePath?: string;
 }
 
 /**
@@ -246,7 +532,9 @@ export type SyncMismatchType = 'body' | 'frontmatter' | 'both';
  * User resolution for an out-of-sync skill
  */
 export interface OutOfSyncResolution {
-  action: 'keep-platform' | 'keep-common' | 'abort';
+  action: 'keep-platform' | 'keep-common' | 'use-merged' | 'abort';
+  /** Skill content merged by hand (use-merged only) */
+  content?: string;
 }
 
 /**
@@ -269,4 +557,317 @@ export interface OutOfSyncSkill {
   commonContent?: string;
   /** Whether to allow keeping platform edits */
   allowKeepPlatform?: boolean;
+  /** Versions to offer for merging by hand in a merge tool or editor */
+  manualMerge?: ManualMerge;
+}
+
+/**
+ * Body and core frontmatter of a common skill as of a sync, keyed by its `metadata.sync.hash`
+ */
+export interface SyncBase {
+  /** `metadata.sync.hash` of the common skill when it was recorded */
+  hash: string;
+  /** Core frontmatter without sync metadata */
+  frontmatter: Record<string, unknown>;
+  /** Body content */
+  body: string;
+  /** Assistants the skill went to, from its sync metadata */
+  targets?: SkillTargets;
+}
+
+/**
+ * Region of a line-based three-way merge
+ */
+export type MergeChunk =
+  | { kind: 'merged'; lines: string[] }
+  | { kind: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+/**
+ * Three-way merge of a platform skill edited inline with a common skill that also changed
+ */
+export interface SkillMerge {
+  /** The out-of-sync platform skill being merged */
+  skill: OutOfSyncSkill;
+  /** Hash of the last synced version both sides started from */
+  baseHash: string;
+  /** Body merge (ours = platform, theirs = common) */
+  chunks: MergeChunk[];
+  /** Merged core frontmatter; conflicting fields hold the common value */
+  frontmatter: Record<string, unknown>;
+  /** Core frontmatter fields changed differently on both sides */
+  frontmatterConflicts: string[];
+  /** Platform core frontmatter */
+  platformFrontmatter: Record<string, unknown>;
+}
+
+/**
+ * User resolution for a three-way merge with conflicts
+ */
+export interface MergeConflictResolution {
+  /** Action to take */
+  action: 'keep-platform' | 'keep-common' | 'markers' | 'abort';
+}
+
+/**
+ * Frontmatter field whose common and platform values can't be merged
+ */
+export interface FrontmatterConflict {
+  field: string;
+  commonValue: unknown;
+  targetValue: unknown;
+}
+
+/**
+ * Resolution for a frontmatter field conflict
+ */
+export interface FrontmatterConflictResolution {
+  /** Action to take; 'skip-all' leaves the remaining fields of the skill untouched */
+  action: 'common' | 'target' | 'edit' | 'skip-all';
+  /** Field value when action is 'edit' */
+  value?: unknown;
+}
+
+/**
+ * Frontmatter conflict answered by the user, replayed while both values stay the same
+ */
+export interface FrontmatterDecision {
+  commonValue: unknown;
+  targetValue: unknown;
+  action: 'common' | 'target' | 'edit';
+  /** Edited field value */
+  value?: unknown;
+}
+
+/**
+ * Recorded frontmatter decisions of a project
+ */
+export interface FrontmatterDecisions {
+  /** Project root that target paths are relative to */
+  baseDir: string;
+  /** Decisions keyed by target path (relative to baseDir), then field */
+  entries: Record<string, Record<string, FrontmatterDecision>>;
+}
+
+/**
+ * Kind of drift reported by `sync-skills --check`
+ * - missing-reference: platform skill with no common skill to reference
+ * - stale-hash: sync hash missing or not matching the common skill
+ * - out-of-sync: platform copy edited by hand
+ * - conflict: platforms hold different versions of a skill
+ * - orphaned-dependent: dependent file left in a platform skill folder
+ * - unlinked: common skill missing from an assistant
+ * - excluded: reference to a skill the assistant is excluded from
+ */
+export type DriftCategory =
+  | 'missing-reference'
+  | 'stale-hash'
+  | 'out-of-sync'
+  | 'conflict'
+  | 'orphaned-dependent'
+  | 'unlinked'
+  | 'excluded';
+
+/**
+ * One difference between the tree and a fully synced state
+ */
+export interface Drift {
+  category: DriftCategory;
+  skillName: string;
+  /** Assistant the drift was found in (absent for common and cross-platform drift) */
+  platform?: string;
+  /** Affected path, relative to the base directory */
+  path: string;
+  /** Short explanation */
+  detail: string;
+}
+
+/**
+ * Common skill whose sync hash can't be recomputed, so a check can't tell whether it changed
+ */
+export interface UnverifiedHash {
+  skillName: string;
+  /** Common SKILL.md, relative to the base directory */
+  path: string;
+  /** Short explanation */
+  detail: string;
+}
+
+/**
+ * Result of a read-only check
+ */
+export interface CheckReport {
+  drifts: Drift[];
+  /** Common skills whose hash couldn't be checked; not counted in the exit code */
+  unverified: UnverifiedHash[];
+  /** 0 when in sync, otherwise the exit code bits of every category found */
+  exitCode: number;
+}
+
+/**
+ * Conflict found during a sync
+ */
+export interface DetectedConflict {
+  kind: ConflictKind;
+  skillName: string;
+  /** Platforms involved */
+  platforms: string[];
+  /** File the conflict is about, relative to the base directory (dependent and frontmatter conflicts) */
+  path?: string;
+  /** Frontmatter field (frontmatter conflicts only) */
+  field?: string;
+}
+
+/**
+ * Conflict resolved during a sync
+ */
+export interface ConflictRecord extends DetectedConflict {
+  /** Action taken, as named by the resolver (e.g. 'keep-common', 'use-platform', 'target') */
+  resolution: string;
+  /** Platforms whose version was kept (platform conflicts resolved with one version) */
+  winners?: string[];
+}
+
+/**
+ * Net change a sync made to one file
+ */
+export interface SyncAction {
+  action: 'created' | 'modified' | 'deleted';
+  /** Path relative to the base directory */
+  path: string;
+}
+
+/**
+ * Outcome of a sync for one skill
+ */
+export interface SkillReport {
+  skillName: string;
+  /** 'updated' if any file of the skill was created, modified or deleted */
+  status: 'unchanged' | 'updated';
+  /** Changes to the skill's folders in common and the platforms */
+  actions: SyncAction[];
+}
+
+/**
+ * Structured result of a sync or dry run
+ */
+export interface SyncReport {
+  /** 'synced' after writing, 'planned' for a dry run, 'no-skills' when there was nothing to sync */
+  status: 'synced' | 'planned' | 'no-skills';
+  /** Every skill found, sorted by name */
+  skills: SkillReport[];
+  /** Changes outside skill folders (config, sync bases, recorded decisions) */
+  actions: SyncAction[];
+  /** Conflicts in the order they were resolved */
+  conflicts: ConflictRecord[];
+}
+
+/**
+ * Progress event emitted while syncing (paths are relative to the base directory)
+ * - phase: a sync phase started
+ * - skill-refactored: an inline platform skill was moved to .agents-common
+ * - reference-created: a platform skill was written as an @ reference to its common skill
+ * - reference-removed: the @ reference of an assistant excluded from the skill was removed
+ * - conflict-detected: a conflict was found, before it's resolved
+ * - conflict: a conflict was resolved
+ * - dependent-consolidated: a skill's dependent files were gathered in .agents-common
+ */
+export type SyncEvent =
+  | { type: 'phase'; phase: string }
+  | { type: 'skill-refactored'; skillName: string; platform: string; path: string; commonPath: string }
+  | { type: 'reference-created'; skillName: string; platform: string; path: string }
+  | { type: 'reference-removed'; skillName: string; platform: string; path: string }
+  | ({ type: 'conflict-detected' } & DetectedConflict)
+  | ({ type: 'conflict' } & ConflictRecord)
+  | { type: 'dependent-consolidated'; skillName: string; files: string[] };
+
+/**
+ * Fields of a progress event, without its type
+ */
+export type SyncEventPayload<T extends SyncEvent['type']> = Omit<Extract<SyncEvent, { type: T }>, 'type'>;
+
+/**
+ * Events emitted by the SyncSkills class, with their listener arguments
+ */
+export interface SyncSkillsEvents {
+  'phase:started': [event: SyncEventPayload<'phase'>];
+  'skill:refactored': [event: SyncEventPayload<'skill-refactored'>];
+  'reference:created': [event: SyncEventPayload<'reference-created'>];
+  'reference:removed': [event: SyncEventPayload<'reference-removed'>];
+  'conflict:detected': [event: SyncEventPayload<'conflict-detected'>];
+  'conflict:resolved': [event: SyncEventPayload<'conflict'>];
+  'dependent:consolidated': [event: SyncEventPayload<'dependent-consolidated'>];
+  'sync:complete': [report: SyncReport];
+}
+
+/**
+ * Options for the SyncSkills class
+ */
+export interface SyncSkillsOptions
+  extends Pick<RunOptions, 'baseDir' | 'failOnConflict' | 'full' | 'homeMode' | 'jobs' | 'reconfigure' | 'strategy'> {
+  /** Asks the user questions (default: inquirer) */
+  prompt?: Prompt;
+  /** Receives progress messages and warnings (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * Installed skill, grouped across common and the platforms
+ */
+export interface ListedSkill {
+  name: string;
+  /** Description from the common skill, or the first platform that has one */
+  description: string;
+  /** 'common' first, then assistant names alphabetically */
+  sites: string[];
+}
+
+/**
+ * Kind of operation in a serialized sync plan
+ */
+export type SyncOperationType =
+  | 'WriteCommon'
+  | 'WriteReference'
+  | 'PropagateFrontmatter'
+  | 'CopyDependent'
+  | 'DeleteDependent'
+  | 'RemoveDirectory'
+  | 'WriteFile'
+  | 'DeleteFile';
+
+/**
+ * A single operation of a sync plan (net effect on one path)
+ */
+export interface SyncOperation {
+  /** Operation type */
+  type: SyncOperationType;
+  /** Path relative to the plan's base directory */
+  path: string;
+  /** Sync phase that last touched the path */
+  phase: string;
+  /** Skill the path belongs to, if any */
+  skillName?: string;
+  /** Hash of the file when the plan was made (null if it did not exist) */
+  expectedHash: string | null;
+  /** Names in the directory when the plan was made, sorted (RemoveDirectory only; null if it did not exist) */
+  expectedEntries?: string[] | null;
+  /** New file content (write operations only) */
+  content?: string;
+  /** Encoding of `content` */
+  encoding?: 'utf8' | 'base64';
+  /** Relative path the content was copied from (CopyDependent only) */
+  source?: string;
+}
+
+/**
+ * Serializable plan produced by `sync-skills plan` and executed by `sync-skills apply`
+ */
+export interface SyncPlan {
+  /** Plan format version */
+  version: 1;
+  /** ISO timestamp of plan creation */
+  createdAt: string;
+  /** Whether the plan was made in home mode */
+  homeMode: boolean;
+  /** Operations in execution order */
+  operations: SyncOperation[];
 }
@@ -0,0 +1,65 @@
+import inquirer from 'inquirer';
+import { createSetting } from './context.js';
+import type { Answers, QuestionCollection } from 'inquirer';
+
+/**
+ * Asks the user questions, with the same signature as `inquirer.prompt`
+ */
+export type Prompt = (questions: QuestionCollection) => Promise<Answers>;
+
+/**
+ * Receives progress messages and warnings
+ */
+export interface Logger {
+  log(message: string): void;
+  warn(message: string): void;
+}
+
+/**
+ * Prompt backed by inquirer, looked up on every call so `inquirer.prompt` can be stubbed
+ */
+export const inquirerPrompt: Prompt = questions => inquirer.prompt(questions);
+
+/**
+ * Logger printing to stdout and stderr
+ */
+export const consoleLogger: Logger = {
+  log: message => console.log(message),
+  warn: message => console.warn(message)
+};
+
+const activePrompt = createSetting<Prompt>(inquirerPrompt);
+const activeLogger = createSetting<Logger>(consoleLogger);
+
+/**
+ * Replace the active prompt
+ * @param prompt - Implementation asked every question
+ * @returns Function restoring the previously active prompt
+ */
+export function usePrompt(prompt: Prompt): () => void {
+  return activePrompt.use(prompt);
+}
+
+/**
+ * Replace the active logger
+ * @param logger - Implementation receiving every message
+ * @returns Function restoring the previously active logger
+ */
+export function useLogger(logger: Logger): () => void {
+  return activeLogger.use(logger);
+}
+
+/**
+ * Prompt facade delegating to the active implementation, shaped like the inquirer module
+ */
+export const prompter: { prompt: Prompt } = {
+  prompt: questions => activePrompt.get()(questions)
+};
+
+/**
+ * Logger facade delegating to the active implementation
+ */
+export const logger: Logger = {
+  log: message => activeLogger.get().log(message),
+  warn: message => activeLogger.get().warn(message)
+};
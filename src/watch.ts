@@ -0,0 +1,211 @@
+import { watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { join, sep } from 'path';
+import { fs } from './io.js';
+import { DEFAULT_COMMON_DIR } from './common.js';
+import { logger } from './ui.js';
+import { computeFileHash } from './dependents.js';
+import { skillNameFromPath } from './plan.js';
+import type { SyncReport } from './types.js';
+
+/** Quiet time after the last change before syncing, in milliseconds */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * How a SkillWatcher syncs and what it watches
+ */
+export interface SkillWatcherOptions {
+  /** Sync the given skills, or every skill when null */
+  sync: (skillNames: string[] | null) => Promise<SyncReport>;
+  /** Directories to watch, relative to the base directory; asked again after every sync */
+  watchedDirs: () => Promise<string[]>;
+  /** Common directory, relative to the base directory; only its skills folder counts (default: DEFAULT_COMMON_DIR) */
+  commonDir?: string;
+  /** Quiet time after the last change before syncing (default: DEFAULT_WATCH_DEBOUNCE_MS) */
+  debounceMs?: number;
+}
+
+/**
+ * Re-syncs the affected skills whenever files in the watched directories change
+ *
+ * Bursts of changes are collected until nothing changed for `debounceMs`, and syncs
+ * never overlap: changes made while a sync runs (or waits on a prompt) are queued
+ * for the next one. Files the sync wrote itself are ignored as long as their content
+ * is still what the sync left.
+ */
+export class SkillWatcher {
+  private readonly baseDir: string;
+  private readonly options: SkillWatcherOptions;
+  private readonly watchers = new Map<string, FSWatcher>();
+  /** Changed paths (relative to baseDir) waiting for the next sync, with their skill */
+  private readonly pending = new Map<string, string>();
+  /** Hash of each file as the last sync left it (null if it deleted it) */
+  private readonly written = new Map<string, string | null>();
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<void> | undefined;
+  private stopped = false;
+  private resolveClosed!: () => void;
+
+  /** Resolves once the watcher is closed */
+  readonly closed: Promise<void>;
+
+  constructor(baseDir: string, options: SkillWatcherOptions) {
+    this.baseDir = baseDir;
+    this.options = options;
+    this.closed = new Promise(resolve => {
+      this.resolveClosed = resolve;
+    });
+  }
+
+  /**
+   * Sync every skill once, then start watching
+   */
+  async start(): Promise<void> {
+    await this.runSync(null);
+    await this.refreshWatchers();
+    logger.log(`Watching ${[...this.watchers.keys()].join(', ')} for changes`);
+  }
+
+  /**
+   * Stop watching, after the sync in progress (if any) finishes
+   */
+  async close(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    await this.running;
+    this.resolveClosed();
+  }
+
+  private async refreshWatchers(): Promise<void> {
+    const dirs = await this.options.watchedDirs();
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.includes(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const dir of dirs) {
+      if (this.watchers.has(dir)) {
+        continue;
+      }
+      try {
+        await fs.access(join(this.baseDir, dir));
+      } catch {
+        // Watched once a sync creates it
+        continue;
+      }
+      const watcher = watch(join(this.baseDir, dir), { recursive: true }, (_event, filename) => {
+        if (filename) {
+          this.handleChange(join(dir, filename.toString()));
+        }
+      });
+      watcher.on('error', error => {
+        logger.warn(`Warning: Stopped watching ${dir}: ${error.message}`);
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    }
+  }
+
+  private handleChange(path: string): void {
+    const relativePath = path.split(sep).join('/');
+    // Only skill folders count; history, sync bases and config live elsewhere in the common directory
+    const commonDir = this.options.commonDir ?? DEFAULT_COMMON_DIR;
+    if (relativePath.startsWith(`${commonDir}/`) && !relativePath.startsWith(`${commonDir}/skills/`)) {
+      return;
+    }
+    const skillName = skillNameFromPath(relativePath);
+    if (!skillName || this.stopped) {
+      return;
+    }
+
+    this.pending.set(relativePath, skillName);
+    this.schedule();
+  }
+
+  /**
+   * Flush pending changes once nothing changed for debounceMs and no sync is running
+   */
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      if (this.running) {
+        // Picked up again when the running sync finishes
+        return;
+      }
+      this.running = this.flush().finally(() => {
+        this.running = undefined;
+        if (this.pending.size > 0 && !this.stopped) {
+          this.schedule();
+        }
+      });
+    }, this.options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS);
+  }
+
+  /**
+   * Sync the skills with pending changes
+   */
+  private async flush(): Promise<void> {
+    const changes = [...this.pending.entries()];
+    this.pending.clear();
+
+    const skillNames = new Set<string>();
+    for (const [path, skillName] of changes) {
+      if (!(await this.isOwnWrite(path))) {
+        skillNames.add(skillName);
+      }
+    }
+    if (skillNames.size === 0 || this.stopped) {
+      return;
+    }
+
+    logger.log(`Changes in ${[...skillNames].sort().join(', ')}; syncing`);
+    await this.runSync([...skillNames]);
+    await this.refreshWatchers();
+  }
+
+  private async runSync(skillNames: string[] | null): Promise<void> {
+    let report: SyncReport;
+    try {
+      report = await this.options.sync(skillNames);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(`Sync failed: ${errorMessage}`);
+      return;
+    }
+
+    const actions = [...report.skills.flatMap(skill => skill.actions), ...report.actions];
+    for (const { action, path } of actions) {
+      this.written.set(path, action === 'deleted' ? null : await this.hashOf(path));
+    }
+  }
+
+  /**
+   * Whether a path still holds what the last sync wrote to it
+   */
+  private async isOwnWrite(path: string): Promise<boolean> {
+    if (!this.written.has(path)) {
+      return false;
+    }
+    if ((await this.hashOf(path)) === this.written.get(path)) {
+      return true;
+    }
+    this.written.delete(path);
+    return false;
+  }
+
+  private async hashOf(path: string): Promise<string | null> {
+    try {
+      return await computeFileHash(join(this.baseDir, path));
+    } catch {
+      return null;
+    }
+  }
+}
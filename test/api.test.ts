@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { SyncSkills, computeSkillHash, detectConflicts, scanSkills } from '../src/index.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture } from './helpers/test-setup.js';
+import type { Logger, Prompt } from '../src/index.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('SyncSkills', () => {
+  // Logs of the default logger, which the injected loggers should receive instead
+  const printed = captureLogs();
+
+  /**
+   * A claude skill with a dependent file; codex is configured but has no folder yet
+   */
+  function createFixture(name: string): Promise<string> {
+    return createConfiguredFixture(name, {
+      files: {
+        '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\nBody\n',
+        '.claude/skills/test-skill/notes.md': 'Notes'
+      }
+    });
+  }
+
+  function createLogger(): Logger & { messages: string[] } {
+    const messages: string[] = [];
+    return {
+      messages,
+      log: message => messages.push(message),
+      warn: message => messages.push(message)
+    };
+  }
+
+  it('should prompt and log through the injected implementations and emit events', async () => {
+    const testDir = await createFixture('api-sync');
+    const questions: string[] = [];
+    const prompt: Prompt = async (question) => {
+      const [{ name }] = (Array.isArray(question) ? question : [question]) as Array<{ name: string }>;
+      questions.push(name);
+      return { [name]: true };
+    };
+    const logger = createLogger();
+    const syncSkills = new SyncSkills({ baseDir: testDir, prompt, logger });
+    const events: string[] = [];
+    syncSkills.on('skill:refactored', event => events.push(`refactored ${event.skillName} (${event.platform})`));
+    syncSkills.on('reference:created', event => events.push(`reference ${event.path}`));
+    syncSkills.on('dependent:consolidated', event => events.push(`consolidated ${event.files.join(', ')}`));
+    syncSkills.on('sync:complete', report => events.push(`complete ${report.status}`));
+
+    const report = await syncSkills.sync();
+
+    assert.deepEqual(questions, ['create']);
+    assert.deepEqual(events, [
+      'reference .codex/skills/test-skill/SKILL.md',
+      'refactored test-skill (claude)',
+      'reference .claude/skills/test-skill/SKILL.md',
+      'consolidated notes.md',
+      'complete synced'
+    ]);
+    assert.deepEqual(report.skills.map(skill => [skill.skillName, skill.status]), [['test-skill', 'updated']]);
+    assert.ok(logger.messages.includes('Sync complete'));
+    assert.deepEqual(printed, { messages: [], warnings: [] });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should keep the prompt and logger of each instance when calls overlap', async () => {
+    const firstDir = await createFixture('api-overlap-first');
+    const secondDir = await createFixture('api-overlap-second');
+    const firstLogger = createLogger();
+    const secondLogger = createLogger();
+    let secondDone!: Promise<unknown>;
+    const first = new SyncSkills({
+      baseDir: firstDir,
+      logger: firstLogger,
+      // Hold the first sync at its prompt until the second one has finished
+      prompt: async () => {
+        await secondDone;
+        return { create: true };
+      }
+    });
+    const second = new SyncSkills({ baseDir: secondDir, logger: secondLogger, prompt: async () => ({ create: false }) });
+
+    const firstDone = first.sync();
+    secondDone = second.sync();
+    await Promise.all([firstDone, secondDone]);
+
+    assert.ok(await exists(join(firstDir, '.codex/skills/test-skill/SKILL.md')));
+    assert.ok(!(await exists(join(secondDir, '.codex'))));
+    assert.equal(firstLogger.messages.filter(message => message === 'Sync complete').length, 1);
+    assert.equal(secondLogger.messages.filter(message => message === 'Sync complete').length, 1);
+    assert.deepEqual(printed, { messages: [], warnings: [] });
+
+    await cleanupTestFixture(firstDir);
+    await cleanupTestFixture(secondDir);
+  });
+
+  it('should emit conflicts when detected and when resolved', async () => {
+    const testDir = await createFixture('api-conflicts');
+    await fs.mkdir(join(testDir, '.codex/skills'), { recursive: true });
+    const logger = createLogger();
+    await new SyncSkills({ baseDir: testDir, logger }).sync();
+    const codexPath = join(testDir, '.codex/skills/test-skill/SKILL.md');
+    await fs.writeFile(codexPath, (await fs.readFile(codexPath, 'utf8')).replace(/@.*\n/, 'Edited in codex\n'));
+
+    const syncSkills = new SyncSkills({
+      baseDir: testDir,
+      logger,
+      prompt: async () => ({ action: 'keep-common' })
+    });
+    const events: unknown[] = [];
+    syncSkills.on('conflict:detected', event => events.push(['detected', event]));
+    syncSkills.on('conflict:resolved', event => events.push(['resolved', event]));
+
+    const report = await syncSkills.sync();
+
+    const conflict = { kind: 'out-of-sync', skillName: 'test-skill', platforms: ['codex'] };
+    assert.deepEqual(events, [
+      ['detected', conflict],
+      ['resolved', { ...conflict, resolution: 'keep-common' }]
+    ]);
+    assert.deepEqual(report.conflicts, [{ ...conflict, resolution: 'keep-common' }]);
+    assert.ok(!(await fs.readFile(codexPath, 'utf8')).includes('Edited in codex'));
+    assert.deepEqual(printed, { messages: [], warnings: [] });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should export the scanning, detection and hashing helpers', async () => {
+    const testDir = await createFixture('api-helpers');
+    await new SyncSkills({ baseDir: testDir, logger: createLogger(), prompt: async () => ({ create: true }) }).sync();
+
+    const { platforms, common } = await scanSkills(testDir, [
+      { name: 'claude', dir: '.claude', skillsDir: '.claude/skills' },
+      { name: 'codex', dir: '.codex', skillsDir: '.codex/skills' }
+    ]);
+    assert.deepEqual(common.map(skill => skill.skillName), ['test-skill']);
+    assert.deepEqual(await detectConflicts(platforms), []);
+    assert.match(computeSkillHash({ name: 'test-skill' }, 'Body\n', []), /^sha256-[0-9a-f]{64}$/);
+    assert.deepEqual(await new SyncSkills({ baseDir: testDir }).list(), [
+      { name: 'test-skill', description: '', sites: ['common', 'claude', 'codex'] }
+    ]);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run, checkSync } from '../src/index.js';
+import { CHECK_EXIT_CODES } from '../src/check.js';
+import { captureLogs, cleanupTestFixture, createSyncedFixture, createTestFixture } from './helpers/test-setup.js';
+
+describe('check', () => {
+  captureLogs();
+
+  /**
+   * A claude skill synced to common
+   */
+  function createClaudeFixture(name: string): Promise<string> {
+    return createSyncedFixture(name, {
+      config: { version: 1, assistants: ['claude'] },
+      files: { '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\nBody\n' }
+    });
+  }
+
+  it('should report nothing for a synced tree', async () => {
+    const testDir = await createClaudeFixture('check-clean');
+
+    assert.deepEqual(await checkSync({ baseDir: testDir }), { drifts: [], unverified: [], exitCode: 0 });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should report platform skills without a common skill, without writing', async () => {
+    const testDir = await createTestFixture('check-missing', async (dir) => {
+      await fs.mkdir(join(dir, '.claude/skills/test-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.claude/skills/test-skill/SKILL.md'), '---\nname: test-skill\n---\nBody\n');
+    });
+
+    const report = await checkSync({ baseDir: testDir });
+
+    assert.deepEqual(report.drifts, [{
+      category: 'missing-reference',
+      skillName: 'test-skill',
+      platform: 'claude',
+      path: '.claude/skills/test-skill/SKILL.md',
+      detail: 'no common skill yet'
+    }]);
+    assert.strictEqual(report.exitCode, CHECK_EXIT_CODES['missing-reference']);
+    await assert.rejects(() => fs.access(join(testDir, '.agents-common')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should combine the exit codes of hand edits and orphaned dependents', async () => {
+    const testDir = await createClaudeFixture('check-edited');
+    const platformPath = join(testDir, '.claude/skills/test-skill/SKILL.md');
+    const platformContent = await fs.readFile(platformPath, 'utf8');
+    await fs.writeFile(platformPath, platformContent.replace(/@.*\n/, 'Edited inline\n'));
+    await fs.writeFile(join(testDir, '.claude/skills/test-skill/notes.md'), 'Notes');
+
+    const report = await checkSync({ baseDir: testDir });
+
+    assert.deepEqual(report.drifts.map(drift => [drift.category, drift.path]), [
+      ['out-of-sync', '.claude/skills/test-skill/SKILL.md'],
+      ['orphaned-dependent', '.claude/skills/test-skill/notes.md']
+    ]);
+    assert.strictEqual(report.drifts[1].detail, 'not in common');
+    assert.strictEqual(report.exitCode, CHECK_EXIT_CODES['out-of-sync'] | CHECK_EXIT_CODES['orphaned-dependent']);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should report stale hashes and unlinked common skills', async () => {
+    const testDir = await createClaudeFixture('check-stale');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+    const commonContent = await fs.readFile(commonPath, 'utf8');
+    await fs.writeFile(commonPath, commonContent.replace(/hash: sha256-\w+/, 'hash: sha256-changed'));
+    await fs.mkdir(join(testDir, '.agents-common/skills/other-skill'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, '.agents-common/skills/other-skill/SKILL.md'),
+      '---\nname: other-skill\nmetadata:\n  sync:\n    hash: sha256-other\n---\nOther\n'
+    );
+
+    const report = await checkSync({ baseDir: testDir });
+
+    assert.deepEqual(report.drifts.map(drift => [drift.category, drift.skillName, drift.platform]), [
+      ['stale-hash', 'test-skill', undefined],
+      ['stale-hash', 'test-skill', 'claude'],
+      ['unlinked', 'other-skill', 'claude']
+    ]);
+    assert.match(report.drifts[0].detail, /common skill changed since its hash was computed/);
+    assert.match(report.drifts[1].detail, /common is sha256-changed/);
+    assert.deepEqual(report.unverified.map(skill => [skill.skillName, skill.detail]), [
+      ['other-skill', 'no sync metadata version to recompute the hash with']
+    ]);
+    assert.strictEqual(report.exitCode, CHECK_EXIT_CODES['stale-hash'] | CHECK_EXIT_CODES.unlinked);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should report common dependent files edited since the last sync until a sync rehashes them', async () => {
+    const testDir = await createSyncedFixture('check-dependent-edit', {
+      config: { version: 1, assistants: ['claude'] },
+      files: {
+        '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\nBody\n',
+        '.claude/skills/test-skill/scripts/run.sh': 'echo one\n'
+      }
+    });
+    assert.deepEqual(await checkSync({ baseDir: testDir }), { drifts: [], unverified: [], exitCode: 0 });
+
+    await fs.writeFile(join(testDir, '.agents-common/skills/test-skill/scripts/run.sh'), 'echo two\n');
+
+    const report = await checkSync({ baseDir: testDir });
+    assert.deepEqual(report.drifts.map(drift => [drift.category, drift.path]), [
+      ['stale-hash', '.agents-common/skills/test-skill/SKILL.md']
+    ]);
+    assert.strictEqual(report.exitCode, CHECK_EXIT_CODES['stale-hash']);
+
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.deepEqual(await checkSync({ baseDir: testDir }), { drifts: [], unverified: [], exitCode: 0 });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should leave hashes of an earlier version to the next change of the skill', async () => {
+    const testDir = await createClaudeFixture('check-legacy');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+    const legacy = (await fs.readFile(commonPath, 'utf8')).replace('version: 4', 'version: 3').replace('Body', 'Edited');
+    await fs.writeFile(commonPath, legacy);
+
+    const report = await checkSync({ baseDir: testDir });
+    assert.deepEqual(report.drifts, []);
+    assert.deepEqual(report.unverified.map(skill => skill.path), ['.agents-common/skills/test-skill/SKILL.md']);
+
+    // Not migrated by a sync while nothing else changed
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.strictEqual(await fs.readFile(commonPath, 'utf8'), legacy);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { mapConcurrent, useJobs } from '../src/concurrency.js';
+import { DiskFileSystem, useFileSystem } from '../src/io.js';
+import type { DirEntry } from '../src/io.js';
+import { scanSkills } from '../src/scanner.js';
+import { detectDependentFiles } from '../src/dependents.js';
+import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
+
+describe('concurrency', () => {
+  it('should keep results in item order whatever order calls finish in', async () => {
+    const results = await mapConcurrent([30, 10, 20, 0], async (ms, index) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return `${index}:${ms}`;
+    });
+
+    assert.deepEqual(results, ['0:30', '1:10', '2:20', '3:0']);
+  });
+
+  it('should run no more calls at once than the jobs limit', async () => {
+    const restore = useJobs(2);
+    let running = 0;
+    let peak = 0;
+    try {
+      await mapConcurrent([1, 2, 3, 4, 5], async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+      });
+    } finally {
+      restore();
+    }
+
+    assert.strictEqual(peak, 2);
+  });
+
+  it('should share the jobs limit between the levels of a nested tree', async () => {
+    const testDir = await createTestFixture('concurrency-nested', async (dir) => {
+      for (const skillName of ['alpha', 'beta', 'gamma']) {
+        for (const sub of ['a', 'b', 'c']) {
+          await fs.mkdir(join(dir, '.claude/skills', skillName, sub, 'deep'), { recursive: true });
+          await fs.writeFile(join(dir, '.claude/skills', skillName, sub, 'deep/file.md'), 'Deep');
+          await fs.writeFile(join(dir, '.claude/skills', skillName, sub, 'file.md'), 'File');
+        }
+        await fs.writeFile(join(dir, '.claude/skills', skillName, 'SKILL.md'), `---\nname: ${skillName}\n---\n`);
+      }
+    });
+
+    // Counts the reads in flight, each held long enough for others to start
+    let running = 0;
+    let peak = 0;
+    const track = async <T>(read: () => Promise<T>): Promise<T> => {
+      running++;
+      peak = Math.max(peak, running);
+      try {
+        await new Promise(resolve => setTimeout(resolve, 2));
+        return await read();
+      } finally {
+        running--;
+      }
+    };
+    class TrackingFileSystem extends DiskFileSystem {
+      readdir(path: string): Promise<string[]>;
+      readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+      readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+        return track(() => options ? super.readdir(path, options) : super.readdir(path));
+      }
+
+      async *readStream(path: string): AsyncIterable<Buffer> {
+        const chunks = await track(async () => {
+          const read: Buffer[] = [];
+          for await (const chunk of super.readStream(path)) {
+            read.push(chunk);
+          }
+          return read;
+        });
+        yield* chunks;
+      }
+    }
+
+    const restoreFileSystem = useFileSystem(new TrackingFileSystem());
+    const restoreJobs = useJobs(2);
+    try {
+      const configs = [{ name: 'claude', dir: '.claude', skillsDir: '.claude/skills' }];
+      const { platforms } = await scanSkills(testDir, configs);
+      assert.strictEqual(platforms.claude.length, 3);
+      assert.strictEqual(peak, 2);
+
+      peak = 0;
+      const dependents = await detectDependentFiles(join(testDir, '.claude/skills/alpha'));
+      assert.strictEqual(dependents.length, 6);
+      assert.strictEqual(peak, 2);
+    } finally {
+      restoreJobs();
+      restoreFileSystem();
+    }
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should reject invalid limits', () => {
+    assert.throws(() => useJobs(0), /Invalid jobs "0"/);
+    assert.throws(() => useJobs(1.5), /Invalid jobs "1.5"/);
+  });
+
+  it('should scan skills and dependents in the same order with any limit', async () => {
+    const testDir = await createTestFixture('concurrency-scan', async (dir) => {
+      for (const skillName of ['alpha', 'beta', 'gamma']) {
+        await fs.mkdir(join(dir, '.claude/skills', skillName, 'docs'), { recursive: true });
+        await fs.writeFile(join(dir, '.claude/skills', skillName, 'SKILL.md'), `---\nname: ${skillName}\n---\n`);
+        await fs.writeFile(join(dir, '.claude/skills', skillName, 'docs/a.md'), 'A');
+        await fs.writeFile(join(dir, '.claude/skills', skillName, 'b.md'), 'B');
+      }
+    });
+    const configs = [{ name: 'claude', dir: '.claude', skillsDir: '.claude/skills' }];
+
+    const scan = async () => ({
+      skills: await scanSkills(testDir, configs),
+      dependents: await detectDependentFiles(join(testDir, '.claude/skills/alpha'))
+    });
+    const concurrent = await scan();
+    const restore = useJobs(1);
+    const sequential = await scan().finally(restore);
+
+    assert.deepEqual(concurrent, sequential);
+    assert.deepEqual(concurrent.skills.platforms.claude.map(skill => skill.skillName).sort(), ['alpha', 'beta', 'gamma']);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -14,12 +14,25 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import inquirer from 'inquirer';
 import sinon from 'sinon';
-import { readConfig, writeConfig, detectAvailableAssistants, ensureConfig, reconfigure, CONFIG_PATH } from '../src/config.js';
-import { getAssistantConfigs, ASSISTANT_MAP } from '../src/types.js';
-import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
+import {
+  readConfig,
+  readCustomAssistants,
+  writeConfig,
+  detectAvailableAssistants,
+  ensureConfig,
+  reconfigure,
+  migrateConfig,
+  migrateConfigFile,
+  CONFIG_PATH,
+  CONFIG_VERSION
+} from '../src/config.js';
+import { getAssistantConfigs, useCustomAssistants, usePathOverrides, ASSISTANT_MAP } from '../src/types.js';
+import { run } from '../src/index.js';
+import { captureLogs, createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
 
 describe('config', () => {
   let TEST_DIR: string;
+  captureLogs();
 
   describe('readConfig', () => {
     it('should read existing config file', async () => {
@@ -30,7 +43,7 @@ describe('config', () => {
 
       const result = await readConfig(TEST_DIR);
 
-      assert.deepEqual(result, testConfig);
+      assert.deepEqual(result, { ...testConfig, version: CONFIG_VERSION });
       await cleanupTestFixture(TEST_DIR);
     });
 
@@ -40,6 +53,48 @@ describe('config', () => {
       assert.strictEqual(result, null);
       await cleanupTestFixture(TEST_DIR);
     });
+
+    it('should point at the offending key of an invalid config', async () => {
+      TEST_DIR = await createTestFixture('read-config-invalid');
+      await fs.mkdir(join(TEST_DIR, '.agents-common'), { recursive: true });
+      await fs.writeFile(join(TEST_DIR, CONFIG_PATH), JSON.stringify({ version: 1, assistants: ['claude', 3] }));
+
+      await assert.rejects(() => readConfig(TEST_DIR), /Invalid config at "assistants\[1\]": assistant name must be a non-empty string/);
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('should refuse a config written by a newer release instead of recreating it', async () => {
+      TEST_DIR = await createTestFixture('read-config-newer');
+      const content = JSON.stringify({ version: CONFIG_VERSION + 1, assistants: ['claude'], future: true });
+      await fs.mkdir(join(TEST_DIR, '.agents-common'), { recursive: true });
+      await fs.writeFile(join(TEST_DIR, CONFIG_PATH), content);
+
+      await assert.rejects(() => readConfig(TEST_DIR), /newer than this sync-skills supports/);
+      await assert.rejects(() => ensureConfig(TEST_DIR), /newer than this sync-skills supports/);
+      assert.strictEqual(await fs.readFile(join(TEST_DIR, CONFIG_PATH), 'utf-8'), content);
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
+  describe('migrateConfig', () => {
+    it('should migrate version 1 configs to the current version', () => {
+      assert.deepEqual(
+        migrateConfig({ version: 1, assistants: ['claude'], mergeTool: 'meld' }),
+        { version: CONFIG_VERSION, assistants: ['claude'], mergeTool: 'meld' }
+      );
+    });
+
+    it('should migrate the config file in place', async () => {
+      TEST_DIR = await createTestFixture('migrate-config-file');
+      await fs.mkdir(join(TEST_DIR, '.agents-common'), { recursive: true });
+      await fs.writeFile(join(TEST_DIR, CONFIG_PATH), JSON.stringify({ version: 1, assistants: ['claude'] }));
+      await run({ baseDir: TEST_DIR, configMigrate: true });
+
+      const written = JSON.parse(await fs.readFile(join(TEST_DIR, CONFIG_PATH), 'utf-8'));
+      assert.deepEqual(written, { version: CONFIG_VERSION, assistants: ['claude'] });
+      assert.strictEqual(await migrateConfigFile(TEST_DIR), CONFIG_VERSION);
+      await cleanupTestFixture(TEST_DIR);
+    });
   });
 
   describe('writeConfig', () => {
@@ -131,6 +186,160 @@ describe('config', () => {
       await cleanupTestFixture(TEST_DIR);
     });
   });
+
+  describe('customAssistants', () => {
+    const acme = { name: 'acme', project: '.acme/agent/skills', home: '.config/acme/skills', detect: '.acme' };
+
+    it('should read and write custom assistants in version 2 configs', async () => {
+      TEST_DIR = await createTestFixture('custom-assistants-config');
+      const testConfig = { version: 2, assistants: ['claude', 'acme'], customAssistants: [acme] };
+
+      await writeConfig(TEST_DIR, testConfig);
+
+      assert.deepEqual(await readConfig(TEST_DIR), { ...testConfig, version: CONFIG_VERSION });
+      assert.deepEqual(await readCustomAssistants(TEST_DIR), [acme]);
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('should reject invalid custom assistants', async () => {
+      TEST_DIR = await createTestFixture('custom-assistants-invalid');
+
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 1, assistants: ['acme'], customAssistants: [acme] }),
+        /Invalid config at "customAssistants": requires version 2/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 2, assistants: ['claude'], customAssistants: [{ name: 'claude', project: '.x/skills' }] }),
+        /"customAssistants\[0\]\.name": "claude" is already built in/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 2, assistants: ['acme'], customAssistants: [{ name: 'acme', project: '../acme' }] }),
+        /"customAssistants\[0\]\.project": must be a relative path inside the project/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 2, assistants: ['other'], customAssistants: [acme] }),
+        /"assistants\[0\]": unknown assistant "other"/
+      );
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('should resolve and detect custom assistants while they are in use', async () => {
+      TEST_DIR = await createTestFixture('custom-assistants-detect');
+      await fs.mkdir(join(TEST_DIR, '.acme'), { recursive: true });
+
+      assert.deepEqual(getAssistantConfigs(['acme']), []);
+      const restore = useCustomAssistants([acme]);
+      try {
+        assert.deepEqual(getAssistantConfigs(['acme']), [{ name: 'acme', dir: '.acme', skillsDir: '.acme/agent/skills' }]);
+        assert.strictEqual(getAssistantConfigs(['acme'], true)[0].skillsDir, '.config/acme/skills');
+        assert.deepEqual(await detectAvailableAssistants(TEST_DIR), ['acme']);
+      } finally {
+        restore();
+      }
+      assert.deepEqual(await detectAvailableAssistants(TEST_DIR), []);
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('should sync skills to custom assistants', async () => {
+      TEST_DIR = await createTestFixture('custom-assistants-sync', async (dir) => {
+        await fs.mkdir(join(dir, '.agents-common'), { recursive: true });
+        await fs.writeFile(join(dir, CONFIG_PATH), JSON.stringify({
+          version: 2,
+          assistants: ['claude', 'acme'],
+          customAssistants: [acme]
+        }));
+        await fs.mkdir(join(dir, '.claude/skills/my-skill'), { recursive: true });
+        await fs.mkdir(join(dir, '.acme/agent/skills'), { recursive: true });
+        await fs.writeFile(join(dir, '.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+      });
+      await run({ baseDir: TEST_DIR });
+
+      const content = await fs.readFile(join(TEST_DIR, '.acme/agent/skills/my-skill/SKILL.md'), 'utf-8');
+      assert.match(content, /@\.\.\/\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/my-skill\/SKILL\.md/);
+      assert.deepEqual(getAssistantConfigs(['acme']), []);
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
+  describe('paths', () => {
+    it('should reject invalid path overrides', async () => {
+      TEST_DIR = await createTestFixture('paths-invalid');
+
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 2, assistants: ['claude'], paths: { claude: { project: 'tools/.claude/skills' } } }),
+        /Invalid config at "paths": requires version 3/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 3, assistants: ['claude'], paths: { acme: { project: '.acme/skills' } } }),
+        /"paths\.acme": unknown assistant "acme"/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 3, assistants: ['claude'], paths: { claude: { project: '/tmp/skills' } } }),
+        /"paths\.claude\.project": must be a relative path inside the project/
+      );
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('should resolve overridden paths while they are in use', () => {
+      const restore = usePathOverrides({ claude: { project: 'tools/.claude/skills' }, windsurf: { home: '.windsurf/skills' } });
+      try {
+        assert.deepEqual(getAssistantConfigs(['claude']), [{ name: 'claude', dir: 'tools/.claude', skillsDir: 'tools/.claude/skills' }]);
+        // The home path of claude is left as it was
+        assert.strictEqual(getAssistantConfigs(['claude'], true)[0].skillsDir, '.claude/skills');
+        assert.strictEqual(getAssistantConfigs(['windsurf'])[0].skillsDir, '.windsurf/skills');
+        assert.strictEqual(getAssistantConfigs(['windsurf'], true)[0].skillsDir, '.windsurf/skills');
+      } finally {
+        restore();
+      }
+      assert.strictEqual(getAssistantConfigs(['claude'])[0].skillsDir, '.claude/skills');
+    });
+
+    it('should sync skills at overridden paths', async () => {
+      TEST_DIR = await createTestFixture('paths-sync', async (dir) => {
+        await fs.mkdir(join(dir, '.agents-common'), { recursive: true });
+        await fs.writeFile(join(dir, CONFIG_PATH), JSON.stringify({
+          version: 3,
+          assistants: ['claude', 'codex'],
+          paths: { claude: { project: 'tools/.claude/skills' } }
+        }));
+        await fs.mkdir(join(dir, 'tools/.claude/skills/my-skill'), { recursive: true });
+        await fs.mkdir(join(dir, '.codex/skills'), { recursive: true });
+        await fs.writeFile(join(dir, 'tools/.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+      });
+      await run({ baseDir: TEST_DIR });
+      await run({ baseDir: TEST_DIR, failOnConflict: true });
+
+      const common = await fs.readFile(join(TEST_DIR, '.agents-common/skills/my-skill/SKILL.md'), 'utf-8');
+      assert.match(common, /Body/);
+      const claude = await fs.readFile(join(TEST_DIR, 'tools/.claude/skills/my-skill/SKILL.md'), 'utf-8');
+      assert.match(claude, /@\.\.\/\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/my-skill\/SKILL\.md/);
+      const codex = await fs.readFile(join(TEST_DIR, '.codex/skills/my-skill/SKILL.md'), 'utf-8');
+      assert.match(codex, /@\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/my-skill\/SKILL\.md/);
+      await assert.rejects(() => fs.access(join(TEST_DIR, '.claude')));
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
+  describe('targets', () => {
+    it('should reject invalid targeting rules', async () => {
+      TEST_DIR = await createTestFixture('targets-invalid');
+
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 3, assistants: ['claude'], targets: { '*': { exclude: ['codex'] } } }),
+        /Invalid config at "targets": requires version 4/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 4, assistants: ['claude'], targets: { 'beta-*': { exclude: ['acme'] } } }),
+        /"targets\.beta-\*\.exclude\[0\]": unknown assistant "acme"/
+      );
+      await assert.rejects(
+        () => writeConfig(TEST_DIR, { version: 4, assistants: ['claude'], targets: { 'beta-*': { only: ['claude'] } } as any }),
+        /"targets\.beta-\*\.only": only assistants and exclude can be set/
+      );
+      await writeConfig(TEST_DIR, { version: 4, assistants: ['claude'], targets: { 'beta-*': { assistants: ['claude'] } } });
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
 });
 
 test('getAssistantConfigs - parses full skills path correctly', () => {
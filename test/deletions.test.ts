@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { run, checkSync } from '../src/index.js';
+import { readTrackedFiles } from '../src/deletions.js';
+import { captureLogs, cleanupTestFixture, createSyncedFixture, stubInquirer } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('deletions', () => {
+  captureLogs();
+
+  /**
+   * A skill with two dependent files, synced to common from claude and codex
+   */
+  function createDependentsFixture(name: string): Promise<string> {
+    return createSyncedFixture(name, {
+      dirs: ['.codex/skills'],
+      files: {
+        '.claude/skills/my-skill/SKILL.md': '---\nname: my-skill\n---\nBody\n',
+        '.claude/skills/my-skill/notes.md': 'Notes',
+        '.claude/skills/my-skill/scripts/old.sh': 'echo old'
+      }
+    });
+  }
+
+  it('should track the dependent files included in the common hash', async () => {
+    const testDir = await createDependentsFixture('deletions-tracked');
+
+    assert.deepEqual(
+      await readTrackedFiles(join(testDir, '.agents-common/skills/my-skill/SKILL.md')),
+      ['notes.md', 'scripts/old.sh']
+    );
+    const codex = matter(await fs.readFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), 'utf8'));
+    assert.strictEqual(codex.data.metadata.sync.files, undefined);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should delete platform leftovers of a file deleted from common instead of consolidating them back', async () => {
+    const testDir = await createDependentsFixture('deletions-dependent');
+    const commonPath = join(testDir, '.agents-common/skills/my-skill/SKILL.md');
+    const hashBefore = matter(await fs.readFile(commonPath, 'utf8')).data.metadata.sync.hash;
+    await fs.rm(join(testDir, '.agents-common/skills/my-skill/scripts/old.sh'));
+    await fs.mkdir(join(testDir, '.codex/skills/my-skill/scripts'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex/skills/my-skill/scripts/old.sh'), 'echo old');
+
+    const report = await run({ baseDir: testDir, strategy: { deletion: 'common' } });
+
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/my-skill/scripts')), false);
+    assert.strictEqual(await exists(join(testDir, '.agents-common/skills/my-skill/scripts/old.sh')), false);
+    assert.deepEqual(await readTrackedFiles(commonPath), ['notes.md']);
+    const hash = matter(await fs.readFile(commonPath, 'utf8')).data.metadata.sync.hash;
+    assert.notStrictEqual(hash, hashBefore);
+    const claude = matter(await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8'));
+    assert.strictEqual(claude.data.metadata.sync.hash, hash);
+    assert.deepEqual(report!.conflicts, [{
+      kind: 'deletion',
+      skillName: 'my-skill',
+      platforms: ['codex'],
+      path: '.agents-common/skills/my-skill/scripts/old.sh',
+      resolution: 'delete'
+    }]);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should restore a file deleted from common from a platform copy when asked to', async () => {
+    const testDir = await createDependentsFixture('deletions-dependent-restore');
+    await fs.rm(join(testDir, '.agents-common/skills/my-skill/scripts/old.sh'));
+    await fs.mkdir(join(testDir, '.codex/skills/my-skill/scripts'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex/skills/my-skill/scripts/old.sh'), 'echo kept');
+
+    const stub = stubInquirer({ action: 'restore' });
+    try {
+      await run({ baseDir: testDir });
+    } finally {
+      stub.restore();
+    }
+
+    assert.strictEqual(await fs.readFile(join(testDir, '.agents-common/skills/my-skill/scripts/old.sh'), 'utf8'), 'echo kept');
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/my-skill/scripts/old.sh')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should remove platform references to a skill deleted from common', async () => {
+    const testDir = await createDependentsFixture('deletions-common-skill');
+    await fs.rm(join(testDir, '.agents-common/skills/my-skill'), { recursive: true });
+
+    const stub = stubInquirer({ action: 'delete' });
+    try {
+      await run({ baseDir: testDir });
+    } finally {
+      stub.restore();
+    }
+
+    assert.strictEqual(await exists(join(testDir, '.claude/skills/my-skill')), false);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/my-skill')), false);
+    assert.strictEqual(await exists(join(testDir, '.agents-common/skills/my-skill')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should restore a skill deleted from common from its last synced version', async () => {
+    const testDir = await createDependentsFixture('deletions-common-restore');
+    const commonPath = join(testDir, '.agents-common/skills/my-skill/SKILL.md');
+    await fs.rm(join(testDir, '.agents-common/skills/my-skill'), { recursive: true });
+
+    await run({ baseDir: testDir, strategy: { deletion: 'platform' } });
+
+    const restored = matter(await fs.readFile(commonPath, 'utf8'));
+    assert.strictEqual(restored.content.trim(), 'Body');
+    // Its dependent files aren't restored, so the same run rehashes it without them
+    assert.deepEqual((await checkSync({ baseDir: testDir })).drifts, []);
+    assert.match(await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8'), /@\.\.\/\.\.\/\.\.\/\.agents-common/);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should propagate a skill deleted from one platform to common and the others', async () => {
+    const testDir = await createDependentsFixture('deletions-platform-skill');
+    await fs.rm(join(testDir, '.claude/skills/my-skill'), { recursive: true });
+
+    await assert.rejects(() => run({ baseDir: testDir, failOnConflict: true }), /Deletions detected in: my-skill/);
+    await run({ baseDir: testDir, strategy: { default: 'platform' } });
+
+    assert.strictEqual(await exists(join(testDir, '.agents-common/skills/my-skill')), false);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/my-skill')), false);
+    assert.strictEqual(await exists(join(testDir, '.claude/skills/my-skill')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should link a skill deleted from one platform again when common wins', async () => {
+    const testDir = await createDependentsFixture('deletions-platform-restore');
+    await fs.rm(join(testDir, '.claude/skills/my-skill'), { recursive: true });
+
+    await run({ baseDir: testDir, strategy: { deletion: 'common' } });
+
+    await fs.access(join(testDir, '.claude/skills/my-skill/SKILL.md'));
+    await fs.access(join(testDir, '.agents-common/skills/my-skill/notes.md'));
+
+    await cleanupTestFixture(testDir);
+  });
+});
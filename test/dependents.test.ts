@@ -4,6 +4,9 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import {
   computeFileHash,
+  computeLegacyContentHash,
+  fileMatchesHash,
+  isBinaryContent,
   hashMatches,
   hashChanged,
   detectDependentFiles,
@@ -55,6 +58,42 @@ describe('dependents', () => {
       assert.ok(hash.length > 8);
       await cleanupTestFixture(TEST_DIR);
     });
+
+    it('should tell apart binaries that decode to the same utf8 text', async () => {
+      TEST_DIR = await createTestFixture('hash-binary');
+      const file1 = join(TEST_DIR, 'a.bin');
+      const file2 = join(TEST_DIR, 'b.bin');
+      await fs.writeFile(file1, Buffer.from([0x00, 0xff, 0x01]));
+      await fs.writeFile(file2, Buffer.from([0x00, 0xfe, 0x01]));
+
+      assert.strictEqual(
+        computeLegacyContentHash(await fs.readFile(file1)),
+        computeLegacyContentHash(await fs.readFile(file2))
+      );
+      assert.notStrictEqual(await computeFileHash(file1), await computeFileHash(file2));
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
+  describe('fileMatchesHash', () => {
+    it('should accept both byte hashes and hashes stored before binary-safe hashing', async () => {
+      TEST_DIR = await createTestFixture('hash-legacy');
+      const file = join(TEST_DIR, 'image.png');
+      const content = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+      await fs.writeFile(file, content);
+
+      assert.ok(await fileMatchesHash(file, await computeFileHash(file)));
+      assert.ok(await fileMatchesHash(file, computeLegacyContentHash(content)));
+      assert.ok(!(await fileMatchesHash(file, 'sha256-abc123')));
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
+  describe('isBinaryContent', () => {
+    it('should treat content with a NUL byte as binary', () => {
+      assert.ok(isBinaryContent(Buffer.from([0x89, 0x50, 0x00])));
+      assert.ok(!isBinaryContent(Buffer.from('plain text ✓')));
+    });
   });
 
   describe('hashMatches', () => {
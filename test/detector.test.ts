@@ -66,6 +66,71 @@ ${codexRef}
     });
   });
 
+  describe('detectConflicts across platforms', () => {
+    it('clusters identical versions and reports every variant with its holders', async () => {
+      const TEST_DIR = await createTestFixture('detector-n-way', async (dir) => {
+        const write = async (assistant: string, body: string) => {
+          await fs.mkdir(join(dir, assistant, 'skills/test-skill'), { recursive: true });
+          await fs.writeFile(join(dir, assistant, 'skills/test-skill/SKILL.md'), `---\nname: test-skill\n---\n\n${body}\n`);
+        };
+        await write('.claude', 'Version one');
+        await write('.codex', 'Version two');
+        await write('.cursor', 'Version one');
+        await write('.gemini', 'Version three');
+      });
+
+      const skillsFor = (assistant: string) => [
+        { skillName: 'test-skill', path: join(TEST_DIR, assistant, 'skills/test-skill/SKILL.md') }
+      ];
+
+      const conflicts = await detectConflicts({
+        claude: skillsFor('.claude'),
+        codex: skillsFor('.codex'),
+        cursor: skillsFor('.cursor'),
+        gemini: skillsFor('.gemini')
+      });
+
+      assert.strictEqual(conflicts.length, 1);
+      const [conflict] = conflicts;
+      assert.strictEqual(conflict.conflictType, 'content');
+      assert.deepEqual(conflict.variants?.map(variant => variant.platforms), [
+        ['claude', 'cursor'],
+        ['codex'],
+        ['gemini']
+      ]);
+      assert.strictEqual(conflict.platformA, 'claude');
+      assert.strictEqual(conflict.platformB, 'codex');
+
+      await cleanupTestFixture(TEST_DIR);
+    });
+
+    it('detects a divergent copy outside the first two platforms', async () => {
+      const TEST_DIR = await createTestFixture('detector-third-platform', async (dir) => {
+        for (const assistant of ['.claude', '.codex', '.cursor']) {
+          await fs.mkdir(join(dir, assistant, 'skills/test-skill'), { recursive: true });
+          const body = assistant === '.cursor' ? 'Edited in cursor' : 'Shared';
+          await fs.writeFile(join(dir, assistant, 'skills/test-skill/SKILL.md'), `---\nname: test-skill\n---\n\n${body}\n`);
+        }
+      });
+
+      const skillsFor = (assistant: string) => [
+        { skillName: 'test-skill', path: join(TEST_DIR, assistant, 'skills/test-skill/SKILL.md') }
+      ];
+
+      const conflicts = await detectConflicts({
+        claude: skillsFor('.claude'),
+        codex: skillsFor('.codex'),
+        cursor: skillsFor('.cursor')
+      });
+
+      assert.strictEqual(conflicts.length, 1);
+      assert.deepEqual(conflicts[0].variants?.map(variant => variant.platforms), [['claude', 'codex'], ['cursor']]);
+      assert.strictEqual(conflicts[0].platformB, 'cursor');
+
+      await cleanupTestFixture(TEST_DIR);
+    });
+  });
+
   describe('detectOutOfSyncSkills', () => {
     it('detects body mismatch when platform has different content than common', async () => {
       const TEST_DIR = await createTestFixture('out-of-sync-body', async (dir) => {
@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { findDanglingReferences } from '../src/doctor.js';
+import { getAssistantConfigs } from '../src/types.js';
+import { captureLogs, cleanupTestFixture, createTestFixture, stubInquirer } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('doctor', () => {
+  const logs = captureLogs();
+
+  /**
+   * claude's my-skill references a common skill that was renamed to my-skill
+   */
+  async function createRenamedFixture(name: string): Promise<string> {
+    return createTestFixture(name, async (dir) => {
+      await fs.mkdir(join(dir, '.agents-common/skills/my-skill'), { recursive: true });
+      await fs.mkdir(join(dir, '.claude/skills/my-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.agents-common/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+      await fs.writeFile(
+        join(dir, '.claude/skills/my-skill/SKILL.md'),
+        '---\nname: my-skill\n---\n@../../../.agents-common/skills/old-name/SKILL.md\n'
+      );
+    });
+  }
+
+  it('should find references pointing at nothing', async () => {
+    const testDir = await createRenamedFixture('doctor-find');
+
+    const dangling = await findDanglingReferences(testDir, getAssistantConfigs());
+
+    assert.strictEqual(dangling.length, 1);
+    assert.strictEqual(dangling[0].skillName, 'my-skill');
+    assert.strictEqual(dangling[0].platform, 'claude');
+    assert.strictEqual(dangling[0].reference, '@../../../.agents-common/skills/old-name/SKILL.md');
+    assert.strictEqual(dangling[0].commonPath, join(testDir, '.agents-common/skills/my-skill/SKILL.md'));
+    assert.deepEqual(dangling[0].inlineCopies, []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should point a dangling reference to the common skill of the same name', async () => {
+    const testDir = await createRenamedFixture('doctor-repoint');
+
+    const stub = stubInquirer({ action: 'repoint' });
+    try {
+      await run({ baseDir: testDir, doctor: true });
+    } finally {
+      stub.restore();
+    }
+
+    assert.match(
+      await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8'),
+      /@\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/my-skill\/SKILL\.md/
+    );
+    assert.deepEqual(await findDanglingReferences(testDir, getAssistantConfigs()), []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should recreate the common skill from an inline copy', async () => {
+    const testDir = await createTestFixture('doctor-recreate', async (dir) => {
+      await fs.mkdir(join(dir, '.claude/skills/my-skill'), { recursive: true });
+      await fs.mkdir(join(dir, '.codex/skills/my-skill'), { recursive: true });
+      await fs.writeFile(
+        join(dir, '.claude/skills/my-skill/SKILL.md'),
+        '---\nname: my-skill\n---\n@../../../.agents-common/skills/my-skill/SKILL.md\n'
+      );
+      await fs.writeFile(join(dir, '.codex/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nInline body\n');
+    });
+
+    const stub = stubInquirer({ action: 'recreate:0' });
+    try {
+      await run({ baseDir: testDir, doctor: true });
+    } finally {
+      stub.restore();
+    }
+
+    assert.match(await fs.readFile(join(testDir, '.agents-common/skills/my-skill/SKILL.md'), 'utf8'), /Inline body/);
+    assert.match(await fs.readFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), 'utf8'), /^@\.\.\/\.\.\/\.\.\/\.agents-common/m);
+    assert.deepEqual(await findDanglingReferences(testDir, getAssistantConfigs()), []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should delete an orphaned platform skill', async () => {
+    const testDir = await createTestFixture('doctor-delete', async (dir) => {
+      await fs.mkdir(join(dir, '.claude/skills/orphan'), { recursive: true });
+      await fs.writeFile(
+        join(dir, '.claude/skills/orphan/SKILL.md'),
+        '---\nname: orphan\n---\n@../../../.agents-common/skills/orphan/SKILL.md\n'
+      );
+    });
+
+    const stub = stubInquirer({ action: 'delete' });
+    try {
+      await run({ baseDir: testDir, doctor: true });
+    } finally {
+      stub.restore();
+    }
+
+    assert.strictEqual(await exists(join(testDir, '.claude/skills/orphan')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should only report dangling references in dry-run mode', async () => {
+    const testDir = await createRenamedFixture('doctor-dry-run');
+    const platformPath = join(testDir, '.claude/skills/my-skill/SKILL.md');
+    const before = await fs.readFile(platformPath, 'utf8');
+
+    const stub = stubInquirer({ action: 'delete' });
+    try {
+      await run({ baseDir: testDir, doctor: true, dryRun: true });
+    } finally {
+      stub.restore();
+    }
+
+    assert.strictEqual(stub.callCount, 0);
+    assert.strictEqual(await fs.readFile(platformPath, 'utf8'), before);
+    assert.ok(logs.messages.some(line => line.includes('Found 1 dangling reference(s)')));
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { planSync, run } from '../src/index.js';
+import { applyPlan, readPlan, writePlan, findStaleOperations } from '../src/executor.js';
+import { cleanupTestFixture, createConfiguredFixture, createTestFixture, stubInquirer } from './helpers/test-setup.js';
+
+function createInlineSkillFixture(name: string): Promise<string> {
+  return createConfiguredFixture(name, {
+    config: { version: 1, assistants: ['claude'] },
+    files: {
+      '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\n\n# Test\n\nContent',
+      '.claude/skills/test-skill/scripts/run.sh': 'echo hi'
+    }
+  });
+}
+
+describe('sync plan', () => {
+  it('should describe the sync as typed operations without touching disk', async () => {
+    const testDir = await createInlineSkillFixture('plan-operations');
+
+    const plan = await planSync({ baseDir: testDir });
+    const summary = plan.operations.map(operation => `${operation.type} ${operation.path}`);
+
+    assert.deepEqual(summary, [
+      'CopyDependent .agents-common/skills/test-skill/scripts/run.sh',
+      'WriteCommon .agents-common/skills/test-skill/SKILL.md',
+      'WriteReference .claude/skills/test-skill/SKILL.md',
+      'DeleteDependent .claude/skills/test-skill/scripts/run.sh',
+      'RemoveDirectory .claude/skills/test-skill/scripts',
+      summary[5]
+    ]);
+    assert.match(summary[5], /^WriteFile \.agents-common\/\.sync-base\/test-skill\/sha256-[0-9a-f]+\.json$/);
+    assert.strictEqual(plan.operations[0].source, '.claude/skills/test-skill/scripts/run.sh');
+    assert.strictEqual(plan.operations[1].expectedHash, null);
+    assert.match(plan.operations[2].expectedHash!, /^sha256-/);
+    assert.deepEqual(plan.operations[4].expectedEntries, ['run.sh']);
+
+    await assert.rejects(() => fs.access(join(testDir, '.agents-common/skills')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should apply a saved plan and reach the synced state', async () => {
+    const testDir = await createInlineSkillFixture('plan-apply');
+    const planPath = join(testDir, 'sync-plan.json');
+
+    await writePlan(planPath, await planSync({ baseDir: testDir }));
+    await applyPlan(await readPlan(planPath), testDir);
+
+    const platformContent = await fs.readFile(join(testDir, '.claude/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(platformContent.includes('@../../../.agents-common/skills/test-skill/SKILL.md'));
+    assert.strictEqual(
+      await fs.readFile(join(testDir, '.agents-common/skills/test-skill/scripts/run.sh'), 'utf8'),
+      'echo hi'
+    );
+    await assert.rejects(() => fs.access(join(testDir, '.claude/skills/test-skill/scripts')));
+
+    const followUp = await planSync({ baseDir: testDir });
+    assert.deepEqual(followUp.operations, []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to apply when files changed since planning', async () => {
+    const testDir = await createInlineSkillFixture('plan-stale');
+    const skillPath = join(testDir, '.claude/skills/test-skill/SKILL.md');
+
+    const plan = await planSync({ baseDir: testDir });
+    await fs.writeFile(skillPath, '---\nname: test-skill\n---\n\nEdited after planning');
+
+    assert.deepEqual(await findStaleOperations(plan, testDir), ['.claude/skills/test-skill/SKILL.md']);
+    await assert.rejects(() => applyPlan(plan, testDir), /Plan is out of date/);
+
+    // Nothing was written
+    assert.strictEqual(await fs.readFile(skillPath, 'utf8'), '---\nname: test-skill\n---\n\nEdited after planning');
+    await assert.rejects(() => fs.access(join(testDir, '.agents-common/skills')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to remove a directory that gained files since planning', async () => {
+    const testDir = await createInlineSkillFixture('plan-stale-directory');
+    const addedPath = join(testDir, '.claude/skills/test-skill/scripts/added.sh');
+
+    const plan = await planSync({ baseDir: testDir });
+    await fs.writeFile(addedPath, 'echo added');
+
+    assert.deepEqual(await findStaleOperations(plan, testDir), ['.claude/skills/test-skill/scripts']);
+    await assert.rejects(() => applyPlan(plan, testDir), /Plan is out of date/);
+    assert.strictEqual(await fs.readFile(addedPath, 'utf8'), 'echo added');
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should fail planning instead of prompting', async () => {
+    const testDir = await createInlineSkillFixture('plan-no-prompt');
+    await fs.writeFile(join(testDir, '.agents-common/config.json'), JSON.stringify({
+      version: 1,
+      assistants: ['claude', 'codex']
+    }, null, 2));
+    await fs.mkdir(join(testDir, '.codex/skills'), { recursive: true });
+    await run({ baseDir: testDir });
+    const codexPath = join(testDir, '.codex/skills/test-skill/SKILL.md');
+    await fs.writeFile(codexPath, (await fs.readFile(codexPath, 'utf8')).replace(/@.*\n/, 'Edited in codex\n'));
+    const prompt = stubInquirer({ action: 'keep-common' });
+
+    try {
+      await assert.rejects(() => planSync({ baseDir: testDir }), /Out-of-sync skills detected: test-skill/);
+      const plan = await planSync({ baseDir: testDir, strategy: { 'out-of-sync': 'common' } });
+      assert.deepEqual(plan.operations.map(operation => operation.path), ['.codex/skills/test-skill/SKILL.md']);
+
+      // Creating the codex folder is a question too
+      await fs.rm(join(testDir, '.codex'), { recursive: true });
+      await assert.rejects(() => planSync({ baseDir: testDir }), /Cannot ask "create" while planning/);
+      assert.equal(prompt.callCount, 0);
+    } finally {
+      prompt.restore();
+      await cleanupTestFixture(testDir);
+    }
+  });
+
+  it('should refuse to apply a plan made in another mode', async () => {
+    const testDir = await createInlineSkillFixture('plan-home-mode');
+    const planPath = join(testDir, 'sync-plan.json');
+    const plan = await planSync({ baseDir: testDir });
+
+    await writePlan(planPath, { ...plan, homeMode: true });
+    await assert.rejects(
+      () => run({ baseDir: testDir, applyPlan: planPath }),
+      /The plan was made with --home: apply it with --home/
+    );
+    await writePlan(planPath, plan);
+    await assert.rejects(
+      () => run({ baseDir: testDir, homeMode: true, applyPlan: planPath }),
+      /The plan was made without --home: apply it without --home/
+    );
+    await assert.rejects(() => fs.access(join(testDir, '.agents-common/skills')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should reject malformed plan files', async () => {
+    const testDir = await createTestFixture('plan-invalid');
+    const planPath = join(testDir, 'plan.json');
+
+    await fs.writeFile(planPath, JSON.stringify({ version: 1, operations: [{ type: 'Explode', path: 'a' }] }));
+    await assert.rejects(() => readPlan(planPath), /operations\[0\]\.type "Explode" is not supported/);
+
+    await fs.writeFile(planPath, JSON.stringify({ version: 1, operations: [{ type: 'DeleteFile', path: '/etc/passwd' }] }));
+    await assert.rejects(() => readPlan(planPath), /must be a relative path/);
+
+    await fs.writeFile(planPath, JSON.stringify({
+      version: 1,
+      operations: [{ type: 'RemoveDirectory', path: 'a', expectedHash: null, expectedEntries: 'b' }]
+    }));
+    await assert.rejects(() => readPlan(planPath), /expectedEntries must be a list of names or null/);
+
+    await fs.writeFile(planPath, JSON.stringify({ version: 2, operations: [] }));
+    await assert.rejects(() => readPlan(planPath), /unsupported version 2/);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { FRONTMATTER_DECISIONS_PATH, loadFrontmatterDecisions, propagateFrontmatter } from '../src/propagator.js';
+import { resolveFrontmatterConflict } from '../src/resolver.js';
+import { captureLogs, cleanupTestFixture, createTestFixture, stubInquirer } from './helpers/test-setup.js';
+
+describe('frontmatter conflicts', () => {
+  let promptStub: ReturnType<typeof stubInquirer> | undefined;
+  captureLogs();
+
+  afterEach(() => {
+    if (promptStub) {
+      promptStub.restore();
+      promptStub = undefined;
+    }
+  });
+
+  /**
+   * Common and platform copies of a skill whose `model` field differs
+   */
+  async function createFieldConflictFixture(name: string): Promise<string> {
+    return createTestFixture(name, async (dir) => {
+      await fs.writeFile(join(dir, 'common.md'), '---\nname: test-skill\nmodel: opus\n---\nBody');
+      await fs.writeFile(join(dir, 'target.md'), '---\nname: test-skill\nmodel: sonnet\n---\nBody');
+    });
+  }
+
+  it('should offer common, platform, edit and skip-all', async () => {
+    promptStub = stubInquirer([{ action: 'edit' }, { value: '["Read", "Write"]\n' }]);
+
+    const resolution = await resolveFrontmatterConflict(
+      { field: 'tools', commonValue: ['Read'], targetValue: ['Write'] },
+      'test-skill'
+    );
+
+    assert.deepEqual(resolution, { action: 'edit', value: ['Read', 'Write'] });
+    const [question] = promptStub.firstCall.args[0] as Array<{ choices: Array<{ value: string }> }>;
+    assert.deepEqual(question.choices.map(choice => choice.value), ['common', 'target', 'edit', 'skip-all']);
+  });
+
+  it('should apply the chosen value and not ask again for the same conflict', async () => {
+    const testDir = await createFieldConflictFixture('frontmatter-decision');
+    const commonPath = join(testDir, 'common.md');
+    const targetPath = join(testDir, 'target.md');
+    const decisions = await loadFrontmatterDecisions(testDir);
+    promptStub = stubInquirer({ action: 'target' });
+
+    await propagateFrontmatter(commonPath, [targetPath], { decisions });
+    await propagateFrontmatter(commonPath, [targetPath], { decisions, failOnConflict: true });
+
+    assert.strictEqual(promptStub.callCount, 1);
+    assert.ok((await fs.readFile(targetPath, 'utf8')).includes('model: sonnet'));
+    assert.deepEqual(decisions.entries['target.md'].model, {
+      commonValue: 'opus',
+      targetValue: 'sonnet',
+      action: 'target'
+    });
+
+    // A new common value is a new conflict
+    await fs.writeFile(commonPath, '---\nname: test-skill\nmodel: haiku\n---\nBody');
+    promptStub.restore();
+    promptStub = stubInquirer({ action: 'common' });
+    await propagateFrontmatter(commonPath, [targetPath], { decisions });
+
+    assert.strictEqual(promptStub.callCount, 1);
+    assert.ok((await fs.readFile(targetPath, 'utf8')).includes('model: haiku'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should fail without prompting in non-interactive mode', async () => {
+    const testDir = await createFieldConflictFixture('frontmatter-fail');
+    promptStub = stubInquirer({});
+
+    await assert.rejects(
+      () => propagateFrontmatter(join(testDir, 'common.md'), [join(testDir, 'target.md')], { failOnConflict: true }),
+      /Conflict in skill ".*target\.md" for field "model"/
+    );
+    assert.strictEqual(promptStub.callCount, 0);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should remember decisions across syncs', async () => {
+    const testDir = await createTestFixture('frontmatter-sync', async (dir) => {
+      await fs.mkdir(join(dir, '.agents-common'), { recursive: true });
+      await fs.writeFile(join(dir, '.agents-common/config.json'), JSON.stringify({
+        version: 1,
+        assistants: ['claude']
+      }, null, 2));
+      await fs.mkdir(join(dir, '.claude/skills/test-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.claude/skills/test-skill/SKILL.md'), '---\nname: test-skill\n---\nBody\n');
+    });
+    await run({ baseDir: testDir });
+
+    const platformPath = join(testDir, '.claude/skills/test-skill/SKILL.md');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+    await fs.writeFile(platformPath, (await fs.readFile(platformPath, 'utf8')).replace('name: test-skill', 'name: test-skill\nmodel: sonnet'));
+    await fs.writeFile(commonPath, (await fs.readFile(commonPath, 'utf8')).replace('name: test-skill', 'name: test-skill\nmodel: opus'));
+
+    promptStub = stubInquirer({ action: 'target' });
+    await run({ baseDir: testDir });
+    assert.strictEqual(promptStub.callCount, 1);
+
+    const recorded = JSON.parse(await fs.readFile(join(testDir, FRONTMATTER_DECISIONS_PATH), 'utf8'));
+    assert.strictEqual(recorded.decisions['.claude/skills/test-skill/SKILL.md'].model.action, 'target');
+
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.ok((await fs.readFile(platformPath, 'utf8')).includes('model: sonnet'));
+
+    await cleanupTestFixture(testDir);
+  });
+});
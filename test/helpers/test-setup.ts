@@ -1,8 +1,11 @@
+import { beforeEach, afterEach } from 'node:test';
 import { promises as fs } from 'fs';
-import { resolve, join } from 'path';
+import { resolve, join, dirname } from 'path';
 import { tmpdir } from 'os';
 import sinon from 'sinon';
 import inquirer from 'inquirer';
+import { run } from '../../src/index.js';
+import { useLogger } from '../../src/ui.js';
 
 // Create a shared sandbox for all tests
 const sandbox = sinon.createSandbox();
@@ -30,6 +33,86 @@ export async function createTestFixture(
   return testDir;
 }
 
+/**
+ * Contents of a configured test fixture
+ */
+export interface FixtureSpec {
+  /** Config written to .agents-common/config.json */
+  config?: Record<string, unknown>;
+  /** Files to write, keyed by path relative to the fixture */
+  files?: Record<string, string>;
+  /** Empty directories to create, relative to the fixture */
+  dirs?: string[];
+}
+
+/**
+ * Create a test fixture with a config, files and empty directories
+ * @param name - Name for the test fixture
+ * @param spec - Config (version 1 with claude and codex by default), files and directories
+ * @returns Absolute path to the test fixture directory
+ */
+export async function createConfiguredFixture(
+  name: string,
+  { config = { version: 1, assistants: ['claude', 'codex'] }, files = {}, dirs = [] }: FixtureSpec = {}
+): Promise<string> {
+  return createTestFixture(name, async (dir) => {
+    await fs.mkdir(join(dir, '.agents-common'), { recursive: true });
+    await fs.writeFile(join(dir, '.agents-common/config.json'), JSON.stringify(config, null, 2));
+    for (const path of dirs) {
+      await fs.mkdir(join(dir, path), { recursive: true });
+    }
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(dirname(join(dir, path)), { recursive: true });
+      await fs.writeFile(join(dir, path), content);
+    }
+  });
+}
+
+/**
+ * Create a configured test fixture and sync it once
+ * @param name - Name for the test fixture
+ * @param spec - Config, files and directories, as for createConfiguredFixture
+ * @returns Absolute path to the test fixture directory
+ */
+export async function createSyncedFixture(name: string, spec?: FixtureSpec): Promise<string> {
+  const testDir = await createConfiguredFixture(name, spec);
+  await run({ baseDir: testDir });
+  return testDir;
+}
+
+/**
+ * Messages logged by the running test
+ */
+export interface CapturedLogs {
+  messages: string[];
+  warnings: string[];
+}
+
+/**
+ * Capture what the tests of the enclosing describe block log instead of printing it
+ * Installs a logger with useLogger before each test and restores the previous one after it
+ * @returns Messages and warnings of the running test, emptied before each test
+ */
+export function captureLogs(): CapturedLogs {
+  const logs: CapturedLogs = { messages: [], warnings: [] };
+  let restore: () => void = () => {};
+
+  beforeEach(() => {
+    logs.messages.length = 0;
+    logs.warnings.length = 0;
+    restore = useLogger({
+      log: message => logs.messages.push(message),
+      warn: message => logs.warnings.push(message)
+    });
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  return logs;
+}
+
 /**
  * Clean up a test fixture directory
  * @param dir - Absolute path to the test fixture directory
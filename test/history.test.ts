@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { listRuns, pruneHistory, undoRun, recordRun, HISTORY_PATH } from '../src/history.js';
+import { scanSkills } from '../src/scanner.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture, createTestFixture } from './helpers/test-setup.js';
+
+function createInlineSkillFixture(name: string): Promise<string> {
+  return createConfiguredFixture(name, {
+    config: { version: 1, assistants: ['claude'] },
+    files: {
+      '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\n\n# Test\n\nContent',
+      '.claude/skills/test-skill/scripts/run.sh': 'echo hi'
+    }
+  });
+}
+
+describe('run history', () => {
+  captureLogs();
+
+  it('should record a backup for each sync that changes files', async () => {
+    const testDir = await createInlineSkillFixture('history-record');
+
+    await run({ baseDir: testDir });
+    await run({ baseDir: testDir });
+
+    const runs = await listRuns(testDir);
+    assert.strictEqual(runs.length, 1, 'A sync that changes nothing should not be recorded');
+
+    const [manifest] = runs;
+    assert.strictEqual(manifest.command, 'sync');
+    const byPath = new Map(manifest.entries.map(entry => [entry.path, entry]));
+    assert.strictEqual(byPath.get('.claude/skills/test-skill/SKILL.md')?.action, 'modified');
+    assert.strictEqual(byPath.get('.claude/skills/test-skill/scripts/run.sh')?.action, 'deleted');
+    assert.strictEqual(byPath.get('.agents-common/skills/test-skill/SKILL.md')?.action, 'created');
+
+    const backup = await fs.readFile(
+      join(testDir, HISTORY_PATH, manifest.id, 'files/.claude/skills/test-skill/SKILL.md'),
+      'utf8'
+    );
+    assert.ok(backup.includes('# Test'));
+
+    // Backups must not be picked up as common skills
+    const { common } = await scanSkills(testDir, []);
+    assert.deepEqual(common.map(skill => skill.skillName), ['test-skill']);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should undo the most recent run', async () => {
+    const testDir = await createInlineSkillFixture('history-undo');
+    const skillPath = join(testDir, '.claude/skills/test-skill/SKILL.md');
+    const originalContent = await fs.readFile(skillPath, 'utf8');
+
+    await run({ baseDir: testDir });
+    await run({ baseDir: testDir, undo: true });
+
+    assert.strictEqual(await fs.readFile(skillPath, 'utf8'), originalContent);
+    assert.strictEqual(
+      await fs.readFile(join(testDir, '.claude/skills/test-skill/scripts/run.sh'), 'utf8'),
+      'echo hi'
+    );
+    await assert.rejects(() => fs.access(join(testDir, '.agents-common/skills/test-skill')));
+    assert.deepEqual(await listRuns(testDir), []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to undo when files changed since the run unless forced', async () => {
+    const testDir = await createInlineSkillFixture('history-undo-changed');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+
+    await run({ baseDir: testDir });
+    await fs.writeFile(commonPath, '---\nname: test-skill\n---\n\nEdited after sync');
+
+    await assert.rejects(
+      () => undoRun(testDir),
+      /Files changed since run .*\.agents-common\/skills\/test-skill\/SKILL\.md/
+    );
+    await fs.access(commonPath);
+
+    await undoRun(testDir, undefined, { force: true });
+    await assert.rejects(() => fs.access(commonPath));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should prune old runs', async () => {
+    const testDir = await createTestFixture('history-prune');
+    const filePath = join(testDir, 'file.md');
+
+    for (let i = 0; i < 3; i++) {
+      await fs.writeFile(filePath, `version ${i + 1}`);
+      await recordRun(testDir, [{ kind: 'file', path: filePath, original: Buffer.from(`version ${i}`) }], 'sync');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const before = await listRuns(testDir);
+    assert.strictEqual(before.length, 3);
+
+    const removed = await pruneHistory(testDir, 1);
+    assert.deepEqual(removed, before.slice(1).map(manifest => manifest.id));
+    assert.deepEqual((await listRuns(testDir)).map(manifest => manifest.id), [before[0].id]);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should reject unknown run ids', async () => {
+    const testDir = await createTestFixture('history-unknown');
+
+    await assert.rejects(() => undoRun(testDir, 'missing-run'), /No run found with id missing-run/);
+    await assert.rejects(() => undoRun(testDir, '../escape'), /Invalid run id/);
+    await assert.rejects(() => undoRun(testDir), /No runs recorded/);
+
+    await cleanupTestFixture(testDir);
+  });
+});
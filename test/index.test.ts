@@ -2,10 +2,11 @@ import { test, describe, it, afterEach } from 'node:test';
 import { strict as assert } from 'node:assert';
 import { run } from '../src/index.js';
 import { promises as fs } from 'fs';
-import { createTestFixture, cleanupTestFixture, stubInquirer } from './helpers/test-setup.js';
+import { captureLogs, createTestFixture, cleanupTestFixture, stubInquirer } from './helpers/test-setup.js';
 
 describe('run', () => {
   let promptStub: ReturnType<typeof stubInquirer> | undefined;
+  const logs = captureLogs();
 
   afterEach(() => {
     if (promptStub) {
@@ -83,4 +84,88 @@ Modified content`);
 
     await cleanupTestFixture(testDir);
   });
+
+  it('should print a plan without touching disk in dry-run mode', async () => {
+    const testDir = await createTestFixture('index-dry-run', async (dir) => {
+      await fs.mkdir(`${dir}/.agents-common`, { recursive: true });
+      await fs.writeFile(`${dir}/.agents-common/config.json`, JSON.stringify({
+        version: 1,
+        assistants: ['claude']
+      }, null, 2));
+
+      await fs.mkdir(`${dir}/.claude/skills/test-skill`, { recursive: true });
+      await fs.writeFile(`${dir}/.claude/skills/test-skill/SKILL.md`, `---
+name: test-skill
+---
+
+# Test
+
+Content`);
+    });
+
+    const claudePath = `${testDir}/.claude/skills/test-skill/SKILL.md`;
+    const originalContent = await fs.readFile(claudePath, 'utf8');
+
+    await run({ baseDir: testDir, dryRun: true });
+
+    const output = logs.messages.join('\n');
+    assert.ok(output.includes('+ create  .agents-common/skills/test-skill/SKILL.md'));
+    assert.ok(output.includes('~ rewrite .claude/skills/test-skill/SKILL.md'));
+    assert.ok(output.includes('+@../../../.agents-common/skills/test-skill/SKILL.md'));
+
+    assert.strictEqual(await fs.readFile(claudePath, 'utf8'), originalContent);
+    await assert.rejects(() => fs.access(`${testDir}/.agents-common/skills`));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should restore files changed by earlier phases when the user aborts', async () => {
+    const testDir = await createTestFixture('index-abort-rollback', async (dir) => {
+      await fs.mkdir(`${dir}/.agents-common/skills/drifted-skill`, { recursive: true });
+      await fs.writeFile(`${dir}/.agents-common/config.json`, JSON.stringify({
+        version: 1,
+        assistants: ['claude']
+      }, null, 2));
+      await fs.writeFile(`${dir}/.agents-common/skills/drifted-skill/SKILL.md`, `---
+name: drifted-skill
+metadata:
+  sync:
+    version: 2
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+
+Original content`);
+
+      await fs.mkdir(`${dir}/.claude/skills/drifted-skill`, { recursive: true });
+      await fs.writeFile(`${dir}/.claude/skills/drifted-skill/SKILL.md`, `---
+name: drifted-skill
+description: Edited on the platform
+metadata:
+  sync:
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+@../../../.agents-common/skills/drifted-skill/SKILL.md
+`);
+
+      await fs.mkdir(`${dir}/.claude/skills/inline-skill`, { recursive: true });
+      await fs.writeFile(`${dir}/.claude/skills/inline-skill/SKILL.md`, `---
+name: inline-skill
+---
+
+# Inline`);
+    });
+
+    promptStub = stubInquirer({ outOfSyncAction: 'abort' });
+
+    const inlinePath = `${testDir}/.claude/skills/inline-skill/SKILL.md`;
+    const originalInline = await fs.readFile(inlinePath, 'utf8');
+
+    await assert.rejects(() => run({ baseDir: testDir }), /Sync aborted/);
+
+    // Phase 3 refactored inline-skill before the abort; it must be restored
+    assert.strictEqual(await fs.readFile(inlinePath, 'utf8'), originalInline);
+    await assert.rejects(() => fs.access(`${testDir}/.agents-common/skills/inline-skill`));
+
+    await cleanupTestFixture(testDir);
+  });
 });
@@ -5,6 +5,7 @@ import { resolve, join } from 'path';
 import matter from 'gray-matter';
 import sinon from 'sinon';
 import inquirer from 'inquirer';
+import { useLogger } from '../src/ui.js';
 import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
 
 let promptStub: sinon.SinonStub;
@@ -511,12 +512,9 @@ This is the content.`);
   let content = await fs.readFile(claudeSkillPath, 'utf8');
   assert.ok(content.includes('@../../../.agents-common'), 'Claude skill should be refactored');
 
-  // Capture console logs for the second run
-  const originalLog = console.log;
-  const originalWarn = console.warn;
+  // Capture logs for the second run
   const logs: string[] = [];
-  console.log = (...args) => logs.push(args.join(' '));
-  console.warn = (...args) => logs.push(args.join(' '));
+  const restoreLogger = useLogger({ log: message => logs.push(message), warn: message => logs.push(message) });
 
   try {
     // Second run: Should NOT report "Skill modified outside of sync-skills"
@@ -525,8 +523,7 @@ This is the content.`);
     // but running again with same config should be enough to trigger the check.
     await runTest(testDir);
   } finally {
-    console.log = originalLog;
-    console.warn = originalWarn;
+    restoreLogger();
   }
 
   // Check logs for the warning
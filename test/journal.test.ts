@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { JournalFileSystem, withTransaction } from '../src/journal.js';
+import { fs as activeFs } from '../src/io.js';
+import { captureLogs, createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
+
+describe('JournalFileSystem', () => {
+  it('should restore rewritten files and remove created ones on rollback', async () => {
+    const testDir = await createTestFixture('journal-write', async (dir) => {
+      await fs.writeFile(join(dir, 'existing.md'), 'original');
+    });
+
+    const journal = new JournalFileSystem();
+    await journal.writeFile(join(testDir, 'existing.md'), 'first');
+    await journal.writeFile(join(testDir, 'existing.md'), 'second');
+    await journal.mkdir(join(testDir, 'new/nested'), { recursive: true });
+    await journal.writeFile(join(testDir, 'new/nested/file.md'), 'created');
+
+    const restored = await journal.rollback();
+
+    assert.strictEqual(restored, 2);
+    assert.strictEqual(await fs.readFile(join(testDir, 'existing.md'), 'utf8'), 'original');
+    await assert.rejects(() => fs.access(join(testDir, 'new')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should restore deleted files and removed empty directories', async () => {
+    const testDir = await createTestFixture('journal-delete', async (dir) => {
+      await fs.mkdir(join(dir, 'scripts'), { recursive: true });
+      await fs.writeFile(join(dir, 'scripts/run.sh'), Buffer.from([0x00, 0xff, 0x10]));
+    });
+
+    const journal = new JournalFileSystem();
+    await journal.unlink(join(testDir, 'scripts/run.sh'));
+    await journal.rmdir(join(testDir, 'scripts'));
+
+    await journal.rollback();
+
+    assert.deepEqual(await fs.readFile(join(testDir, 'scripts/run.sh')), Buffer.from([0x00, 0xff, 0x10]));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should keep changes after commit', async () => {
+    const testDir = await createTestFixture('journal-commit');
+
+    const journal = new JournalFileSystem();
+    await journal.writeFile(join(testDir, 'file.md'), 'kept');
+    journal.commit();
+    await journal.rollback();
+
+    assert.strictEqual(await fs.readFile(join(testDir, 'file.md'), 'utf8'), 'kept');
+
+    await cleanupTestFixture(testDir);
+  });
+});
+
+describe('withTransaction', () => {
+  captureLogs();
+
+  it('should roll back writes made through the active file system when the operation fails', async () => {
+    const testDir = await createTestFixture('journal-transaction', async (dir) => {
+      await fs.writeFile(join(dir, 'file.md'), 'original');
+    });
+
+    await assert.rejects(
+      () => withTransaction(async () => {
+        await activeFs.writeFile(join(testDir, 'file.md'), 'modified');
+        throw new Error('Sync aborted');
+      }),
+      /Sync aborted/
+    );
+
+    assert.strictEqual(await fs.readFile(join(testDir, 'file.md'), 'utf8'), 'original');
+
+    await cleanupTestFixture(testDir);
+  });
+});
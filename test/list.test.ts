@@ -1,21 +1,13 @@
-import { describe, it, afterEach } from 'node:test';
+import { describe, it } from 'node:test';
 import { strict as assert } from 'node:assert';
 import { run } from '../src/index.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { buildCommonSkillReference } from '../src/references.js';
-import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
+import { captureLogs, createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
 
 describe('list mode', () => {
-  let logs: string[] = [];
-  const originalLog = console.log;
-  const originalWarn = console.warn;
-
-  afterEach(() => {
-    console.log = originalLog;
-    console.warn = originalWarn;
-    logs = [];
-  });
+  const logs = captureLogs();
 
   it('should list installed skills with description and file count', async () => {
     const testDir = await createTestFixture('list-test', async (dir) => {
@@ -37,13 +29,9 @@ describe('list mode', () => {
       await fs.writeFile(codexSkillPath, `---\n---\n${atReference}`);
     });
 
-    console.log = (...args: any[]) => {
-      logs.push(args.join(' '));
-    };
-
     await run({ baseDir: testDir, listMode: true });
 
-    const output = logs.join('\n');
+    const output = logs.messages.join('\n');
     
     assert.ok(output.includes('skill-1'), 'Should contain skill-1');
     assert.ok(output.includes('[claude]'), 'Should contain claude site');
@@ -63,13 +51,9 @@ describe('list mode', () => {
       // Empty dir
     });
 
-    console.log = (...args: any[]) => {
-      logs.push(args.join(' '));
-    };
-
     await run({ baseDir: testDir, listMode: true });
 
-    assert.ok(logs.some(l => l.includes('No skills found')), 'Should show no skills found message');
+    assert.ok(logs.messages.some(l => l.includes('No skills found')), 'Should show no skills found message');
 
     await cleanupTestFixture(testDir);
   });
@@ -0,0 +1,166 @@
+import { describe, it, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import matter from 'gray-matter';
+import { applySkillMerge, mergeLines, mergeSkill, renderMerge, SYNC_BASE_PATH } from '../src/merge.js';
+import { normalizeBodyContent } from '../src/frontmatter.js';
+import { SYNC_METADATA_VERSION, verifySkillHash } from '../src/syncer.js';
+import type { OutOfSyncSkill } from '../src/types.js';
+import { captureLogs, cleanupTestFixture, createSyncedFixture, stubInquirer } from './helpers/test-setup.js';
+
+describe('mergeLines', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive';
+
+  it('should apply non-overlapping edits from both sides', () => {
+    const chunks = mergeLines(base, 'one\nTWO\nthree\nfour\nfive', 'one\ntwo\nthree\nfour\nFIVE\nsix');
+
+    assert.ok(chunks.every(chunk => chunk.kind === 'merged'));
+    assert.strictEqual(renderMerge(chunks, 'theirs'), 'one\nTWO\nthree\nfour\nFIVE\nsix');
+  });
+
+  it('should apply identical edits once', () => {
+    const chunks = mergeLines(base, 'one\ntwo\n3\nfour\nfive', 'one\ntwo\n3\nfour\nfive');
+
+    assert.strictEqual(renderMerge(chunks, 'ours'), 'one\ntwo\n3\nfour\nfive');
+  });
+
+  it('should report overlapping edits as conflicts', () => {
+    const chunks = mergeLines(base, 'one\ntwo\nplatform\nfour\nfive', 'one\ntwo\ncommon\nfour\nfive');
+
+    assert.deepEqual(chunks, [
+      { kind: 'merged', lines: ['one', 'two'] },
+      { kind: 'conflict', base: ['three'], ours: ['platform'], theirs: ['common'] },
+      { kind: 'merged', lines: ['four', 'five'] }
+    ]);
+    assert.strictEqual(renderMerge(chunks, 'ours'), 'one\ntwo\nplatform\nfour\nfive');
+    assert.strictEqual(
+      renderMerge(chunks, 'markers', { ours: 'claude', theirs: 'common' }),
+      'one\ntwo\n<<<<<<< claude\nplatform\n=======\ncommon\n>>>>>>> common\nfour\nfive'
+    );
+  });
+});
+
+describe('three-way merge during sync', () => {
+  let promptStub: ReturnType<typeof stubInquirer> | undefined;
+  captureLogs();
+
+  afterEach(() => {
+    if (promptStub) {
+      promptStub.restore();
+      promptStub = undefined;
+    }
+  });
+
+  /**
+   * Sync an inline skill, then edit the platform copy inline and the common copy
+   */
+  async function createEditedFixture(name: string, platformBody: string, commonLine: string): Promise<string> {
+    const testDir = await createSyncedFixture(name, {
+      config: { version: 1, assistants: ['claude'] },
+      files: { '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\n---\nline1\nline2\nline3\nline4\nline5\n' }
+    });
+
+    const platformPath = join(testDir, '.claude/skills/test-skill/SKILL.md');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+    const syncedPlatform = await fs.readFile(platformPath, 'utf8');
+    const hash = syncedPlatform.match(/hash: (\S+)/)![1];
+
+    await fs.writeFile(platformPath, `---
+name: test-skill
+metadata:
+  sync:
+    hash: ${hash}
+---
+${platformBody}
+`);
+    const commonContent = await fs.readFile(commonPath, 'utf8');
+    await fs.writeFile(commonPath, commonContent.replace('line4', commonLine));
+
+    return testDir;
+  }
+
+  it('should record the synced version as a merge base', async () => {
+    const testDir = await createEditedFixture('merge-base', 'line1\nline2\nline3\nline4\nline5', 'line4');
+
+    const bases = await fs.readdir(join(testDir, SYNC_BASE_PATH, 'test-skill'));
+    assert.strictEqual(bases.length, 1);
+    assert.match(bases[0], /^sha256-[0-9a-f]+\.json$/);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should merge non-overlapping platform and common edits without prompting', async () => {
+    const testDir = await createEditedFixture('merge-clean', 'line1\nline2 platform\nline3\nline4\nline5', 'line4 common');
+    promptStub = stubInquirer({});
+
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    const commonContent = await fs.readFile(join(testDir, '.agents-common/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(commonContent.includes('line2 platform\nline3\nline4 common'));
+    const platformContent = await fs.readFile(join(testDir, '.claude/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(platformContent.includes('@../../../.agents-common/skills/test-skill/SKILL.md'));
+    assert.strictEqual(promptStub.callCount, 0);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should fail on overlapping edits in non-interactive mode', async () => {
+    const testDir = await createEditedFixture('merge-fail', 'line1\nline2\nline3\nline4 platform\nline5', 'line4 common');
+
+    await assert.rejects(
+      () => run({ baseDir: testDir, failOnConflict: true }),
+      /Merge conflicts detected in: test-skill/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should write conflict markers to the platform skill when asked', async () => {
+    const testDir = await createEditedFixture('merge-markers', 'line1\nline2\nline3\nline4 platform\nline5', 'line4 common');
+    const commonPath = join(testDir, '.agents-common/skills/test-skill/SKILL.md');
+    promptStub = stubInquirer({ action: 'markers' });
+
+    await run({ baseDir: testDir });
+
+    const platformContent = await fs.readFile(join(testDir, '.claude/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(platformContent.includes('<<<<<<< claude\nline4 platform\n=======\nline4 common\n>>>>>>> common'));
+    const commonContent = await fs.readFile(commonPath, 'utf8');
+    assert.ok(commonContent.includes('line4 common'));
+    assert.ok(!commonContent.includes('<<<<<<<'));
+
+    // The platform copy is now based on the current common version: no merge on the next sync
+    await assert.rejects(
+      () => run({ baseDir: testDir, failOnConflict: true }),
+      /Out-of-sync skills detected: test-skill/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should hash common with its dependent files when writing conflict markers', async () => {
+    const testDir = await createEditedFixture('merge-markers-dependents', 'line1\nline2\nline3\nline4 platform\nline5', 'line4 common');
+    const skill: OutOfSyncSkill = {
+      skillName: 'test-skill',
+      platform: 'claude',
+      platformPath: join(testDir, '.claude/skills/test-skill/SKILL.md'),
+      commonPath: join(testDir, '.agents-common/skills/test-skill/SKILL.md'),
+      mismatchType: 'body'
+    };
+    await fs.writeFile(join(testDir, '.agents-common/skills/test-skill/notes.md'), 'Notes');
+
+    await applySkillMerge((await mergeSkill(testDir, skill))!, 'markers');
+
+    const common = matter(await fs.readFile(skill.commonPath, 'utf8'));
+    const commonHash = common.data.metadata.sync.hash;
+    assert.strictEqual(common.data.metadata.sync.version, SYNC_METADATA_VERSION);
+    assert.strictEqual(
+      await verifySkillHash(common.data, normalizeBodyContent(common.content), join(testDir, '.agents-common/skills/test-skill')),
+      true
+    );
+    assert.strictEqual(matter(await fs.readFile(skill.platformPath, 'utf8')).data.metadata.sync.hash, commonHash);
+
+    await cleanupTestFixture(testDir);
+  });
+});
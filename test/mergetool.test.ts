@@ -0,0 +1,157 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { findMergeToolCommand, MERGE_TOOL_ENV } from '../src/mergetool.js';
+import { resolveConflict } from '../src/resolver.js';
+import { SYNC_METADATA_VERSION } from '../src/syncer.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture, createTestFixture, stubInquirer } from './helpers/test-setup.js';
+import type { Conflict } from '../src/types.js';
+
+const ENV_KEYS = [MERGE_TOOL_ENV, 'EDITOR', 'VISUAL', 'GIT_CONFIG_GLOBAL', 'GIT_CONFIG_NOSYSTEM'];
+
+describe('merge tool', () => {
+  const originalEnv: Record<string, string | undefined> = {};
+  let promptStub: ReturnType<typeof stubInquirer> | undefined;
+  captureLogs();
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      originalEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+    if (promptStub) {
+      promptStub.restore();
+      promptStub = undefined;
+    }
+  });
+
+  /**
+   * Claude copy edited inline, no sync base recorded
+   */
+  function createOutOfSyncFixture(name: string): Promise<string> {
+    return createConfiguredFixture(name, {
+      config: { version: 1, assistants: ['claude'] },
+      files: {
+        '.agents-common/skills/test-skill/SKILL.md': `---
+name: test-skill
+metadata:
+  sync:
+    version: 2
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+
+Original content`,
+        '.claude/skills/test-skill/SKILL.md': `---
+name: test-skill
+metadata:
+  sync:
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+
+Modified content`
+      }
+    });
+  }
+
+  it('should prefer $SYNC_SKILLS_MERGETOOL, then the config, then git merge.tool', async () => {
+    const testDir = await createTestFixture('mergetool-lookup', async (dir) => {
+      await fs.writeFile(join(dir, 'gitconfig'), '[merge]\n\ttool = meld\n');
+    });
+    process.env.GIT_CONFIG_GLOBAL = join(testDir, 'gitconfig');
+    process.env.GIT_CONFIG_NOSYSTEM = '1';
+
+    assert.strictEqual(
+      await findMergeToolCommand(testDir),
+      'meld "$LOCAL" "$BASE" "$REMOTE" --output "$MERGED"'
+    );
+
+    await fs.writeFile(join(testDir, 'gitconfig'), '[merge]\n\ttool = mine\n[mergetool "mine"]\n\tcmd = mine $MERGED\n');
+    assert.strictEqual(await findMergeToolCommand(testDir), 'mine $MERGED');
+
+    assert.strictEqual(await findMergeToolCommand(testDir, 'configured "$MERGED"'), 'configured "$MERGED"');
+
+    process.env[MERGE_TOOL_ENV] = 'env-tool "$MERGED"';
+    assert.strictEqual(await findMergeToolCommand(testDir, 'configured "$MERGED"'), 'env-tool "$MERGED"');
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should write the merge tool result to common and re-propagate it', async () => {
+    const testDir = await createOutOfSyncFixture('mergetool-out-of-sync');
+    process.env[MERGE_TOOL_ENV] = `sed 's/Modified content/Merged content/' "$LOCAL" > "$MERGED"`;
+    promptStub = stubInquirer({ action: 'merge-tool' });
+
+    await run({ baseDir: testDir });
+
+    const commonContent = await fs.readFile(join(testDir, '.agents-common/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(commonContent.includes('Merged content'));
+    assert.ok(commonContent.includes(`version: ${SYNC_METADATA_VERSION}`));
+    assert.ok(!commonContent.includes('0aa1d1e5'));
+    const platformContent = await fs.readFile(join(testDir, '.claude/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(platformContent.includes('@../../../.agents-common/skills/test-skill/SKILL.md'));
+
+    // Synced: nothing to resolve on the next run
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should ask again when the editor leaves conflict markers', async () => {
+    const testDir = await createOutOfSyncFixture('mergetool-editor');
+    process.env.EDITOR = 'true';
+    promptStub = stubInquirer([{ action: 'edit' }, { outOfSyncAction: 'keep-common' }]);
+
+    await run({ baseDir: testDir });
+
+    assert.strictEqual(promptStub.callCount, 2);
+    const commonContent = await fs.readFile(join(testDir, '.agents-common/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(commonContent.includes('Original content'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should merge two platform versions in the merge tool', async () => {
+    const conflict: Conflict = {
+      skillName: 'test-skill',
+      platformA: 'claude',
+      platformB: 'codex',
+      pathA: '/path/to/claude/SKILL.md',
+      pathB: '/path/to/codex/SKILL.md',
+      hashA: 'hash1',
+      hashB: 'hash2',
+      contentA: '---\nname: test-skill\n---\nClaude',
+      contentB: '---\nname: test-skill\n---\nCodex',
+      conflictType: 'content'
+    };
+    promptStub = stubInquirer({ action: 'merge-tool' });
+
+    const resolution = await resolveConflict(conflict, undefined, {
+      manualMerge: {
+        base: '',
+        local: 'Claude\n',
+        remote: 'Codex\n',
+        labels: { local: 'claude', remote: 'codex' },
+        mergeTool: 'cat "$LOCAL" "$REMOTE" > "$MERGED"'
+      }
+    });
+
+    assert.deepEqual(resolution, { action: 'use-merged', content: 'Claude\nCodex\n' });
+    const [question] = promptStub.firstCall.args[0] as Array<{ choices: Array<{ value: string }> }>;
+    assert.deepEqual(
+      question.choices.map(choice => choice.value),
+      ['use-a', 'use-b', 'merge-tool', 'edit', 'keep-both', 'abort']
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run, listInstalledSkills } from '../src/index.js';
+import { parseOutputFormat, runWithJsonOutput } from '../src/output.js';
+import { logger } from '../src/ui.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture } from './helpers/test-setup.js';
+import type { SyncEvent } from '../src/types.js';
+
+describe('JSON output', () => {
+  const originalError = console.error;
+  captureLogs();
+
+  beforeEach(() => {
+    // The JSON formats move logs to stderr
+    console.error = () => {};
+  });
+
+  afterEach(() => {
+    console.error = originalError;
+  });
+
+  /**
+   * A claude skill with a dependent file, not synced yet
+   */
+  function createFixture(name: string): Promise<string> {
+    return createConfiguredFixture(name, {
+      dirs: ['.codex/skills'],
+      files: {
+        '.claude/skills/test-skill/SKILL.md': '---\nname: test-skill\ndescription: Test skill\n---\nBody\n',
+        '.claude/skills/test-skill/notes.md': 'Notes'
+      }
+    });
+  }
+
+  it('should report the actions taken per skill, then nothing once synced', async () => {
+    const testDir = await createFixture('output-report');
+    const events: SyncEvent[] = [];
+
+    const report = await run({ baseDir: testDir, onEvent: event => events.push(event) });
+
+    assert.strictEqual(report?.status, 'synced');
+    assert.deepEqual(report.skills.map(skill => [skill.skillName, skill.status]), [['test-skill', 'updated']]);
+    assert.deepEqual(report.skills[0].actions, [
+      { action: 'created', path: '.codex/skills/test-skill/SKILL.md' },
+      { action: 'created', path: '.agents-common/skills/test-skill/SKILL.md' },
+      { action: 'modified', path: '.claude/skills/test-skill/SKILL.md' },
+      { action: 'created', path: '.agents-common/skills/test-skill/notes.md' },
+      { action: 'deleted', path: '.claude/skills/test-skill/notes.md' }
+    ]);
+    assert.ok(report.actions.every(action => action.path.startsWith('.agents-common/.sync-base/')));
+    assert.deepEqual(report.conflicts, []);
+    assert.deepEqual(events[0], { type: 'phase', phase: 'deletions' });
+
+    const second = await run({ baseDir: testDir });
+    assert.deepEqual(second, {
+      status: 'synced',
+      skills: [{ skillName: 'test-skill', status: 'unchanged', actions: [] }],
+      actions: [],
+      conflicts: []
+    });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should report conflicts with their resolutions, and dry runs as planned', async () => {
+    const testDir = await createFixture('output-conflicts');
+    await run({ baseDir: testDir });
+    const codexPath = join(testDir, '.codex/skills/test-skill/SKILL.md');
+    const synced = await fs.readFile(codexPath, 'utf8');
+    await fs.writeFile(codexPath, synced.replace(/@.*\n/, 'Edited in codex\n'));
+
+    const planned = await run({ baseDir: testDir, dryRun: true, strategy: { default: 'common' } });
+    assert.strictEqual(planned?.status, 'planned');
+    assert.deepEqual(planned.conflicts, [
+      { kind: 'out-of-sync', skillName: 'test-skill', platforms: ['codex'], resolution: 'keep-common' }
+    ]);
+    assert.deepEqual(planned.skills[0].actions, [
+      { action: 'modified', path: '.codex/skills/test-skill/SKILL.md' }
+    ]);
+    // Nothing written by the dry run
+    const codexContent = await fs.readFile(codexPath, 'utf8');
+    assert.ok(codexContent.includes('Edited in codex'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should group listed skills by site', async () => {
+    const testDir = await createFixture('output-list');
+    await run({ baseDir: testDir });
+
+    assert.deepEqual(await listInstalledSkills({ baseDir: testDir }), [
+      { name: 'test-skill', description: 'Test skill', sites: ['common', 'claude', 'codex'] }
+    ]);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should stream events and warnings as ndjson, keeping logs off stdout', async () => {
+    const stdout: string[] = [];
+    const logged: unknown[] = [];
+    console.error = (message: unknown) => logged.push(message);
+
+    const result = await runWithJsonOutput('ndjson', 'sync', async onEvent => {
+      onEvent({ type: 'phase', phase: 'assistants' });
+      logger.log('Sync complete');
+      logger.warn('Warning: something odd');
+      return { status: 'synced' };
+    }, chunk => stdout.push(chunk));
+
+    assert.deepEqual(result, { status: 'synced' });
+    assert.deepEqual(logged, ['Sync complete', 'Warning: something odd']);
+    assert.deepEqual(stdout.join('').trim().split('\n').map(line => JSON.parse(line)), [
+      { type: 'phase', phase: 'assistants' },
+      { type: 'warning', message: 'Warning: something odd' },
+      {
+        type: 'result',
+        schemaVersion: 1,
+        command: 'sync',
+        ok: true,
+        status: 'synced',
+        warnings: ['Warning: something odd']
+      }
+    ]);
+  });
+
+  it('should print failures as a JSON document', async () => {
+    const stdout: string[] = [];
+
+    const result = await runWithJsonOutput('json', 'check', async () => {
+      throw new Error('boom');
+    }, chunk => stdout.push(chunk));
+
+    assert.strictEqual(result, null);
+    assert.deepEqual(JSON.parse(stdout.join('')), {
+      schemaVersion: 1,
+      command: 'check',
+      ok: false,
+      error: 'boom',
+      warnings: []
+    });
+    assert.strictEqual(parseOutputFormat(true), 'json');
+    assert.strictEqual(parseOutputFormat(false, 'ndjson'), 'ndjson');
+    assert.throws(() => parseOutputFormat(false, 'yaml'), /Invalid --format "yaml"/);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { OverlayFileSystem, formatPlan, skillNameFromPath } from '../src/plan.js';
+import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
+
+describe('OverlayFileSystem', () => {
+  it('should keep writes in memory and expose them to later reads', async () => {
+    const testDir = await createTestFixture('overlay-write', async (dir) => {
+      await fs.writeFile(join(dir, 'a.txt'), 'original');
+    });
+
+    const overlay = new OverlayFileSystem();
+    await overlay.writeFile(join(testDir, 'a.txt'), 'changed');
+    await overlay.mkdir(join(testDir, 'nested/dir'), { recursive: true });
+    await overlay.writeFile(join(testDir, 'nested/dir/b.txt'), 'new');
+
+    assert.strictEqual(await overlay.readFile(join(testDir, 'a.txt'), 'utf8'), 'changed');
+    assert.deepEqual(await overlay.readdir(join(testDir, 'nested/dir')), ['b.txt']);
+    assert.strictEqual(await fs.readFile(join(testDir, 'a.txt'), 'utf8'), 'original');
+    await assert.rejects(() => fs.access(join(testDir, 'nested')));
+
+    assert.deepEqual(
+      overlay.changes.map(change => change.kind),
+      ['rewrite', 'create']
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should hide deleted files and removed directories', async () => {
+    const testDir = await createTestFixture('overlay-delete', async (dir) => {
+      await fs.mkdir(join(dir, 'scripts'), { recursive: true });
+      await fs.writeFile(join(dir, 'scripts/run.sh'), 'echo hi');
+    });
+
+    const overlay = new OverlayFileSystem();
+    await overlay.unlink(join(testDir, 'scripts/run.sh'));
+    assert.deepEqual(await overlay.readdir(join(testDir, 'scripts')), []);
+
+    await overlay.rmdir(join(testDir, 'scripts'));
+    await assert.rejects(() => overlay.access(join(testDir, 'scripts')), { code: 'ENOENT' });
+    assert.ok(!(await overlay.readdir(testDir)).includes('scripts'));
+
+    // Disk is untouched
+    await fs.access(join(testDir, 'scripts/run.sh'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should not record writes that leave content unchanged', async () => {
+    const testDir = await createTestFixture('overlay-noop', async (dir) => {
+      await fs.writeFile(join(dir, 'a.txt'), 'same');
+    });
+
+    const overlay = new OverlayFileSystem();
+    await overlay.writeFile(join(testDir, 'a.txt'), 'same');
+
+    assert.strictEqual(overlay.changes.length, 0);
+    await cleanupTestFixture(testDir);
+  });
+});
+
+describe('formatPlan', () => {
+  it('should group changes by phase and skill and report moves', async () => {
+    const testDir = await createTestFixture('plan-format', async (dir) => {
+      await fs.mkdir(join(dir, '.claude/skills/my-skill/scripts'), { recursive: true });
+      await fs.writeFile(join(dir, '.claude/skills/my-skill/scripts/run.sh'), 'echo hi');
+      await fs.writeFile(join(dir, '.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+    });
+
+    const overlay = new OverlayFileSystem();
+    overlay.beginPhase('refactor');
+    await overlay.writeFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\n@ref\n');
+    overlay.beginPhase('dependents');
+    await overlay.mkdir(join(testDir, '.agents-common/skills/my-skill/scripts'), { recursive: true });
+    await overlay.copyFile(
+      join(testDir, '.claude/skills/my-skill/scripts/run.sh'),
+      join(testDir, '.agents-common/skills/my-skill/scripts/run.sh')
+    );
+    await overlay.unlink(join(testDir, '.claude/skills/my-skill/scripts/run.sh'));
+
+    const output = formatPlan(overlay.changes, testDir);
+
+    assert.ok(output.includes('Phase 3: Move inline skills to .agents-common'));
+    assert.ok(output.includes('Phase 6: Sync dependent files'));
+    assert.ok(output.includes('my-skill'));
+    assert.ok(output.includes('~ rewrite .claude/skills/my-skill/SKILL.md'));
+    assert.ok(output.includes('+@ref'));
+    assert.ok(output.includes('-Body'));
+    assert.ok(output.includes(
+      '→ move    .claude/skills/my-skill/scripts/run.sh → .agents-common/skills/my-skill/scripts/run.sh'
+    ));
+    assert.ok(!output.includes('- delete'));
+    assert.ok(output.includes('1 to rewrite, 1 to move'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should report when there is nothing to do', () => {
+    assert.ok(formatPlan([], '/tmp').includes('nothing to do'));
+  });
+});
+
+describe('skillNameFromPath', () => {
+  it('should extract the skill name from platform and common paths', () => {
+    assert.strictEqual(skillNameFromPath('.claude/skills/foo/SKILL.md'), 'foo');
+    assert.strictEqual(skillNameFromPath('.opencode/skill/foo/SKILL.md'), 'foo');
+    assert.strictEqual(skillNameFromPath('.agents-common/skills/foo/scripts/a.sh'), 'foo');
+    assert.strictEqual(skillNameFromPath('.agents-common/config.json'), null);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { run } from '../src/index.js';
+import { COMMON_DIR_ENV } from '../src/common.js';
+import { captureLogs, cleanupTestFixture, createSyncedFixture, createTestFixture } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('relocate-common', () => {
+  captureLogs();
+
+  afterEach(() => {
+    delete process.env[COMMON_DIR_ENV];
+  });
+
+  /**
+   * A skill synced to common from claude and codex
+   */
+  function createMySkillFixture(name: string): Promise<string> {
+    return createSyncedFixture(name, {
+      config: { version: 3, assistants: ['claude', 'codex'] },
+      dirs: ['.codex/skills'],
+      files: { '.claude/skills/my-skill/SKILL.md': '---\nname: my-skill\nmodel: sonnet\n---\nBody\n' }
+    });
+  }
+
+  it('should move the common directory and rewrite every reference', async () => {
+    const testDir = await createMySkillFixture('relocate-move');
+
+    await run({ baseDir: testDir, relocateCommon: 'docs/agent-skills' });
+
+    assert.strictEqual(await fs.readFile(join(testDir, '.agents-common'), 'utf8'), 'docs/agent-skills\n');
+    assert.match(await fs.readFile(join(testDir, 'docs/agent-skills/skills/my-skill/SKILL.md'), 'utf8'), /Body/);
+    assert.ok(await exists(join(testDir, 'docs/agent-skills/config.json')));
+    const claude = matter(await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8'));
+    assert.strictEqual(claude.content.trim(), '@../../../docs/agent-skills/skills/my-skill/SKILL.md');
+    assert.strictEqual(claude.data.model, 'sonnet');
+
+    // New skills go to the new location, and everything is still in sync
+    await fs.mkdir(join(testDir, '.codex/skills/other-skill'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex/skills/other-skill/SKILL.md'), '---\nname: other-skill\n---\nOther\n');
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.ok(await exists(join(testDir, 'docs/agent-skills/skills/other-skill/SKILL.md')));
+    assert.match(
+      await fs.readFile(join(testDir, '.codex/skills/other-skill/SKILL.md'), 'utf8'),
+      /@\.\.\/\.\.\/\.\.\/docs\/agent-skills\/skills\/other-skill\/SKILL\.md/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should move the common directory outside the project and back', async () => {
+    const testDir = await createMySkillFixture('relocate-outside');
+    const sharedDir = await createTestFixture('relocate-shared');
+    await fs.rmdir(sharedDir);
+
+    await run({ baseDir: testDir, relocateCommon: sharedDir });
+
+    assert.strictEqual(await fs.readFile(join(testDir, '.agents-common'), 'utf8'), `${sharedDir}\n`);
+    const reference = matter(await fs.readFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), 'utf8')).content.trim();
+    assert.match(reference, /^@\.\.\/\.\.\/\.\.\/\.\.\/sync-skills-test-relocate-shared-\w+\/skills\/my-skill\/SKILL\.md$/);
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    await run({ baseDir: testDir, relocateCommon: '.agents-common' });
+
+    assert.ok((await fs.stat(join(testDir, '.agents-common'))).isDirectory());
+    assert.strictEqual(await exists(sharedDir), false);
+    assert.match(
+      await fs.readFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), 'utf8'),
+      /@\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/my-skill\/SKILL\.md/
+    );
+
+    await cleanupTestFixture(testDir);
+    await cleanupTestFixture(sharedDir);
+  });
+
+  it('should be undone as a single run', async () => {
+    const testDir = await createMySkillFixture('relocate-undo');
+    const before = await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8');
+
+    await run({ baseDir: testDir, relocateCommon: 'docs/agent-skills' });
+    await run({ baseDir: testDir, undo: true });
+
+    assert.ok((await fs.stat(join(testDir, '.agents-common'))).isDirectory());
+    assert.ok(await exists(join(testDir, '.agents-common/skills/my-skill/SKILL.md')));
+    assert.strictEqual(await exists(join(testDir, 'docs/agent-skills/skills')), false);
+    assert.strictEqual(await fs.readFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), 'utf8'), before);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should use the common directory set in the environment', async () => {
+    const testDir = await createTestFixture('relocate-env', async (dir) => {
+      await fs.mkdir(join(dir, 'shared/skills'), { recursive: true });
+      await fs.writeFile(join(dir, 'shared/config.json'), JSON.stringify({ version: 3, assistants: ['claude'] }));
+      await fs.mkdir(join(dir, '.claude/skills/my-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+    });
+    process.env[COMMON_DIR_ENV] = 'shared';
+
+    await run({ baseDir: testDir });
+
+    assert.match(await fs.readFile(join(testDir, 'shared/skills/my-skill/SKILL.md'), 'utf8'), /Body/);
+    assert.strictEqual(await exists(join(testDir, '.agents-common')), false);
+    await assert.rejects(
+      () => run({ baseDir: testDir, relocateCommon: 'docs' }),
+      /set by SYNC_SKILLS_COMMON_DIR/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to move onto an existing folder and only show the changes in dry-run mode', async () => {
+    const testDir = await createMySkillFixture('relocate-refuse');
+    await fs.mkdir(join(testDir, 'docs'), { recursive: true });
+
+    await assert.rejects(
+      () => run({ baseDir: testDir, relocateCommon: 'docs' }),
+      /Cannot move the common directory to docs: it already exists/
+    );
+    await run({ baseDir: testDir, relocateCommon: 'docs/agent-skills', dryRun: true });
+
+    assert.ok((await fs.stat(join(testDir, '.agents-common'))).isDirectory());
+    assert.strictEqual(await exists(join(testDir, 'docs/agent-skills')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { run } from '../src/index.js';
+import { detectOutOfSyncSkills } from '../src/detector.js';
+import { scanSkills } from '../src/scanner.js';
+import { getAssistantConfigs } from '../src/types.js';
+import { captureLogs, cleanupTestFixture, createSyncedFixture } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('rename', () => {
+  captureLogs();
+
+  /**
+   * A skill with a dependent file, synced to common from claude and codex
+   */
+  function createOldNameFixture(name: string): Promise<string> {
+    return createSyncedFixture(name, {
+      dirs: ['.codex/skills'],
+      files: {
+        '.claude/skills/old-name/SKILL.md': '---\nname: old-name\nmodel: sonnet\n---\nBody\n',
+        '.claude/skills/old-name/notes.md': 'Notes'
+      }
+    });
+  }
+
+  it('should rename the skill in common and every assistant', async () => {
+    const testDir = await createOldNameFixture('rename-skill');
+    const commonPath = join(testDir, '.agents-common/skills/new-name/SKILL.md');
+    const hashBefore = matter(await fs.readFile(join(testDir, '.agents-common/skills/old-name/SKILL.md'), 'utf8'))
+      .data.metadata.sync.hash;
+
+    await run({ baseDir: testDir, rename: { from: 'old-name', to: 'new-name' } });
+
+    for (const dir of ['.agents-common/skills', '.claude/skills', '.codex/skills']) {
+      assert.strictEqual(await exists(join(testDir, dir, 'old-name')), false);
+    }
+    const common = matter(await fs.readFile(commonPath, 'utf8'));
+    assert.strictEqual(common.data.name, 'new-name');
+    assert.notStrictEqual(common.data.metadata.sync.hash, hashBefore);
+    assert.strictEqual(await fs.readFile(join(testDir, '.agents-common/skills/new-name/notes.md'), 'utf8'), 'Notes');
+
+    const claude = matter(await fs.readFile(join(testDir, '.claude/skills/new-name/SKILL.md'), 'utf8'));
+    assert.strictEqual(claude.data.name, 'new-name');
+    assert.strictEqual(claude.data.model, 'sonnet');
+    assert.strictEqual(claude.data.metadata.sync.hash, common.data.metadata.sync.hash);
+    assert.strictEqual(claude.content.trim(), '@../../../.agents-common/skills/new-name/SKILL.md');
+
+    const configs = getAssistantConfigs(['claude', 'codex']);
+    const { platforms, common: commonSkills } = await scanSkills(testDir, configs);
+    for (const config of configs) {
+      assert.deepEqual(await detectOutOfSyncSkills(platforms[config.name], commonSkills, config.name), []);
+    }
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to rename onto an existing skill', async () => {
+    const testDir = await createOldNameFixture('rename-taken');
+    await fs.mkdir(join(testDir, '.codex/skills/new-name'), { recursive: true });
+
+    await assert.rejects(
+      () => run({ baseDir: testDir, rename: { from: 'old-name', to: 'new-name' } }),
+      /Skill "new-name" already exists in: codex/
+    );
+    assert.ok(await exists(join(testDir, '.agents-common/skills/old-name/SKILL.md')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse to rename a missing skill', async () => {
+    const testDir = await createOldNameFixture('rename-missing');
+
+    await assert.rejects(
+      () => run({ baseDir: testDir, rename: { from: 'missing', to: 'new-name' } }),
+      /Skill "missing" not found/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should be undone as a single run', async () => {
+    const testDir = await createOldNameFixture('rename-undo');
+    const before = await fs.readFile(join(testDir, '.claude/skills/old-name/SKILL.md'), 'utf8');
+
+    await run({ baseDir: testDir, rename: { from: 'old-name', to: 'new-name' } });
+    await run({ baseDir: testDir, undo: true });
+
+    assert.strictEqual(await fs.readFile(join(testDir, '.claude/skills/old-name/SKILL.md'), 'utf8'), before);
+    assert.strictEqual(await exists(join(testDir, '.claude/skills/new-name')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should only show the changes in dry-run mode', async () => {
+    const testDir = await createOldNameFixture('rename-dry-run');
+
+    await run({ baseDir: testDir, rename: { from: 'old-name', to: 'new-name' }, dryRun: true });
+
+    assert.ok(await exists(join(testDir, '.claude/skills/old-name/SKILL.md')));
+    assert.strictEqual(await exists(join(testDir, '.claude/skills/new-name')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+});
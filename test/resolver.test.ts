@@ -1,8 +1,13 @@
 import { describe, it } from 'node:test';
 import { strict as assert } from 'node:assert';
-import { resolveOutOfSyncSkill, resolveOutOfSyncSkills, resolveConflict } from '../src/resolver.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { stripVTControlCharacters } from 'util';
+import { resolveOutOfSyncSkill, resolveOutOfSyncSkills, resolveConflict, resolveDependentConflicts } from '../src/resolver.js';
+import { useLogger } from '../src/ui.js';
+import { createTestFixture, cleanupTestFixture } from './helpers/test-setup.js';
 import type { OutOfSyncSkill, OutOfSyncResolution } from '../src/types.js';
-import type { Conflict } from '../src/types.js';
+import type { Conflict, DependentConflict } from '../src/types.js';
 
 // Mock inquirer implementation
 function createMockInquirer(answer: Record<string, unknown>) {
@@ -298,5 +303,108 @@ describe('resolver', () => {
       assert.ok(!choices.find((c: any) => c.value === 'use-b'), 'Should not have use-b');
       assert.ok(choices.find((c: any) => c.value === 'use-common'), 'Should have use-common');
     });
+
+    it('should offer every variant of an N-way conflict and return the chosen one', async () => {
+      const conflict: Conflict = {
+        skillName: 'conflict-skill',
+        platformA: 'claude',
+        platformB: 'codex',
+        pathA: 'claude/path',
+        pathB: 'codex/path',
+        hashA: 'hash1',
+        hashB: 'hash2',
+        contentA: 'content 1',
+        contentB: 'content 2',
+        conflictType: 'content',
+        variants: [
+          { platforms: ['claude', 'cursor'], paths: ['claude/path', 'cursor/path'], hash: 'hash1', content: 'content 1' },
+          { platforms: ['codex'], paths: ['codex/path'], hash: 'hash2', content: 'content 2' },
+          { platforms: ['gemini'], paths: ['gemini/path'], hash: 'hash3', content: 'content 3' }
+        ]
+      };
+
+      const mockInquirer = createMockInquirer({ action: 'use-variant:2' });
+
+      const resolution = await resolveConflict(conflict, mockInquirer as any, { allowVariants: [true, false, true] });
+
+      const questions = mockInquirer.getCapturedQuestions();
+      const choices = questions[0].choices;
+
+      assert.deepEqual(
+        choices.map((c: any) => c.value),
+        ['use-a', 'use-variant:2', 'keep-both', 'abort']
+      );
+      assert.strictEqual(choices[0].name, 'Use .claude, .cursor version (overwrite .codex, .gemini)');
+      assert.deepEqual(resolution, { action: 'use-variant', variant: 2 });
+    });
+
+    it('should say why merging by hand is not offered', async () => {
+      const conflict: Conflict = {
+        skillName: 'conflict-skill',
+        platformA: 'claude',
+        platformB: 'codex',
+        pathA: 'claude/path',
+        pathB: 'codex/path',
+        hashA: 'hash1',
+        hashB: 'hash2',
+        contentA: 'content 1',
+        contentB: 'content 2',
+        conflictType: 'content'
+      };
+
+      const mockInquirer = createMockInquirer({ action: 'keep-both' });
+
+      await resolveConflict(conflict, mockInquirer as any, { manualMergeUnavailable: 'merges two versions, 3 differ' });
+
+      const choices = mockInquirer.getCapturedQuestions()[0].choices;
+      assert.deepEqual(
+        choices.find((c: any) => c.value === 'edit'),
+        { name: 'Merge by hand', value: 'edit', disabled: 'merges two versions, 3 differ' }
+      );
+    });
+  });
+
+  describe('resolveDependentConflicts', () => {
+    async function describeConflict(platformContent: string | Buffer, commonContent: string | Buffer): Promise<string> {
+      const testDir = await createTestFixture('resolver-dependent');
+      const platformPath = join(testDir, 'platform-file');
+      const commonPath = join(testDir, 'common-file');
+      await fs.writeFile(platformPath, platformContent);
+      await fs.writeFile(commonPath, commonContent);
+      const conflict: DependentConflict = {
+        skillName: 'test-skill',
+        relativePath: 'assets/file',
+        platform: 'claude',
+        platformPath,
+        platformHash: 'sha256-platform',
+        commonPath,
+        commonHash: 'sha256-common'
+      };
+
+      const logged: string[] = [];
+      const restore = useLogger({ log: message => logged.push(message), warn: () => {} });
+      try {
+        await resolveDependentConflicts([conflict], createMockInquirer({ action: 'use-common' }) as any);
+      } finally {
+        restore();
+        await cleanupTestFixture(testDir);
+      }
+      return stripVTControlCharacters(logged.join('\n'));
+    }
+
+    it('should compare sizes instead of diffing binary files', async () => {
+      const output = await describeConflict(Buffer.from([0x89, 0x50, 0x00, 0x01]), Buffer.from([0x89, 0x00]));
+
+      assert.ok(output.includes('binary file differs (4 bytes vs 2 bytes)'));
+      assert.ok(!output.includes('Diff'));
+    });
+
+    it('should diff text files', async () => {
+      const output = await describeConflict('platform line\n', 'common line\n');
+
+      assert.ok(output.includes('Diff (red = common, green = claude):'));
+      assert.ok(output.includes('platform line'));
+      assert.ok(!output.includes('binary file differs'));
+    });
   });
 });
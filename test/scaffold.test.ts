@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { run } from '../src/index.js';
+import { validateSkillName } from '../src/scaffold.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture, stubInquirer } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('scaffold', () => {
+  captureLogs();
+
+  function createAssistantsFixture(name: string): Promise<string> {
+    return createConfiguredFixture(name, { dirs: ['.claude/skills', '.codex/skills'] });
+  }
+
+  it('should validate skill names against the specification', () => {
+    assert.strictEqual(validateSkillName('pdf-processing'), null);
+    assert.strictEqual(validateSkillName('v2'), null);
+    assert.match(validateSkillName('PDF-Processing') ?? '', /lowercase/);
+    assert.match(validateSkillName('-pdf') ?? '', /hyphen/);
+    assert.match(validateSkillName('pdf--processing') ?? '', /consecutive/);
+    assert.match(validateSkillName('a'.repeat(65)) ?? '', /1-64/);
+  });
+
+  it('should create the common skill and reference it from every assistant', async () => {
+    const testDir = await createAssistantsFixture('scaffold-new');
+
+    await run({
+      baseDir: testDir,
+      newSkill: { name: 'pdf-processing', description: 'Extract text from PDF files.', folders: ['scripts'] }
+    });
+
+    const common = matter(await fs.readFile(join(testDir, '.agents-common/skills/pdf-processing/SKILL.md'), 'utf8'));
+    assert.strictEqual(common.data.name, 'pdf-processing');
+    assert.strictEqual(common.data.description, 'Extract text from PDF files.');
+    assert.match(common.data.metadata.sync.hash, /^sha256-/);
+    assert.match(common.content, /# Pdf Processing/);
+    assert.ok(await exists(join(testDir, '.agents-common/skills/pdf-processing/scripts')));
+    assert.strictEqual(await exists(join(testDir, '.agents-common/skills/pdf-processing/assets')), false);
+
+    for (const dir of ['.claude/skills', '.codex/skills']) {
+      const platform = matter(await fs.readFile(join(testDir, dir, 'pdf-processing/SKILL.md'), 'utf8'));
+      assert.strictEqual(platform.content.trim(), '@../../../.agents-common/skills/pdf-processing/SKILL.md');
+      assert.strictEqual(platform.data.metadata.sync.hash, common.data.metadata.sync.hash);
+    }
+
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should create the skill from a template', async () => {
+    const testDir = await createAssistantsFixture('scaffold-template');
+    const templateDir = join(testDir, '.agents-common/templates/script-skill');
+    await fs.mkdir(join(templateDir, 'scripts'), { recursive: true });
+    await fs.writeFile(join(templateDir, 'SKILL.md'), '---\nlicense: MIT\n---\n# {{name}}\n\n{{description}}\n\nRun scripts/run.sh\n');
+    await fs.writeFile(join(templateDir, 'scripts/run.sh'), 'echo run');
+
+    await run({
+      baseDir: testDir,
+      newSkill: { name: 'runner', description: 'Runs things.', template: 'script-skill' }
+    });
+
+    const commonDir = join(testDir, '.agents-common/skills/runner');
+    const common = matter(await fs.readFile(join(commonDir, 'SKILL.md'), 'utf8'));
+    assert.strictEqual(common.data.name, 'runner');
+    assert.strictEqual(common.data.license, 'MIT');
+    assert.match(common.content, /# runner\n\nRuns things\./);
+    assert.deepEqual(common.data.metadata.sync.files, ['scripts/run.sh']);
+    assert.strictEqual(await fs.readFile(join(commonDir, 'scripts/run.sh'), 'utf8'), 'echo run');
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should ask for a missing description', async () => {
+    const testDir = await createAssistantsFixture('scaffold-prompt');
+
+    const stub = stubInquirer({ description: 'Prompted description.' });
+    try {
+      await run({ baseDir: testDir, newSkill: { name: 'prompted' } });
+    } finally {
+      stub.restore();
+    }
+
+    const common = matter(await fs.readFile(join(testDir, '.agents-common/skills/prompted/SKILL.md'), 'utf8'));
+    assert.strictEqual(common.data.description, 'Prompted description.');
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should refuse invalid names, taken names and missing templates', async () => {
+    const testDir = await createAssistantsFixture('scaffold-invalid');
+    await fs.mkdir(join(testDir, '.codex/skills/taken'), { recursive: true });
+
+    await assert.rejects(
+      () => run({ baseDir: testDir, newSkill: { name: 'Bad_Name', description: 'Bad.' } }),
+      /Invalid skill name "Bad_Name"/
+    );
+    await assert.rejects(
+      () => run({ baseDir: testDir, newSkill: { name: 'taken', description: 'Taken.' } }),
+      /Skill "taken" already exists in: codex/
+    );
+    await assert.rejects(
+      () => run({ baseDir: testDir, newSkill: { name: 'templated', description: 'Templated.', template: 'missing' } }),
+      /Template "missing" not found/
+    );
+    assert.strictEqual(await exists(join(testDir, '.agents-common/skills/templated')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { findChangedSkills, readSyncState, updateSyncState } from '../src/state.js';
+import { DiskFileSystem, useFileSystem } from '../src/io.js';
+import type { DirEntry, FileStat } from '../src/io.js';
+import { useJobs } from '../src/concurrency.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture, createSyncedFixture, stubInquirer } from './helpers/test-setup.js';
+
+describe('sync state', () => {
+  const logs = captureLogs();
+
+  /**
+   * Two claude skills synced to common
+   */
+  function createTwoSkillFixture(name: string): Promise<string> {
+    return createSyncedFixture(name, {
+      config: { version: 1, assistants: ['claude'] },
+      files: {
+        '.claude/skills/skill-a/SKILL.md': '---\nname: skill-a\n---\nBody\n',
+        '.claude/skills/skill-b/SKILL.md': '---\nname: skill-b\n---\nBody\n'
+      }
+    });
+  }
+
+  async function changedSkills(testDir: string): Promise<string[] | null> {
+    return findChangedSkills(testDir, await readSyncState(testDir), ['.claude/skills'], {}, ['.claude']);
+  }
+
+  it('should record every skill file after a sync and skip unchanged skills', async () => {
+    const testDir = await createTwoSkillFixture('state-skip');
+
+    const state = await readSyncState(testDir);
+    assert.deepEqual(Object.keys(state!.skills).sort(), ['skill-a', 'skill-b']);
+    assert.deepEqual(Object.keys(state!.skills['skill-a']).sort(), [
+      '.agents-common/skills/skill-a/SKILL.md',
+      '.claude/skills/skill-a/SKILL.md'
+    ]);
+    assert.deepEqual(await changedSkills(testDir), []);
+
+    logs.messages.length = 0;
+    const report = await run({ baseDir: testDir });
+
+    assert.ok(logs.messages.includes('Skills are up to date'));
+    assert.deepEqual(report!.skills.map(skill => [skill.skillName, skill.status]), [
+      ['skill-a', 'unchanged'],
+      ['skill-b', 'unchanged']
+    ]);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should only record the size, mtime and hash of each file', async () => {
+    const testDir = await createTwoSkillFixture('state-fields');
+    // A file system handing back every field of fs.stat
+    const restore = useFileSystem(new class extends DiskFileSystem {
+      async stat(path: string): Promise<FileStat> {
+        return fs.stat(path);
+      }
+    }());
+    try {
+      await updateSyncState(testDir, ['.claude/skills'], null, [], {}, ['.claude']);
+    } finally {
+      restore();
+    }
+
+    const state = await readSyncState(testDir);
+    for (const file of Object.values(state!.skills).flatMap(files => Object.values(files))) {
+      assert.deepEqual(Object.keys(file).sort(), ['hash', 'mtimeMs', 'size']);
+    }
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should scan skill files concurrently within the jobs limit', async () => {
+    const testDir = await createTwoSkillFixture('state-jobs');
+    for (const skillName of ['skill-a', 'skill-b']) {
+      await fs.mkdir(join(testDir, '.claude/skills', skillName, 'docs/deep'), { recursive: true });
+      await fs.writeFile(join(testDir, '.claude/skills', skillName, 'docs/a.md'), 'A');
+      await fs.writeFile(join(testDir, '.claude/skills', skillName, 'docs/deep/b.md'), 'B');
+    }
+
+    // Counts the reads in flight, each held long enough for others to start
+    let running = 0;
+    let peak = 0;
+    const track = async <T>(read: () => Promise<T>): Promise<T> => {
+      running++;
+      peak = Math.max(peak, running);
+      try {
+        await new Promise(resolve => setTimeout(resolve, 2));
+        return await read();
+      } finally {
+        running--;
+      }
+    };
+    const restoreFileSystem = useFileSystem(new class extends DiskFileSystem {
+      readdir(path: string): Promise<string[]>;
+      readdir(path: string, options: { withFileTypes: true }): Promise<DirEntry[]>;
+      readdir(path: string, options?: { withFileTypes: true }): Promise<string[] | DirEntry[]> {
+        return track(() => options ? super.readdir(path, options) : super.readdir(path));
+      }
+
+      stat(path: string): Promise<FileStat> {
+        return track(() => super.stat(path));
+      }
+    }());
+    const restoreJobs = useJobs(2);
+    try {
+      assert.deepEqual(await changedSkills(testDir), ['skill-a', 'skill-b']);
+    } finally {
+      restoreJobs();
+      restoreFileSystem();
+    }
+    assert.strictEqual(peak, 2);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should only sync the skills changed since the last sync', async () => {
+    const testDir = await createTwoSkillFixture('state-changed');
+    await fs.writeFile(join(testDir, '.claude/skills/skill-a/notes.md'), 'Notes');
+    await fs.writeFile(join(testDir, '.agents-common/skills/skill-b/notes.md'), 'Notes');
+    await fs.rm(join(testDir, '.agents-common/skills/skill-b/notes.md'));
+
+    assert.deepEqual(await changedSkills(testDir), ['skill-a']);
+
+    const report = await run({ baseDir: testDir });
+
+    assert.deepEqual(report!.skills.map(skill => [skill.skillName, skill.status]), [
+      ['skill-a', 'updated'],
+      ['skill-b', 'unchanged']
+    ]);
+    await fs.access(join(testDir, '.agents-common/skills/skill-a/notes.md'));
+    assert.deepEqual(await changedSkills(testDir), []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should not count a file touched without changing it', async () => {
+    const testDir = await createTwoSkillFixture('state-touched');
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(join(testDir, '.claude/skills/skill-b/SKILL.md'), later, later);
+
+    assert.deepEqual(await changedSkills(testDir), []);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should need a full sync when the enabled assistants change', async () => {
+    const testDir = await createTwoSkillFixture('state-assistants');
+
+    assert.strictEqual(await findChangedSkills(testDir, await readSyncState(testDir), ['.claude/skills', '.codex/skills']), null);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should link common skills into an assistant folder created since the last sync', async () => {
+    const testDir = await createConfiguredFixture('state-new-folder', {
+      files: { '.claude/skills/skill-a/SKILL.md': '---\nname: skill-a\n---\nBody\n' }
+    });
+    const stub = stubInquirer({ create: false });
+    try {
+      await run({ baseDir: testDir });
+    } finally {
+      stub.restore();
+    }
+    await assert.rejects(() => fs.access(join(testDir, '.codex/skills/skill-a/SKILL.md')));
+
+    await fs.mkdir(join(testDir, '.codex'));
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    await fs.access(join(testDir, '.codex/skills/skill-a/SKILL.md'));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should go through every skill with full', async () => {
+    const testDir = await createTwoSkillFixture('state-full');
+    // Recorded as synced after the edit: only a full sync notices it
+    const platformPath = join(testDir, '.claude/skills/skill-b/SKILL.md');
+    await fs.writeFile(platformPath, (await fs.readFile(platformPath, 'utf8')).replace(/@.*\n/, 'Edited inline\n'));
+    await updateSyncState(testDir, ['.claude/skills'], null, [], {}, ['.claude']);
+
+    await run({ baseDir: testDir, failOnConflict: true });
+    await assert.rejects(
+      () => run({ baseDir: testDir, failOnConflict: true, full: true }),
+      /Out-of-sync skills detected: skill-b/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should check skills with conflicts again on the next sync', async () => {
+    const testDir = await createTwoSkillFixture('state-conflict');
+    const platformPath = join(testDir, '.claude/skills/skill-a/SKILL.md');
+    await fs.writeFile(platformPath, (await fs.readFile(platformPath, 'utf8')).replace(/@.*\n/, 'Edited inline\n'));
+
+    await run({ baseDir: testDir, strategy: { default: 'platform' } });
+
+    assert.deepEqual(await changedSkills(testDir), ['skill-a']);
+
+    await cleanupTestFixture(testDir);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { run } from '../src/index.js';
+import { getStrategy, parseStrategy } from '../src/strategy.js';
+import { resolveConflict, resolveOutOfSyncSkill } from '../src/resolver.js';
+import { resolveDependentConflictByStrategy } from '../src/dependents.js';
+import { propagateFrontmatter } from '../src/propagator.js';
+import { captureLogs, cleanupTestFixture, createTestFixture } from './helpers/test-setup.js';
+import type { Conflict, DependentConflict, OutOfSyncSkill } from '../src/types.js';
+
+const failingInquirer = {
+  prompt: async () => {
+    throw new Error('Should not prompt when a strategy is set');
+  }
+};
+
+/**
+ * Write a file with a fixed modification time (seconds since epoch)
+ */
+async function writeFileAt(path: string, content: string, mtime: number): Promise<void> {
+  await fs.writeFile(path, content);
+  await fs.utimes(path, mtime, mtime);
+}
+
+describe('strategy', () => {
+  captureLogs();
+
+  it('should validate strategies and apply per-kind overrides', () => {
+    assert.strictEqual(parseStrategy('newest'), 'newest');
+    assert.throws(() => parseStrategy('theirs', 'strategy-dependent'), /--strategy-dependent must be one of/);
+
+    const policy = { default: 'common' as const, dependent: 'platform' as const };
+    assert.strictEqual(getStrategy(policy, 'dependent'), 'platform');
+    assert.strictEqual(getStrategy(policy, 'frontmatter'), 'common');
+    assert.strictEqual(getStrategy(undefined, 'platform'), undefined);
+  });
+
+  it('should resolve out-of-sync skills without prompting', async () => {
+    const skill: OutOfSyncSkill = {
+      skillName: 'test-skill',
+      platform: 'claude',
+      platformPath: '/path/to/claude/SKILL.md',
+      commonPath: '/path/to/common/SKILL.md',
+      mismatchType: 'body',
+      platformContent: '---\nname: test-skill\n---\nEdited inline',
+      commonContent: '---\nname: test-skill\n---\nOriginal'
+    };
+
+    assert.deepEqual(await resolveOutOfSyncSkill(skill, failingInquirer as any, 'platform'), { action: 'keep-platform' });
+    assert.deepEqual(await resolveOutOfSyncSkill(skill, failingInquirer as any, 'common'), { action: 'keep-common' });
+    await assert.rejects(() => resolveOutOfSyncSkill(skill, failingInquirer as any, 'abort'), /Sync aborted: out-of-sync conflict/);
+
+    // Platform edits can't be kept for a multi-platform group: fall back to common
+    const group = { ...skill, platform: 'multiple', allowKeepPlatform: false };
+    assert.deepEqual(await resolveOutOfSyncSkill(group, failingInquirer as any, 'platform'), { action: 'keep-common' });
+  });
+
+  it('should keep the most recently modified platform version with newest', async () => {
+    const testDir = await createTestFixture('strategy-newest', async (dir) => {
+      await writeFileAt(join(dir, 'claude.md'), 'one', 1000);
+      await writeFileAt(join(dir, 'cursor.md'), 'one', 1000);
+      await writeFileAt(join(dir, 'codex.md'), 'two', 2000);
+      await writeFileAt(join(dir, 'gemini.md'), 'three', 3000);
+    });
+
+    const conflict: Conflict = {
+      skillName: 'test-skill',
+      platformA: 'claude',
+      platformB: 'codex',
+      pathA: join(testDir, 'claude.md'),
+      pathB: join(testDir, 'codex.md'),
+      hashA: 'hash1',
+      hashB: 'hash2',
+      conflictType: 'content',
+      variants: [
+        { platforms: ['claude', 'cursor'], paths: [join(testDir, 'claude.md'), join(testDir, 'cursor.md')], hash: 'hash1', content: 'one' },
+        { platforms: ['codex'], paths: [join(testDir, 'codex.md')], hash: 'hash2', content: 'two' },
+        { platforms: ['gemini'], paths: [join(testDir, 'gemini.md')], hash: 'hash3', content: 'three' }
+      ]
+    };
+
+    assert.deepEqual(
+      await resolveConflict(conflict, failingInquirer as any, { strategy: 'newest' }),
+      { action: 'use-variant', variant: 2 }
+    );
+    assert.deepEqual(
+      await resolveConflict(conflict, failingInquirer as any, { strategy: 'newest', allowVariants: [true, true, false] }),
+      { action: 'use-b' }
+    );
+    assert.deepEqual(
+      await resolveConflict(conflict, failingInquirer as any, { strategy: 'common', allowUseCommon: true }),
+      { action: 'use-common' }
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should pick a dependent file version from the strategy', async () => {
+    const testDir = await createTestFixture('strategy-dependent', async (dir) => {
+      await writeFileAt(join(dir, 'claude.sh'), 'echo claude', 1000);
+      await writeFileAt(join(dir, 'codex.sh'), 'echo codex', 3000);
+      await writeFileAt(join(dir, 'common.sh'), 'echo common', 2000);
+    });
+
+    const conflict: DependentConflict = {
+      skillName: 'test-skill',
+      relativePath: 'scripts/run.sh',
+      platform: 'claude',
+      platformPath: join(testDir, 'claude.sh'),
+      platformHash: 'sha256-claude',
+      commonPath: join(testDir, 'common.sh'),
+      commonHash: 'sha256-common',
+      otherVersions: [{ platform: 'codex', path: join(testDir, 'codex.sh'), hash: 'sha256-codex' }]
+    };
+
+    assert.deepEqual(
+      await resolveDependentConflictByStrategy(conflict, 'newest'),
+      { action: 'use-platform', sourcePath: join(testDir, 'codex.sh') }
+    );
+    assert.deepEqual(
+      await resolveDependentConflictByStrategy(conflict, 'platform'),
+      { action: 'use-platform', sourcePath: join(testDir, 'claude.sh') }
+    );
+    assert.deepEqual(await resolveDependentConflictByStrategy(conflict, 'common'), { action: 'use-common' });
+    assert.deepEqual(
+      await resolveDependentConflictByStrategy({ ...conflict, commonPath: undefined }, 'common'),
+      { action: 'skip' }
+    );
+    await assert.rejects(() => resolveDependentConflictByStrategy(conflict, 'abort'), /Sync aborted: dependent conflict/);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should resolve frontmatter field conflicts from the strategy', async () => {
+    const testDir = await createTestFixture('strategy-frontmatter', async (dir) => {
+      await fs.writeFile(join(dir, 'common.md'), '---\nname: test-skill\ndescription: Common\n---\nBody');
+      await fs.writeFile(join(dir, 'target.md'), '---\nname: test-skill\ndescription: Platform\n---\nBody');
+    });
+    const commonPath = join(testDir, 'common.md');
+    const targetPath = join(testDir, 'target.md');
+
+    await propagateFrontmatter(commonPath, [targetPath], { strategy: 'common' });
+    assert.ok((await fs.readFile(targetPath, 'utf8')).includes('description: Common'));
+
+    await fs.writeFile(targetPath, '---\nname: test-skill\ndescription: Platform\n---\nBody');
+    await assert.rejects(
+      () => propagateFrontmatter(commonPath, [targetPath], { strategy: 'abort' }),
+      /Sync aborted: frontmatter conflict/
+    );
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should let a strategy resolve conflicts that would fail a non-interactive run', async () => {
+    const testDir = await createTestFixture('strategy-run', async (dir) => {
+      await fs.mkdir(join(dir, '.agents-common/skills/test-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.agents-common/config.json'), JSON.stringify({
+        version: 1,
+        assistants: ['claude']
+      }, null, 2));
+      await fs.writeFile(join(dir, '.agents-common/skills/test-skill/SKILL.md'), `---
+name: test-skill
+metadata:
+  sync:
+    version: 2
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+
+Original content`);
+
+      await fs.mkdir(join(dir, '.claude/skills/test-skill'), { recursive: true });
+      await fs.writeFile(join(dir, '.claude/skills/test-skill/SKILL.md'), `---
+name: test-skill
+metadata:
+  sync:
+    hash: sha256-0aa1d1e50634a32c6f583b64c2bdf4b827c0ff0f820c1f1fb5f06cc0b4df6a99
+---
+
+Modified content`);
+    });
+
+    await run({ baseDir: testDir, failOnConflict: true, strategy: { default: 'platform' } });
+
+    const commonContent = await fs.readFile(join(testDir, '.agents-common/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(commonContent.includes('Modified content'));
+    const platformContent = await fs.readFile(join(testDir, '.claude/skills/test-skill/SKILL.md'), 'utf8');
+    assert.ok(platformContent.includes('@../../../.agents-common/skills/test-skill/SKILL.md'));
+
+    await cleanupTestFixture(testDir);
+  });
+});
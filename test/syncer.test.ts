@@ -2,7 +2,9 @@ import { test } from 'node:test';
 import { strict as assert } from 'assert';
 import { promises as fs } from 'fs';
 import { describe, it, beforeEach, afterEach } from 'node:test';
-import { refactorSkill, computeSkillHash } from '../src/syncer.js';
+import matter from 'gray-matter';
+import { refactorSkill, computeSkillHash, verifySkillHash } from '../src/syncer.js';
+import { normalizeBodyContent } from '../src/frontmatter.js';
 import { buildCommonSkillReference } from '../src/references.js';
 
 describe('refactorSkill', () => {
@@ -44,11 +46,37 @@ This is content`);
     // Common file contains frontmatter + body with sync metadata
     assert.ok(commonContent.includes('name: test-skill'));
     assert.ok(commonContent.includes('description: Test skill'));
-    assert.ok(commonContent.includes('version: 2'));
+    assert.ok(commonContent.includes('version: 4'));
     assert.ok(commonContent.includes('# Content'));
     assert.ok(commonContent.includes('This is content'));
   });
 
+  it('should verify the hash of a skill moved to common with the algorithm of its version', async () => {
+    const sourcePath = `${testDir}/.claude/skills/test-skill/SKILL.md`;
+    const commonDir = `${testDir}/.agents-common/skills/test-skill`;
+    await fs.writeFile(sourcePath, '---\nname: test-skill\nmetadata:\n  sync:\n    assistants: [claude]\n---\nBody\n');
+    await refactorSkill(sourcePath);
+
+    const verify = async () => {
+      const parsed = matter(await fs.readFile(`${commonDir}/SKILL.md`, 'utf8'));
+      return verifySkillHash(parsed.data, normalizeBodyContent(parsed.content), commonDir);
+    };
+    assert.strictEqual(await verify(), true);
+
+    const common = matter(await fs.readFile(`${commonDir}/SKILL.md`, 'utf8'));
+    await fs.writeFile(`${commonDir}/SKILL.md`, matter.stringify('Edited\n', common.data));
+    assert.strictEqual(await verify(), false);
+
+    // A version 3 hash may have included sync metadata it replaced, so a mismatch proves nothing
+    common.data.metadata.sync.version = 3;
+    await fs.writeFile(`${commonDir}/SKILL.md`, matter.stringify('Edited\n', common.data));
+    assert.strictEqual(await verify(), null);
+
+    delete common.data.metadata.sync.hash;
+    await fs.writeFile(`${commonDir}/SKILL.md`, matter.stringify(common.content, common.data));
+    assert.strictEqual(await verify(), false);
+  });
+
   it('should not refactor if @ reference already exists', async () => {
     const sourcePath = `${testDir}/.claude/skills/test-skill/SKILL.md`;
     const commonPath = `${testDir}/.agents-common/skills/test-skill/SKILL.md`;
@@ -104,6 +132,19 @@ describe('computeSkillHash', () => {
     assert.notStrictEqual(hash1, hash2);
   });
 
+  it('should leave sync metadata out of the hash', () => {
+    const hash = computeSkillHash({ name: 'test', metadata: { author: 'me' } }, 'content', []);
+
+    assert.strictEqual(
+      computeSkillHash({ name: 'test', metadata: { author: 'me', sync: { hash: 'sha256-old' } } }, 'content', []),
+      hash
+    );
+    assert.strictEqual(
+      computeSkillHash({ name: 'test', metadata: { sync: { hash: 'sha256-old' } } }, 'content', []),
+      computeSkillHash({ name: 'test' }, 'content', [])
+    );
+  });
+
   it('should handle unsorted object keys deterministically', () => {
     const frontmatter1 = { b: 1, a: 2 };
     const frontmatter2 = { a: 2, b: 1 };
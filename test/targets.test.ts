@@ -0,0 +1,180 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { run, checkSync } from '../src/index.js';
+import { loadTargetFilter, matchesSkillGlob } from '../src/targets.js';
+import { CHECK_EXIT_CODES } from '../src/check.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture } from './helpers/test-setup.js';
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('targets', () => {
+  captureLogs();
+
+  function createAssistantsFixture(name: string, targets?: Record<string, unknown>): Promise<string> {
+    return createConfiguredFixture(name, {
+      config: { version: 4, assistants: ['claude', 'codex'], ...(targets ? { targets } : {}) },
+      dirs: ['.claude/skills', '.codex/skills']
+    });
+  }
+
+  it('should require every matching rule to let the assistant have the skill', async () => {
+    assert.ok(matchesSkillGlob('beta-search', 'beta-*'));
+    assert.ok(matchesSkillGlob('v2', 'v?'));
+    assert.ok(!matchesSkillGlob('search-beta', 'beta-*'));
+    assert.ok(!matchesSkillGlob('beta.x', 'beta?y'));
+
+    const isTargeted = await loadTargetFilter({
+      'beta-*': { exclude: ['codex'] },
+      '*': { assistants: ['claude', 'codex', 'cursor'] }
+    });
+    assert.ok(isTargeted('beta-search', 'claude'));
+    assert.ok(!isTargeted('beta-search', 'codex'));
+    assert.ok(isTargeted('search', 'codex'));
+    assert.ok(!isTargeted('search', 'windsurf'));
+  });
+
+  it('should only link a skill to the assistants of its frontmatter', async () => {
+    const testDir = await createAssistantsFixture('targets-frontmatter');
+    await fs.mkdir(join(testDir, '.agents-common/skills/claude-tools'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, '.agents-common/skills/claude-tools/SKILL.md'),
+      '---\nname: claude-tools\nmetadata:\n  sync:\n    assistants: [claude]\n---\nUse the Claude tools\n'
+    );
+
+    await run({ baseDir: testDir });
+
+    assert.ok(await exists(join(testDir, '.claude/skills/claude-tools/SKILL.md')));
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/claude-tools')), false);
+    const common = matter(await fs.readFile(join(testDir, '.agents-common/skills/claude-tools/SKILL.md'), 'utf8'));
+    assert.deepEqual(common.data.metadata.sync.assistants, ['claude']);
+    const { drifts } = await checkSync({ baseDir: testDir });
+    assert.ok(!drifts.some(drift => drift.category === 'unlinked'));
+
+    await run({ baseDir: testDir, failOnConflict: true, full: true });
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/claude-tools')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should not copy a skill to assistants excluded by a config glob', async () => {
+    const testDir = await createAssistantsFixture('targets-config', { 'experimental-*': { exclude: ['codex'] } });
+    await fs.mkdir(join(testDir, '.claude/skills/experimental-search'), { recursive: true });
+    await fs.writeFile(join(testDir, '.claude/skills/experimental-search/SKILL.md'), '---\nname: experimental-search\n---\nSearch\n');
+    await fs.mkdir(join(testDir, '.claude/skills/search'), { recursive: true });
+    await fs.writeFile(join(testDir, '.claude/skills/search/SKILL.md'), '---\nname: search\n---\nSearch\n');
+
+    await run({ baseDir: testDir });
+
+    assert.ok(await exists(join(testDir, '.agents-common/skills/experimental-search/SKILL.md')));
+    assert.match(await fs.readFile(join(testDir, '.claude/skills/experimental-search/SKILL.md'), 'utf8'), /^@/m);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/experimental-search')), false);
+    assert.ok(await exists(join(testDir, '.codex/skills/search/SKILL.md')));
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should remove the references of an assistant once it is excluded, and leave its own copies alone', async () => {
+    const testDir = await createAssistantsFixture('targets-remove');
+    await fs.mkdir(join(testDir, '.claude/skills/my-skill'), { recursive: true });
+    await fs.writeFile(join(testDir, '.claude/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nBody\n');
+    await run({ baseDir: testDir });
+    assert.ok(await exists(join(testDir, '.codex/skills/my-skill/SKILL.md')));
+
+    // Excluded in the skill's own frontmatter
+    const commonPath = join(testDir, '.agents-common/skills/my-skill/SKILL.md');
+    const common = matter(await fs.readFile(commonPath, 'utf8'));
+    common.data.metadata.sync.exclude = ['codex'];
+    await fs.writeFile(commonPath, matter.stringify(common.content, common.data));
+
+    const check = await checkSync({ baseDir: testDir });
+    assert.deepEqual(check.drifts.map(drift => [drift.category, drift.platform]), [['excluded', 'codex']]);
+    assert.strictEqual(check.exitCode, CHECK_EXIT_CODES.excluded);
+
+    const events: string[] = [];
+    await run({ baseDir: testDir, failOnConflict: true, onEvent: event => {
+      if (event.type === 'reference-removed') {
+        events.push(`${event.platform} ${event.path}`);
+      }
+    } });
+
+    assert.deepEqual(events, ['codex .codex/skills/my-skill/SKILL.md']);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/my-skill')), false);
+    assert.ok(await exists(join(testDir, '.claude/skills/my-skill/SKILL.md')));
+    assert.strictEqual((await checkSync({ baseDir: testDir })).exitCode, 0);
+
+    // A copy codex keeps of its own is not linked or overwritten
+    await fs.mkdir(join(testDir, '.codex/skills/my-skill'), { recursive: true });
+    await fs.writeFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), '---\nname: my-skill\n---\nCodex version\n');
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.match(await fs.readFile(join(testDir, '.codex/skills/my-skill/SKILL.md'), 'utf8'), /Codex version/);
+    assert.match(await fs.readFile(commonPath, 'utf8'), /Body/);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should keep the assistants of a skill through merges and restores', async () => {
+    const testDir = await createAssistantsFixture('targets-merge');
+    const commonPath = join(testDir, '.agents-common/skills/claude-tools/SKILL.md');
+    const platformPath = join(testDir, '.claude/skills/claude-tools/SKILL.md');
+    await fs.mkdir(join(testDir, '.agents-common/skills/claude-tools'), { recursive: true });
+    await fs.writeFile(
+      commonPath,
+      '---\nname: claude-tools\nmetadata:\n  sync:\n    assistants: [claude]\n---\nline1\nline2\nline3\n'
+    );
+    await run({ baseDir: testDir });
+
+    // Edited inline in claude and in common: merged without prompting
+    const hash = matter(await fs.readFile(platformPath, 'utf8')).data.metadata.sync.hash;
+    await fs.writeFile(platformPath, `---\nname: claude-tools\nmetadata:\n  sync:\n    hash: ${hash}\n---\nline1 claude\nline2\nline3\n`);
+    await fs.writeFile(commonPath, (await fs.readFile(commonPath, 'utf8')).replace('line3', 'line3 common'));
+    await run({ baseDir: testDir, failOnConflict: true });
+
+    const merged = matter(await fs.readFile(commonPath, 'utf8'));
+    assert.match(merged.content, /line1 claude\nline2\nline3 common/);
+    assert.deepEqual(merged.data.metadata.sync.assistants, ['claude']);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/claude-tools')), false);
+
+    // Restored from the last synced version
+    await fs.rm(join(testDir, '.agents-common/skills/claude-tools'), { recursive: true });
+    await run({ baseDir: testDir, strategy: { deletion: 'platform' } });
+
+    const restored = matter(await fs.readFile(commonPath, 'utf8'));
+    assert.match(restored.content, /line3 common/);
+    assert.deepEqual(restored.data.metadata.sync.assistants, ['claude']);
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/claude-tools')), false);
+
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should go through every skill when the targeting rules of the config change', async () => {
+    const testDir = await createAssistantsFixture('targets-changed');
+    await fs.mkdir(join(testDir, '.claude/skills/beta-skill'), { recursive: true });
+    await fs.writeFile(join(testDir, '.claude/skills/beta-skill/SKILL.md'), '---\nname: beta-skill\n---\nBody\n');
+    await run({ baseDir: testDir });
+    assert.ok(await exists(join(testDir, '.codex/skills/beta-skill/SKILL.md')));
+
+    await fs.writeFile(join(testDir, '.agents-common/config.json'), JSON.stringify({
+      version: 4,
+      assistants: ['claude', 'codex'],
+      targets: { 'beta-*': { assistants: ['claude'] } }
+    }));
+    await run({ baseDir: testDir, failOnConflict: true });
+    assert.strictEqual(await exists(join(testDir, '.codex/skills/beta-skill')), false);
+
+    // Undone like any other run
+    await run({ baseDir: testDir, undo: true });
+    assert.ok(await exists(join(testDir, '.codex/skills/beta-skill/SKILL.md')));
+
+    await cleanupTestFixture(testDir);
+  });
+});
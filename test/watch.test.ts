@@ -0,0 +1,150 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { SkillWatcher, watchSync } from '../src/index.js';
+import { captureLogs, cleanupTestFixture, createConfiguredFixture } from './helpers/test-setup.js';
+import type { SyncReport } from '../src/index.js';
+
+const DEBOUNCE_MS = 50;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Poll until the condition holds, failing after a few seconds
+ */
+async function waitFor(condition: () => boolean | Promise<boolean>): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await condition()) {
+      return;
+    }
+    await delay(50);
+  }
+  assert.fail('Timed out waiting for the watcher');
+}
+
+function emptyReport(): SyncReport {
+  return { status: 'synced', skills: [], actions: [], conflicts: [] };
+}
+
+describe('Watch mode', () => {
+  let testDir: string;
+  let watcher: SkillWatcher | undefined;
+  captureLogs();
+
+  beforeEach(async () => {
+    testDir = await createConfiguredFixture('watch', {
+      config: { version: 1, assistants: ['claude'] },
+      dirs: ['.agents-common/skills', '.claude/skills/skill-a', '.claude/skills/skill-b']
+    });
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    await cleanupTestFixture(testDir);
+  });
+
+  it('should sync a skill added to common while watching', async () => {
+    watcher = await watchSync({ baseDir: testDir }, DEBOUNCE_MS);
+
+    await fs.mkdir(join(testDir, '.agents-common/skills/new-skill'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, '.agents-common/skills/new-skill/SKILL.md'),
+      '---\nname: new-skill\ndescription: Added while watching\n---\n\nBody\n'
+    );
+
+    const referencePath = join(testDir, '.claude/skills/new-skill/SKILL.md');
+    await waitFor(() => fs.access(referencePath).then(() => true, () => false));
+    assert.match(await fs.readFile(referencePath, 'utf8'), /@\.\.\/\.\.\/\.\.\/\.agents-common\/skills\/new-skill\/SKILL\.md/);
+  });
+
+  it('should sync a burst of changes once, for the affected skills only', async () => {
+    const calls: Array<string[] | null> = [];
+    watcher = new SkillWatcher(testDir, {
+      sync: async skillNames => {
+        calls.push(skillNames && [...skillNames].sort());
+        return emptyReport();
+      },
+      watchedDirs: async () => ['.agents-common', '.claude/skills'],
+      debounceMs: DEBOUNCE_MS
+    });
+    await watcher.start();
+
+    await fs.writeFile(join(testDir, '.claude/skills/skill-a/SKILL.md'), 'A');
+    await fs.writeFile(join(testDir, '.claude/skills/skill-b/SKILL.md'), 'B');
+    await fs.writeFile(join(testDir, '.claude/skills/skill-a/notes.md'), 'Notes');
+
+    await waitFor(() => calls.length > 1);
+    await delay(DEBOUNCE_MS * 4);
+    assert.deepEqual(calls, [null, ['skill-a', 'skill-b']]);
+  });
+
+  it('should only sync changes to the skills folder of the common directory it is given', async () => {
+    const calls: Array<string[] | null> = [];
+    await fs.mkdir(join(testDir, 'shared/skills'), { recursive: true });
+    watcher = new SkillWatcher(testDir, {
+      sync: async skillNames => {
+        calls.push(skillNames);
+        return emptyReport();
+      },
+      watchedDirs: async () => ['shared'],
+      commonDir: 'shared',
+      debounceMs: DEBOUNCE_MS
+    });
+    await watcher.start();
+
+    // A history backup keeps the path of the file it saved
+    await fs.mkdir(join(testDir, 'shared/.history/run/.claude/skills/skill-a'), { recursive: true });
+    await fs.writeFile(join(testDir, 'shared/.history/run/.claude/skills/skill-a/SKILL.md'), 'Backup');
+    await delay(DEBOUNCE_MS * 4);
+    await fs.mkdir(join(testDir, 'shared/skills/skill-c'), { recursive: true });
+    await fs.writeFile(join(testDir, 'shared/skills/skill-c/SKILL.md'), 'C');
+
+    await waitFor(() => calls.length > 1);
+    await delay(DEBOUNCE_MS * 4);
+    assert.deepEqual(calls, [null, ['skill-c']]);
+  });
+
+  it('should ignore its own writes and queue changes made during a sync', async () => {
+    const calls: Array<string[] | null> = [];
+    let release: () => void = () => {};
+    watcher = new SkillWatcher(testDir, {
+      sync: async skillNames => {
+        calls.push(skillNames);
+        if (!skillNames) {
+          return emptyReport();
+        }
+        // Write to skill-b like a sync would, and wait (as if prompting) before reporting it
+        const path = '.claude/skills/skill-b/SKILL.md';
+        await fs.writeFile(join(testDir, path), `Synced ${calls.length}`);
+        await new Promise<void>(resolve => {
+          release = resolve;
+        });
+        return {
+          ...emptyReport(),
+          skills: [{ skillName: 'skill-b', status: 'updated', actions: [{ action: 'modified', path }] }]
+        };
+      },
+      watchedDirs: async () => ['.claude/skills'],
+      debounceMs: DEBOUNCE_MS
+    });
+    await watcher.start();
+
+    await fs.writeFile(join(testDir, '.claude/skills/skill-a/SKILL.md'), 'A');
+    await waitFor(() => calls.length === 2);
+
+    // Edited while the first sync waits: synced next, not alongside
+    await fs.writeFile(join(testDir, '.claude/skills/skill-a/SKILL.md'), 'A2');
+    await delay(DEBOUNCE_MS * 4);
+    assert.equal(calls.length, 2);
+
+    release();
+    await waitFor(() => calls.length === 3);
+    release();
+    await delay(DEBOUNCE_MS * 4);
+    assert.deepEqual(calls, [null, ['skill-a'], ['skill-a']]);
+  });
+});